@@ -0,0 +1,118 @@
+/**
+ * Local SMTP Stand-in
+ * Accepts every message sent to it (e.g. by the saved search digest), prints a summary
+ * and saves the raw message as a .eml file. For development only: no auth, no TLS.
+ *
+ * Usage:
+ *   npm run dev:smtp                       listens on localhost:1025, saves to .mail/
+ *   npm run dev:smtp -- --port=2525 --dir=/tmp/mail
+ */
+
+import { createServer, Socket } from 'net';
+import { mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+
+interface ServerOptions {
+  port: number;
+  dir: string;
+}
+
+function parseOptions(argv: string[]): ServerOptions {
+  const getValue = (name: string) => {
+    const arg = argv.find((a) => a.startsWith(`--${name}=`));
+    return arg ? arg.slice(name.length + 3) : null;
+  };
+
+  return {
+    port: Number(getValue('port') || 1025),
+    dir: getValue('dir') || '.mail',
+  };
+}
+
+/**
+ * Read a header from the raw message, decoding UTF-8 encoded words
+ */
+function readHeader(raw: string, name: string): string {
+  const match = raw.match(new RegExp(`^${name}: (.*)$`, 'mi'));
+  if (!match) return '';
+  return match[1].trim().replace(/=\?UTF-8\?B\?([^?]+)\?=/gi, (_, encoded) =>
+    Buffer.from(encoded, 'base64').toString('utf8')
+  );
+}
+
+function handleConnection(socket: Socket, options: ServerOptions) {
+  let buffer = '';
+  let inData = false;
+  let recipients: string[] = [];
+
+  const reply = (line: string) => socket.write(`${line}\r\n`);
+
+  const saveMessage = (raw: string) => {
+    // Undo dot-stuffing
+    const message = raw.replace(/^\.\./gm, '.');
+    const file = join(options.dir, `${new Date().toISOString().replace(/[:.]/g, '-')}.eml`);
+    writeFileSync(file, message);
+    console.log(`Mail to ${recipients.join(', ')}: ${readHeader(message, 'Subject')} -> ${file}`);
+  };
+
+  reply('220 localhost dev-smtp ready');
+
+  socket.setEncoding('utf8');
+  socket.on('data', (chunk: string) => {
+    buffer += chunk;
+
+    while (true) {
+      if (inData) {
+        const end = buffer.indexOf('\r\n.\r\n');
+        if (end === -1) return;
+        saveMessage(buffer.slice(0, end));
+        buffer = buffer.slice(end + 5);
+        inData = false;
+        recipients = [];
+        reply('250 OK: saved');
+        continue;
+      }
+
+      const lineEnd = buffer.indexOf('\r\n');
+      if (lineEnd === -1) return;
+      const line = buffer.slice(0, lineEnd);
+      buffer = buffer.slice(lineEnd + 2);
+      const command = line.slice(0, 4).toUpperCase();
+
+      if (command === 'EHLO' || command === 'HELO') {
+        reply('250 localhost');
+      } else if (command === 'MAIL' || command === 'NOOP') {
+        reply('250 OK');
+      } else if (command === 'RSET') {
+        recipients = [];
+        reply('250 OK');
+      } else if (command === 'RCPT') {
+        recipients.push(line.replace(/^RCPT TO:\s*<?([^>]*)>?.*$/i, '$1'));
+        reply('250 OK');
+      } else if (command === 'DATA') {
+        inData = true;
+        reply('354 End data with <CR><LF>.<CR><LF>');
+      } else if (command === 'QUIT') {
+        reply('221 Bye');
+        socket.end();
+        return;
+      } else {
+        reply('502 Command not implemented');
+      }
+    }
+  });
+
+  socket.on('error', (error) => console.error('Connection error:', error.message));
+}
+
+function main() {
+  const options = parseOptions(process.argv.slice(2));
+  mkdirSync(options.dir, { recursive: true });
+
+  const server = createServer((socket) => handleConnection(socket, options));
+  server.listen(options.port, () => {
+    console.log(`dev-smtp listening on localhost:${options.port}, saving messages to ${options.dir}/`);
+  });
+}
+
+main();
@@ -0,0 +1,258 @@
+/**
+ * Legacy Posts Migration
+ * Rewrites old 'products' documents (name, fileUrls, sellerId, likeCount...)
+ * into the canonical Post shape defined in src/lib/converters.ts.
+ *
+ * Usage:
+ *   npm run migrate:posts                      dry run, prints a report
+ *   npm run migrate:posts -- --apply           writes the changes
+ *   npm run migrate:posts -- --apply --resume  continues from the saved cursor
+ *
+ * Options:
+ *   --apply              write changes (default is a dry run)
+ *   --batch-size=<n>     documents per page and write batch (max 500, default 200)
+ *   --resume             start after the document id saved in the cursor file
+ *   --start-after=<id>   start after a specific document id
+ *   --cursor-file=<path> where the cursor is saved (default .migrate-posts-cursor)
+ *
+ * Target:
+ *   FIRESTORE_EMULATOR_HOST=localhost:8080   run against the Firestore emulator
+ *   MIGRATION_EMAIL / MIGRATION_PASSWORD     admin account used against production
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { initializeApp } from 'firebase/app';
+import { getAuth, signInWithEmailAndPassword } from 'firebase/auth';
+import {
+  getFirestore,
+  connectFirestoreEmulator,
+  collection,
+  query,
+  orderBy,
+  startAfter,
+  limit,
+  getDocs,
+  writeBatch,
+  documentId,
+  deleteField,
+  Timestamp,
+  DocumentData,
+  Firestore,
+} from 'firebase/firestore';
+import firebaseConfig, { COLLECTIONS } from '@/lib/firebase';
+import { toCanonicalPostData, LEGACY_POST_FIELDS } from '@/lib/converters';
+
+const MAX_BATCH_SIZE = 500; // Firestore write batch limit
+const SAMPLE_SIZE = 10;
+
+interface MigrationOptions {
+  apply: boolean;
+  batchSize: number;
+  resume: boolean;
+  startAfterId: string | null;
+  cursorFile: string;
+}
+
+interface MigrationReport {
+  scanned: number;
+  changed: number;
+  written: number;
+  fieldCounts: Record<string, number>;
+  samples: { id: string; fields: string[] }[];
+  lastId: string | null;
+}
+
+function parseOptions(argv: string[]): MigrationOptions {
+  const getValue = (name: string) => {
+    const arg = argv.find((a) => a.startsWith(`--${name}=`));
+    return arg ? arg.slice(name.length + 3) : null;
+  };
+
+  const batchSize = Number(getValue('batch-size') || 200);
+  if (!Number.isInteger(batchSize) || batchSize < 1 || batchSize > MAX_BATCH_SIZE) {
+    throw new Error(`--batch-size must be between 1 and ${MAX_BATCH_SIZE}`);
+  }
+
+  return {
+    apply: argv.includes('--apply'),
+    batchSize,
+    resume: argv.includes('--resume'),
+    startAfterId: getValue('start-after'),
+    cursorFile: getValue('cursor-file') || '.migrate-posts-cursor',
+  };
+}
+
+/**
+ * Compare a stored value with its canonical value
+ */
+function isSameValue(current: unknown, next: unknown): boolean {
+  if (current instanceof Timestamp && next instanceof Timestamp) {
+    return current.isEqual(next);
+  }
+  return JSON.stringify(current) === JSON.stringify(next);
+}
+
+/**
+ * Build the update for a single document
+ * Returns null when the document is already canonical
+ */
+function buildUpdate(id: string, data: DocumentData): Record<string, unknown> | null {
+  const canonical = toCanonicalPostData(id, data);
+  const update: Record<string, unknown> = {};
+
+  Object.entries(canonical).forEach(([field, value]) => {
+    if (!isSameValue(data[field], value)) {
+      update[field] = value;
+    }
+  });
+
+  LEGACY_POST_FIELDS.forEach((field) => {
+    if (field in data) {
+      update[field] = deleteField();
+    }
+  });
+
+  return Object.keys(update).length > 0 ? update : null;
+}
+
+async function connect(): Promise<Firestore> {
+  const app = initializeApp(firebaseConfig);
+  const db = getFirestore(app);
+  const emulatorHost = process.env.FIRESTORE_EMULATOR_HOST;
+
+  if (emulatorHost) {
+    const [host, port] = emulatorHost.split(':');
+    connectFirestoreEmulator(db, host, Number(port));
+    console.log(`Target: Firestore emulator at ${emulatorHost}`);
+    return db;
+  }
+
+  const email = process.env.MIGRATION_EMAIL;
+  const password = process.env.MIGRATION_PASSWORD;
+  if (!email || !password) {
+    throw new Error('Set FIRESTORE_EMULATOR_HOST, or MIGRATION_EMAIL and MIGRATION_PASSWORD for an admin account');
+  }
+
+  await signInWithEmailAndPassword(getAuth(app), email, password);
+  console.log(`Target: project ${firebaseConfig.projectId} as ${email}`);
+  return db;
+}
+
+function readCursor(options: MigrationOptions): string | null {
+  if (options.startAfterId) return options.startAfterId;
+  if (!options.resume) return null;
+  if (!existsSync(options.cursorFile)) {
+    throw new Error(`No cursor file at ${options.cursorFile}`);
+  }
+  return readFileSync(options.cursorFile, 'utf8').trim() || null;
+}
+
+async function migrate(db: Firestore, options: MigrationOptions): Promise<MigrationReport> {
+  const report: MigrationReport = {
+    scanned: 0,
+    changed: 0,
+    written: 0,
+    fieldCounts: {},
+    samples: [],
+    lastId: readCursor(options),
+  };
+
+  if (report.lastId) {
+    console.log(`Starting after document ${report.lastId}`);
+  }
+
+  while (true) {
+    let pageQuery = query(
+      collection(db, COLLECTIONS.PRODUCTS),
+      orderBy(documentId()),
+      limit(options.batchSize)
+    );
+
+    if (report.lastId) {
+      pageQuery = query(
+        collection(db, COLLECTIONS.PRODUCTS),
+        orderBy(documentId()),
+        startAfter(report.lastId),
+        limit(options.batchSize)
+      );
+    }
+
+    const snapshot = await getDocs(pageQuery);
+    if (snapshot.empty) break;
+
+    const batch = writeBatch(db);
+    let batchChanges = 0;
+
+    snapshot.docs.forEach((postDoc) => {
+      const update = buildUpdate(postDoc.id, postDoc.data());
+      if (!update) return;
+
+      const fields = Object.keys(update);
+      fields.forEach((field) => {
+        report.fieldCounts[field] = (report.fieldCounts[field] || 0) + 1;
+      });
+      if (report.samples.length < SAMPLE_SIZE) {
+        report.samples.push({ id: postDoc.id, fields });
+      }
+
+      batch.update(postDoc.ref, update);
+      batchChanges++;
+    });
+
+    if (options.apply && batchChanges > 0) {
+      await batch.commit();
+      report.written += batchChanges;
+    }
+
+    report.scanned += snapshot.docs.length;
+    report.changed += batchChanges;
+    report.lastId = snapshot.docs[snapshot.docs.length - 1].id;
+
+    // Only persist the cursor once the page is committed
+    if (options.apply) {
+      writeFileSync(options.cursorFile, report.lastId);
+    }
+
+    console.log(`Scanned ${report.scanned}, ${report.changed} need changes (last id ${report.lastId})`);
+
+    if (snapshot.docs.length < options.batchSize) break;
+  }
+
+  return report;
+}
+
+function printReport(report: MigrationReport, options: MigrationOptions) {
+  console.log('\n=== MIGRATION REPORT ===');
+  console.log(`Mode: ${options.apply ? 'apply' : 'dry run'}`);
+  console.log(`Documents scanned: ${report.scanned}`);
+  console.log(`Documents needing changes: ${report.changed}`);
+  console.log(`Documents written: ${report.written}`);
+
+  const fields = Object.entries(report.fieldCounts).sort((a, b) => b[1] - a[1]);
+  if (fields.length > 0) {
+    console.log('\nChanges per field:');
+    fields.forEach(([field, count]) => console.log(`  ${field}: ${count}`));
+  }
+
+  if (report.samples.length > 0) {
+    console.log('\nSample documents:');
+    report.samples.forEach((sample) => console.log(`  ${sample.id}: ${sample.fields.join(', ')}`));
+  }
+
+  if (!options.apply && report.changed > 0) {
+    console.log('\nRun again with --apply to write these changes.');
+  }
+}
+
+async function main() {
+  const options = parseOptions(process.argv.slice(2));
+  const db = await connect();
+  const report = await migrate(db, options);
+  printReport(report, options);
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error('Migration failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,55 @@
+/**
+ * Publish Scheduled Posts
+ * Makes every scheduled post whose publish time has come active, so it enters the feeds.
+ * Meant to run on a schedule (e.g. a cron job every few minutes); the admin's expiry
+ * sweep does the same thing by hand.
+ *
+ * Usage:
+ *   npm run publish:scheduled
+ *
+ * Target:
+ *   FIRESTORE_EMULATOR_HOST=localhost:8080   run against the Firestore emulator
+ *   PUBLISH_EMAIL / PUBLISH_PASSWORD         admin account used against production
+ */
+
+import { initializeApp } from 'firebase/app';
+import { getAuth, signInWithEmailAndPassword } from 'firebase/auth';
+import { getFirestore, connectFirestoreEmulator, Firestore } from 'firebase/firestore';
+import firebaseConfig from '@/lib/firebase';
+import { publishDuePosts } from '@/lib/schedule';
+
+async function connect(): Promise<Firestore> {
+  const app = initializeApp(firebaseConfig);
+  const db = getFirestore(app);
+  const emulatorHost = process.env.FIRESTORE_EMULATOR_HOST;
+
+  if (emulatorHost) {
+    const [host, port] = emulatorHost.split(':');
+    connectFirestoreEmulator(db, host, Number(port));
+    console.log(`Target: Firestore emulator at ${emulatorHost}`);
+    return db;
+  }
+
+  const email = process.env.PUBLISH_EMAIL;
+  const password = process.env.PUBLISH_PASSWORD;
+  if (!email || !password) {
+    throw new Error('Set FIRESTORE_EMULATOR_HOST, or PUBLISH_EMAIL and PUBLISH_PASSWORD for an admin account');
+  }
+
+  await signInWithEmailAndPassword(getAuth(app), email, password);
+  console.log(`Target: project ${firebaseConfig.projectId} as ${email}`);
+  return db;
+}
+
+async function main() {
+  const db = await connect();
+  const published = await publishDuePosts(db);
+
+  console.log(`Published scheduled posts: ${published}`);
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error('Publishing failed:', error);
+  process.exit(1);
+});
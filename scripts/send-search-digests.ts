@@ -0,0 +1,193 @@
+/**
+ * Saved Search Email Digest
+ * For every saved search with the email digest turned on, finds the posts published
+ * since the previous digest and sends each user one email listing them.
+ * Meant to run on a schedule (e.g. a daily cron job).
+ *
+ * Usage:
+ *   npm run digest:searches                 sends the digests
+ *   npm run digest:searches -- --dry-run    prints them, sends nothing and keeps the searches unchanged
+ *
+ * Target:
+ *   FIRESTORE_EMULATOR_HOST=localhost:8080   run against the Firestore emulator
+ *   DIGEST_EMAIL / DIGEST_PASSWORD           admin account used against production
+ *
+ * Mail goes through src/lib/mailer.ts (MAIL_TRANSPORT, SMTP_HOST, SMTP_PORT, MAIL_FROM);
+ * in development run `npm run dev:smtp` first. Links point at APP_URL (default http://localhost:3000).
+ */
+
+import { initializeApp } from 'firebase/app';
+import { getAuth, signInWithEmailAndPassword } from 'firebase/auth';
+import {
+  getFirestore,
+  connectFirestoreEmulator,
+  collectionGroup,
+  query,
+  where,
+  getDocs,
+  getDoc,
+  doc,
+  updateDoc,
+  Timestamp,
+  Firestore,
+} from 'firebase/firestore';
+import firebaseConfig, { COLLECTIONS } from '@/lib/firebase';
+import { dataToSavedSearch, dataToUser } from '@/lib/converters';
+import { findNewMatches, describeSavedSearch, savedSearchHref } from '@/lib/searchAlerts';
+import { getMailer, createLogMailer, MailMessage } from '@/lib/mailer';
+import { formatPrice } from '@/lib/utils';
+import { Post, SavedSearch } from '@/types';
+
+const APP_URL = (process.env.APP_URL || 'http://localhost:3000').replace(/\/$/, '');
+
+interface DigestSection {
+  search: SavedSearch;
+  posts: Post[];
+}
+
+interface DigestReport {
+  searches: number;
+  users: number;
+  sent: number;
+  failed: number;
+}
+
+async function connect(): Promise<Firestore> {
+  const app = initializeApp(firebaseConfig);
+  const db = getFirestore(app);
+  const emulatorHost = process.env.FIRESTORE_EMULATOR_HOST;
+
+  if (emulatorHost) {
+    const [host, port] = emulatorHost.split(':');
+    connectFirestoreEmulator(db, host, Number(port));
+    console.log(`Target: Firestore emulator at ${emulatorHost}`);
+    return db;
+  }
+
+  const email = process.env.DIGEST_EMAIL;
+  const password = process.env.DIGEST_PASSWORD;
+  if (!email || !password) {
+    throw new Error('Set FIRESTORE_EMULATOR_HOST, or DIGEST_EMAIL and DIGEST_PASSWORD for an admin account');
+  }
+
+  await signInWithEmailAndPassword(getAuth(app), email, password);
+  console.log(`Target: project ${firebaseConfig.projectId} as ${email}`);
+  return db;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"]/g, (char) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' }[char]!));
+}
+
+function postLine(post: Post): string {
+  const price = post.price ? ` – ${formatPrice(post.price, post.currency)}` : '';
+  return `${post.title || 'Fără titlu'}${price}`;
+}
+
+function buildDigest(to: string, userName: string, sections: DigestSection[]): MailMessage {
+  const total = sections.reduce((sum, section) => sum + section.posts.length, 0);
+  const subject = total === 1
+    ? 'Un anunț nou pentru căutările tale salvate'
+    : `${total} anunțuri noi pentru căutările tale salvate`;
+
+  const text = [
+    `Salut${userName ? `, ${userName}` : ''}!`,
+    '',
+    ...sections.flatMap(({ search, posts }) => [
+      `${search.name} (${describeSavedSearch(search)})`,
+      ...posts.map((post) => `  - ${postLine(post)}: ${APP_URL}/postare/${post.id}`),
+      `  Toate rezultatele: ${APP_URL}${savedSearchHref(search)}`,
+      '',
+    ]),
+    `Poți opri aceste emailuri din ${APP_URL}/setari.`,
+  ].join('\n');
+
+  const html = [
+    `<p>Salut${userName ? `, ${escapeHtml(userName)}` : ''}!</p>`,
+    ...sections.map(({ search, posts }) => [
+      `<h3>${escapeHtml(search.name)}</h3>`,
+      '<ul>',
+      ...posts.map((post) => `<li><a href="${APP_URL}/postare/${post.id}">${escapeHtml(postLine(post))}</a></li>`),
+      '</ul>',
+      `<p><a href="${APP_URL}${savedSearchHref(search)}">Toate rezultatele</a></p>`,
+    ].join('\n')),
+    `<p style="color:#6b7280">Poți opri aceste emailuri din <a href="${APP_URL}/setari">Setări</a>.</p>`,
+  ].join('\n');
+
+  return { to, subject, text, html };
+}
+
+async function sendDigests(db: Firestore, dryRun: boolean): Promise<DigestReport> {
+  const mailer = dryRun ? createLogMailer() : getMailer();
+  const snapshot = await getDocs(query(collectionGroup(db, 'savedSearches'), where('emailDigest', '==', true)));
+
+  // Saved searches live at users/{uid}/savedSearches/{searchId}
+  const searchesByUser = new Map<string, SavedSearch[]>();
+  snapshot.docs.forEach((snap) => {
+    const userId = snap.ref.parent.parent?.id;
+    if (!userId) return;
+    const searches = searchesByUser.get(userId) || [];
+    searches.push(dataToSavedSearch(snap.id, snap.data(), userId));
+    searchesByUser.set(userId, searches);
+  });
+
+  const report: DigestReport = { searches: snapshot.size, users: searchesByUser.size, sent: 0, failed: 0 };
+  const now = new Date();
+
+  for (const [userId, searches] of searchesByUser) {
+    try {
+      const userSnap = await getDoc(doc(db, COLLECTIONS.USERS, userId));
+      if (!userSnap.exists()) continue;
+      const user = dataToUser(userSnap.id, userSnap.data());
+      if (!user.email) continue;
+
+      const sections: DigestSection[] = [];
+      const emailedUntil = new Map<string, Date>();
+      for (const search of searches) {
+        const since = search.lastEmailedAt || search.createdAt || now;
+        const { posts, checkedUntil } = await findNewMatches(db, search, since, now);
+        if (posts.length > 0) sections.push({ search, posts });
+        emailedUntil.set(search.id, checkedUntil);
+      }
+
+      if (sections.length > 0) {
+        await mailer.send(buildDigest(user.email, user.fullName, sections));
+        report.sent++;
+      }
+
+      // Only move the window once the email went out
+      if (!dryRun) {
+        await Promise.all(searches.map((search) =>
+          updateDoc(doc(db, COLLECTIONS.USERS, userId, 'savedSearches', search.id), {
+            lastEmailedAt: Timestamp.fromDate(emailedUntil.get(search.id) || now),
+          })
+        ));
+      }
+    } catch (error) {
+      report.failed++;
+      console.error(`Digest for user ${userId} failed:`, error);
+    }
+  }
+
+  return report;
+}
+
+async function main() {
+  const dryRun = process.argv.slice(2).includes('--dry-run');
+  const db = await connect();
+  const report = await sendDigests(db, dryRun);
+
+  console.log('\n=== DIGEST REPORT ===');
+  console.log(`Mode: ${dryRun ? 'dry run' : 'send'}`);
+  console.log(`Saved searches with digest: ${report.searches}`);
+  console.log(`Users: ${report.users}`);
+  console.log(`Emails ${dryRun ? 'printed' : 'sent'}: ${report.sent}`);
+  console.log(`Failed: ${report.failed}`);
+
+  process.exit(report.failed > 0 ? 1 : 0);
+}
+
+main().catch((error) => {
+  console.error('Digest failed:', error);
+  process.exit(1);
+});
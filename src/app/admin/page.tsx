@@ -2,7 +2,7 @@
 
 /**
  * Admin Dashboard Page
- * Management interface for posts, comments, and users
+ * Management interface for reports, posts, comments, reviews, and users, with a log of every admin action
  * Accessible only to users with role: "admin"
  */
 
@@ -23,9 +23,25 @@ import {
   ImageOff,
   RefreshCw,
   Video,
+  Wrench,
+  Clock,
+  Settings,
+  History,
+  Star,
+  Eye,
+  EyeOff,
+  Flag,
+  CheckCircle,
+  Ban,
+  Unlock,
+  ScrollText,
 } from 'lucide-react';
 import AdminRoute from '@/components/auth/AdminRoute';
-import { Post, User, Comment } from '@/types';
+import ExpirySettings from '@/components/admin/ExpirySettings';
+import SuspendUserModal from '@/components/admin/SuspendUserModal';
+import AdminLog from '@/components/admin/AdminLog';
+import { useAuth } from '@/contexts/AuthContext';
+import { Post, User, Comment, CommentRevision, Review, REPORT_REASON_LABELS, ReportReason } from '@/types';
 import {
   fetchAllPostsAdmin,
   fetchAllUsersAdmin,
@@ -33,22 +49,46 @@ import {
   adminDeletePost,
   adminDeleteComment,
   adminDeleteUser,
+  normalizeLegacyPosts,
+  expireOverduePosts,
+  fetchCommentRevisions,
+  fetchAllReviewsAdmin,
+  adminSetReviewHidden,
+  adminDeleteReview,
+  fetchOpenReportsAdmin,
+  adminResolveReportGroup,
+  adminDismissReportGroup,
+  adminSuspendUser,
+  adminLiftSuspension,
 } from '@/services/adminService';
 import { formatDate } from '@/lib/utils';
+import { isVideoUrl } from '@/lib/converters';
+import { ReportGroup, groupReports, reportTargetHref, describeReportReasons, REPORT_TARGET_LABELS } from '@/lib/reports';
+import { isSuspensionActive, describeSuspensionEnd, suspensionEnd } from '@/lib/suspensions';
+import StarRating from '@/components/reviews/StarRating';
 import { QueryDocumentSnapshot } from 'firebase/firestore';
 
-type TabType = 'posts' | 'comments' | 'users';
+type TabType = 'reports' | 'posts' | 'comments' | 'reviews' | 'users' | 'log' | 'settings';
 
 interface DeleteModalState {
   isOpen: boolean;
-  type: 'post' | 'comment' | 'user' | null;
+  type: 'post' | 'comment' | 'review' | 'user' | 'report' | null;
   id: string;
-  secondaryId?: string; // For comments, this is the postId
+  secondaryId?: string; // For comments, this is the postId; for reviews, the sellerId
   title: string;
   deleteUserPosts?: boolean;
 }
 
+// Who the suspend dialog is for; reportKey is set when it resolves a report group
+interface SuspendTarget {
+  userId: string;
+  name: string;
+  reportKey?: string;
+  reason?: string;
+}
+
 function AdminDashboardContent() {
+  const { user: admin } = useAuth();
   const [activeTab, setActiveTab] = useState<TabType>('posts');
   
   // Posts state
@@ -62,12 +102,27 @@ function AdminDashboardContent() {
   const [comments, setComments] = useState<(Comment & { postTitle?: string })[]>([]);
   const [commentsLoading, setCommentsLoading] = useState(true);
 
+  // Reports state, grouped by target
+  const [reportGroups, setReportGroups] = useState<ReportGroup[]>([]);
+  const [reportsLoading, setReportsLoading] = useState(true);
+  const [dismissingKey, setDismissingKey] = useState<string | null>(null);
+  const [reportError, setReportError] = useState<string | null>(null);
+
+  // Reviews state
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [reviewsLoading, setReviewsLoading] = useState(true);
+  const [updatingReviewId, setUpdatingReviewId] = useState<string | null>(null);
+  const [reviewError, setReviewError] = useState<string | null>(null);
+
   // Users state
   const [users, setUsers] = useState<User[]>([]);
   const [usersLoading, setUsersLoading] = useState(true);
   const [usersLastDoc, setUsersLastDoc] = useState<QueryDocumentSnapshot | null>(null);
   const [usersHasMore, setUsersHasMore] = useState(false);
   const [loadingMoreUsers, setLoadingMoreUsers] = useState(false);
+  const [suspendTarget, setSuspendTarget] = useState<SuspendTarget | null>(null);
+  const [liftingUserId, setLiftingUserId] = useState<string | null>(null);
+  const [userError, setUserError] = useState<string | null>(null);
 
   // Delete modal state
   const [deleteModal, setDeleteModal] = useState<DeleteModalState>({
@@ -79,6 +134,12 @@ function AdminDashboardContent() {
   const [isDeleting, setIsDeleting] = useState(false);
   const [deleteError, setDeleteError] = useState<string | null>(null);
   const [deleteUserPostsOption, setDeleteUserPostsOption] = useState(false);
+  const [deleteReason, setDeleteReason] = useState('');
+
+  // Legacy normalization / expiry sweep state
+  const [isNormalizing, setIsNormalizing] = useState(false);
+  const [isExpiring, setIsExpiring] = useState(false);
+  const [normalizeMessage, setNormalizeMessage] = useState<string | null>(null);
 
   // Load posts on mount
   useEffect(() => {
@@ -90,10 +151,26 @@ function AdminDashboardContent() {
     if (activeTab === 'comments' && comments.length === 0 && commentsLoading) {
       loadComments();
     }
+    if (activeTab === 'reports' && reportGroups.length === 0 && reportsLoading) {
+      loadReports();
+    }
+    if (activeTab === 'reviews' && reviews.length === 0 && reviewsLoading) {
+      loadReviews();
+    }
     if (activeTab === 'users' && users.length === 0 && usersLoading) {
       loadUsers();
     }
-  }, [activeTab, comments.length, commentsLoading, users.length, usersLoading]);
+  }, [
+    activeTab,
+    reportGroups.length,
+    reportsLoading,
+    comments.length,
+    commentsLoading,
+    reviews.length,
+    reviewsLoading,
+    users.length,
+    usersLoading,
+  ]);
 
   const loadPosts = async () => {
     setPostsLoading(true);
@@ -121,6 +198,48 @@ function AdminDashboardContent() {
     setCommentsLoading(false);
   };
 
+  const loadReports = async () => {
+    setReportsLoading(true);
+    const result = await fetchOpenReportsAdmin();
+    setReportGroups(groupReports(result.reports));
+    setReportsLoading(false);
+  };
+
+  const handleDismissReports = async (group: ReportGroup) => {
+    if (dismissingKey || !admin) return;
+    setDismissingKey(group.key);
+    setReportError(null);
+    const result = await adminDismissReportGroup(admin, group);
+    if (result.success) {
+      setReportGroups(reportGroups.filter((g) => g.key !== group.key));
+    } else {
+      setReportError(result.error || 'Eroare la respingerea raportărilor');
+    }
+    setDismissingKey(null);
+  };
+
+  const loadReviews = async () => {
+    setReviewsLoading(true);
+    const result = await fetchAllReviewsAdmin();
+    setReviews(result.reviews);
+    setReviewsLoading(false);
+  };
+
+  const handleToggleReviewHidden = async (review: Review) => {
+    if (updatingReviewId || !admin) return;
+    setUpdatingReviewId(review.id);
+    setReviewError(null);
+    const result = await adminSetReviewHidden(admin, review, !review.hidden);
+    if (result.success) {
+      setReviews(reviews.map((r) =>
+        r.id === review.id && r.sellerId === review.sellerId ? { ...r, hidden: !review.hidden } : r
+      ));
+    } else {
+      setReviewError(result.error || 'Eroare la actualizarea recenziei');
+    }
+    setUpdatingReviewId(null);
+  };
+
   const loadUsers = async () => {
     setUsersLoading(true);
     const result = await fetchAllUsersAdmin();
@@ -140,8 +259,58 @@ function AdminDashboardContent() {
     setLoadingMoreUsers(false);
   };
 
+  // Suspending hides the user's active and sold posts
+  const markUserSuspended = (userId: string, suspension: User['suspension']) => {
+    setUsers((prev) => prev.map((u) => (u.id === userId ? { ...u, suspension } : u)));
+    setPosts((prev) =>
+      prev.map((p) =>
+        (p.userId === userId || p.sellerId === userId) && (p.status === 'active' || p.status === 'sold')
+          ? { ...p, status: 'suspended' }
+          : p
+      )
+    );
+  };
+
+  const handleSuspend = async (reason: string, days: number | null) => {
+    if (!suspendTarget || !admin) return { success: false };
+
+    const { userId, reportKey } = suspendTarget;
+    const group = reportKey ? reportGroups.find((g) => g.key === reportKey) : undefined;
+    const result = group
+      ? await adminResolveReportGroup(admin, group, { reason, days })
+      : await adminSuspendUser(admin, userId, reason, days);
+    if (result.success) {
+      if (group) {
+        setReportGroups(reportGroups.filter((g) => g.key !== group.key));
+      }
+      markUserSuspended(userId, {
+        reason: reason.trim(),
+        until: suspensionEnd(days),
+        suspendedBy: admin.uid,
+        suspendedAt: new Date(),
+      });
+      setSuspendTarget(null);
+    }
+    return result;
+  };
+
+  const handleLiftSuspension = async (user: User) => {
+    if (liftingUserId || !admin) return;
+    setLiftingUserId(user.id);
+    setUserError(null);
+    const result = await adminLiftSuspension(admin, user.id);
+    if (result.success) {
+      setUsers(users.map((u) => (u.id === user.id ? { ...u, suspension: null } : u)));
+      // Their posts come back with their earlier statuses
+      loadPosts();
+    } else {
+      setUserError(result.error || 'Eroare la ridicarea suspendării');
+    }
+    setLiftingUserId(null);
+  };
+
   const openDeleteModal = (
-    type: 'post' | 'comment' | 'user',
+    type: 'post' | 'comment' | 'review' | 'user' | 'report',
     id: string,
     title: string,
     secondaryId?: string
@@ -155,6 +324,7 @@ function AdminDashboardContent() {
     });
     setDeleteError(null);
     setDeleteUserPostsOption(false);
+    setDeleteReason('');
   };
 
   const closeDeleteModal = () => {
@@ -166,10 +336,11 @@ function AdminDashboardContent() {
     });
     setDeleteError(null);
     setDeleteUserPostsOption(false);
+    setDeleteReason('');
   };
 
   const handleDelete = async () => {
-    if (!deleteModal.type || !deleteModal.id) return;
+    if (!deleteModal.type || !deleteModal.id || !admin) return;
 
     setIsDeleting(true);
     setDeleteError(null);
@@ -179,7 +350,7 @@ function AdminDashboardContent() {
     try {
       switch (deleteModal.type) {
         case 'post':
-          result = await adminDeletePost(deleteModal.id);
+          result = await adminDeletePost(admin, deleteModal.id, deleteReason);
           if (result.success) {
             setPosts(posts.filter((p) => p.id !== deleteModal.id));
             // Also remove comments for this post from comments list
@@ -188,14 +359,42 @@ function AdminDashboardContent() {
           break;
         case 'comment':
           if (deleteModal.secondaryId) {
-            result = await adminDeleteComment(deleteModal.secondaryId, deleteModal.id);
+            const parentId = comments.find((c) => c.id === deleteModal.id)?.parentId;
+            result = await adminDeleteComment(admin, deleteModal.secondaryId, deleteModal.id, parentId, deleteReason);
             if (result.success) {
-              setComments(comments.filter((c) => c.id !== deleteModal.id));
+              // A top-level comment takes its replies with it
+              setComments(comments.filter((c) => c.id !== deleteModal.id && c.parentId !== deleteModal.id));
             }
           }
           break;
+        case 'review': {
+          const review = reviews.find((r) => r.id === deleteModal.id && r.sellerId === deleteModal.secondaryId);
+          if (review) {
+            result = await adminDeleteReview(admin, review, deleteReason);
+            if (result.success) {
+              setReviews(reviews.filter((r) => r !== review));
+            }
+          }
+          break;
+        }
+        case 'report': {
+          const group = reportGroups.find((g) => g.key === deleteModal.id);
+          if (group) {
+            result = await adminResolveReportGroup(admin, group);
+            if (result.success) {
+              setReportGroups(reportGroups.filter((g) => g.key !== group.key));
+              const { target } = group;
+              if (target.type === 'post') {
+                setPosts(posts.filter((p) => p.id !== target.id));
+              } else if (target.type === 'comment') {
+                setComments(comments.filter((c) => !(c.postId === target.postId && c.id === target.id)));
+              }
+            }
+          }
+          break;
+        }
         case 'user':
-          result = await adminDeleteUser(deleteModal.id, deleteUserPostsOption);
+          result = await adminDeleteUser(admin, deleteModal.id, deleteUserPostsOption, deleteReason);
           if (result.success) {
             setUsers(users.filter((u) => u.id !== deleteModal.id));
             if (deleteUserPostsOption) {
@@ -219,20 +418,62 @@ function AdminDashboardContent() {
     }
   };
 
+  const handleNormalizeLegacyPosts = async () => {
+    if (isNormalizing || !admin) return;
+    setIsNormalizing(true);
+    setNormalizeMessage(null);
+    const result = await normalizeLegacyPosts(admin);
+    setNormalizeMessage(
+      result.success
+        ? `${result.updated} din ${result.scanned} postări au fost actualizate`
+        : result.error || 'Eroare la normalizare'
+    );
+    setIsNormalizing(false);
+    if (result.success && result.updated > 0) {
+      loadPosts();
+    }
+  };
+
+  const handleExpireOverduePosts = async () => {
+    if (isExpiring || !admin) return;
+    setIsExpiring(true);
+    setNormalizeMessage(null);
+    const result = await expireOverduePosts(admin);
+    setNormalizeMessage(
+      result.success
+        ? `${result.expired} ${result.expired === 1 ? 'postare a expirat' : 'postări au expirat'}` +
+          (result.published > 0 ? `, ${result.published} programate publicate` : '') +
+          (result.liftedSuspensions > 0 ? `, ${result.liftedSuspensions} suspendări încheiate` : '')
+        : result.error || 'Eroare la expirarea postărilor'
+    );
+    setIsExpiring(false);
+    if (result.success && (result.expired > 0 || result.published > 0 || result.liftedSuspensions > 0)) {
+      loadPosts();
+    }
+  };
+
   const refreshData = () => {
-    if (activeTab === 'posts') {
+    if (activeTab === 'reports') {
+      loadReports();
+    } else if (activeTab === 'posts') {
       loadPosts();
     } else if (activeTab === 'comments') {
       loadComments();
+    } else if (activeTab === 'reviews') {
+      loadReviews();
     } else if (activeTab === 'users') {
       loadUsers();
     }
   };
 
   const tabs = [
+    { id: 'reports' as TabType, label: 'Rapoarte', icon: Flag, count: reportGroups.length },
     { id: 'posts' as TabType, label: 'Postări', icon: FileText, count: posts.length },
     { id: 'comments' as TabType, label: 'Comentarii', icon: MessageSquare, count: comments.length },
+    { id: 'reviews' as TabType, label: 'Recenzii', icon: Star, count: reviews.length },
     { id: 'users' as TabType, label: 'Utilizatori', icon: Users, count: users.length },
+    { id: 'log' as TabType, label: 'Jurnal', icon: ScrollText, count: undefined },
+    { id: 'settings' as TabType, label: 'Setări', icon: Settings, count: undefined },
   ];
 
   return (
@@ -246,7 +487,7 @@ function AdminDashboardContent() {
           <h1 className="text-lg sm:text-2xl font-bold text-gray-900">Panou Administrare</h1>
         </div>
         <p className="text-sm sm:text-base text-gray-600">
-          Gestionează postările, comentariile și utilizatorii platformei
+          Gestionează raportările, postările, comentariile, recenziile și utilizatorii platformei și vezi jurnalul acțiunilor
         </p>
       </div>
 
@@ -265,19 +506,21 @@ function AdminDashboardContent() {
             >
               <tab.icon className="w-4 h-4 sm:w-5 sm:h-5" />
               <span className="hidden sm:inline">{tab.label}</span>
-              <span className={`px-1.5 sm:px-2 py-0.5 rounded-full text-[10px] sm:text-xs ${
-                activeTab === tab.id
-                  ? 'bg-blue-100 text-blue-600'
-                  : 'bg-gray-100 text-gray-600'
-              }`}>
-                {tab.count}
-              </span>
+              {tab.count !== undefined && (
+                <span className={`px-1.5 sm:px-2 py-0.5 rounded-full text-[10px] sm:text-xs ${
+                  activeTab === tab.id
+                    ? 'bg-blue-100 text-blue-600'
+                    : 'bg-gray-100 text-gray-600'
+                }`}>
+                  {tab.count}
+                </span>
+              )}
             </button>
           ))}
         </div>
 
         {/* Refresh button */}
-        <div className="px-3 sm:px-4 py-2 sm:py-3 bg-gray-50 border-b border-gray-100">
+        <div className="px-3 sm:px-4 py-2 sm:py-3 bg-gray-50 border-b border-gray-100 flex flex-wrap items-center gap-2">
           <button
             onClick={refreshData}
             className="flex items-center gap-1.5 sm:gap-2 px-2 sm:px-3 py-1 sm:py-1.5 text-xs sm:text-sm text-gray-600 hover:text-gray-900 hover:bg-white rounded-lg transition-colors"
@@ -286,10 +529,78 @@ function AdminDashboardContent() {
             <span className="hidden xs:inline sm:inline">Reîmprospătează</span>
             <span className="xs:hidden">Refresh</span>
           </button>
+          {activeTab === 'posts' && (
+            <button
+              onClick={handleNormalizeLegacyPosts}
+              disabled={isNormalizing}
+              className="flex items-center gap-1.5 sm:gap-2 px-2 sm:px-3 py-1 sm:py-1.5 text-xs sm:text-sm text-gray-600 hover:text-gray-900 hover:bg-white rounded-lg transition-colors disabled:opacity-50"
+              title="Completează statusul, categoria și data pentru postările vechi, ca să apară în feed"
+            >
+              {isNormalizing ? (
+                <Loader2 className="w-3.5 h-3.5 sm:w-4 sm:h-4 animate-spin" />
+              ) : (
+                <Wrench className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
+              )}
+              <span>Normalizează postările vechi</span>
+            </button>
+          )}
+          {activeTab === 'posts' && (
+            <button
+              onClick={handleExpireOverduePosts}
+              disabled={isExpiring}
+              className="flex items-center gap-1.5 sm:gap-2 px-2 sm:px-3 py-1 sm:py-1.5 text-xs sm:text-sm text-gray-600 hover:text-gray-900 hover:bg-white rounded-lg transition-colors disabled:opacity-50"
+              title="Marchează ca expirate postările active trecute de data de expirare, publică postările programate scadente și încheie suspendările temporare terminate"
+            >
+              {isExpiring ? (
+                <Loader2 className="w-3.5 h-3.5 sm:w-4 sm:h-4 animate-spin" />
+              ) : (
+                <Clock className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
+              )}
+              <span>Expiră anunțurile vechi</span>
+            </button>
+          )}
+          {activeTab === 'posts' && normalizeMessage && (
+            <span className="text-xs sm:text-sm text-gray-500">{normalizeMessage}</span>
+          )}
         </div>
 
         {/* Tab Content */}
         <div className="p-2 sm:p-4">
+          {/* Reports Tab */}
+          {activeTab === 'reports' && (
+            <div>
+              {reportError && (
+                <p className="text-xs sm:text-sm text-red-600 bg-red-50 p-2.5 sm:p-3 rounded-lg mb-3">{reportError}</p>
+              )}
+              {reportsLoading ? (
+                <LoadingState message="Se încarcă raportările..." />
+              ) : reportGroups.length === 0 ? (
+                <EmptyState message="Nu există raportări deschise" />
+              ) : (
+                <div className="space-y-3">
+                  {reportGroups.map((group) => (
+                    <ReportGroupItem
+                      key={group.key}
+                      group={group}
+                      isDismissing={dismissingKey === group.key}
+                      onResolve={() =>
+                        group.target.type === 'user'
+                          ? setSuspendTarget({
+                              userId: group.target.id,
+                              name: group.target.label,
+                              reportKey: group.key,
+                              reason: `Raportat: ${describeReportReasons(group)}`,
+                            })
+                          : openDeleteModal('report', group.key, group.target.label)
+                      }
+                      onDismiss={() => handleDismissReports(group)}
+                    />
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Posts Tab */}
           {activeTab === 'posts' && (
             <div>
@@ -357,9 +668,55 @@ function AdminDashboardContent() {
             </div>
           )}
 
+          {/* Reviews Tab */}
+          {activeTab === 'reviews' && (
+            <div>
+              {reviewError && (
+                <p className="text-xs sm:text-sm text-red-600 bg-red-50 p-2.5 sm:p-3 rounded-lg mb-3">{reviewError}</p>
+              )}
+              {reviewsLoading ? (
+                <LoadingState message="Se încarcă recenziile..." />
+              ) : reviews.length === 0 ? (
+                <EmptyState message="Nu există recenzii" />
+              ) : (
+                <div className="space-y-3">
+                  {reviews.map((review) => (
+                    <ReviewItem
+                      key={`${review.sellerId}-${review.id}`}
+                      review={review}
+                      isUpdating={updatingReviewId === review.id}
+                      onToggleHidden={() => handleToggleReviewHidden(review)}
+                      onDelete={() =>
+                        openDeleteModal(
+                          'review',
+                          review.id,
+                          review.text.substring(0, 50) + '...',
+                          review.sellerId
+                        )
+                      }
+                    />
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Log Tab */}
+          {activeTab === 'log' && <AdminLog />}
+
+          {/* Settings Tab */}
+          {activeTab === 'settings' && (
+            <div className="p-2 sm:p-4">
+              <ExpirySettings />
+            </div>
+          )}
+
           {/* Users Tab */}
           {activeTab === 'users' && (
             <div>
+              {userError && (
+                <p className="text-xs sm:text-sm text-red-600 bg-red-50 p-2.5 sm:p-3 rounded-lg mb-3">{userError}</p>
+              )}
               {usersLoading ? (
                 <LoadingState message="Se încarcă utilizatorii..." />
               ) : users.length === 0 ? (
@@ -371,6 +728,9 @@ function AdminDashboardContent() {
                       <UserItem
                         key={user.id}
                         user={user}
+                        isLifting={liftingUserId === user.id}
+                        onSuspend={() => setSuspendTarget({ userId: user.id, name: user.fullName || user.email })}
+                        onLiftSuspension={() => handleLiftSuspension(user)}
                         onDelete={() =>
                           openDeleteModal('user', user.id, user.fullName || user.email)
                         }
@@ -400,6 +760,15 @@ function AdminDashboardContent() {
         </div>
       </div>
 
+      {suspendTarget && (
+        <SuspendUserModal
+          userName={suspendTarget.name}
+          initialReason={suspendTarget.reason}
+          onClose={() => setSuspendTarget(null)}
+          onConfirm={handleSuspend}
+        />
+      )}
+
       {/* Delete Confirmation Modal */}
       {deleteModal.isOpen && (
         <div className="fixed inset-0 bg-black/50 flex items-end sm:items-center justify-center z-50">
@@ -417,6 +786,8 @@ function AdminDashboardContent() {
               Ești sigur că vrei să ștergi{' '}
               {deleteModal.type === 'post' && 'postarea'}
               {deleteModal.type === 'comment' && 'comentariul'}
+              {deleteModal.type === 'review' && 'recenzia'}
+              {deleteModal.type === 'report' && reportTargetNoun(reportGroups.find((g) => g.key === deleteModal.id))}
               {deleteModal.type === 'user' && 'utilizatorul'}{' '}
               <strong className="text-gray-900 break-words">&quot;{deleteModal.title}&quot;</strong>?
             </p>
@@ -443,6 +814,21 @@ function AdminDashboardContent() {
               </div>
             )}
 
+            {deleteModal.type !== 'report' && (
+              <div className="mb-3 sm:mb-4">
+                <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1">
+                  Motiv (opțional, apare în jurnal)
+                </label>
+                <textarea
+                  value={deleteReason}
+                  onChange={(e) => setDeleteReason(e.target.value)}
+                  rows={2}
+                  maxLength={500}
+                  className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none"
+                />
+              </div>
+            )}
+
             {deleteError && (
               <p className="text-xs sm:text-sm text-red-600 bg-red-50 p-2.5 sm:p-3 rounded-lg mb-3 sm:mb-4">
                 {deleteError}
@@ -485,16 +871,6 @@ function AdminDashboardContent() {
 
 // Post Item Component
 function PostItem({ post, onDelete }: { post: Post; onDelete: () => void }) {
-  // Helper to check if URL is a video
-  const isVideoUrl = (url: string) => {
-    const lowerUrl = url.toLowerCase();
-    return lowerUrl.includes('.mp4') || 
-           lowerUrl.includes('.webm') || 
-           lowerUrl.includes('.mov') ||
-           lowerUrl.includes('.avi') ||
-           lowerUrl.includes('video');
-  };
-
   // Get first image URL (not video)
   const imageUrl = post.images?.find(url => !isVideoUrl(url)) || 
                    post.media?.find(m => m.type === 'image')?.url;
@@ -581,6 +957,18 @@ function CommentItem({
   comment: Comment & { postTitle?: string };
   onDelete: () => void;
 }) {
+  const [revisions, setRevisions] = useState<CommentRevision[] | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [historyLoading, setHistoryLoading] = useState(false);
+
+  const toggleHistory = async () => {
+    setShowHistory(!showHistory);
+    if (revisions || historyLoading) return;
+    setHistoryLoading(true);
+    setRevisions(await fetchCommentRevisions(comment));
+    setHistoryLoading(false);
+  };
+
   return (
     <div className="flex flex-col sm:flex-row sm:items-start gap-2 sm:gap-4 p-3 sm:p-4 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors">
       {/* Top section with avatar and content */}
@@ -608,8 +996,39 @@ function CommentItem({
             <span className="font-medium text-gray-900 text-sm sm:text-base">{comment.userName}</span>
             <span className="text-xs sm:text-sm text-gray-400">•</span>
             <span className="text-xs sm:text-sm text-gray-500">{formatDate(comment.createdAt)}</span>
+            {comment.parentId && (
+              <span className="px-1.5 py-0.5 text-xs bg-gray-200 text-gray-600 rounded">Răspuns</span>
+            )}
+            {comment.editedAt && (
+              <button
+                onClick={toggleHistory}
+                className="flex items-center gap-1 px-1.5 py-0.5 text-xs bg-amber-100 text-amber-700 rounded hover:bg-amber-200"
+                title="Vezi versiunile anterioare"
+              >
+                <History className="w-3 h-3" />
+                editat
+              </button>
+            )}
           </div>
           <p className="text-sm sm:text-base text-gray-700 mt-1 break-words">{comment.text}</p>
+          {showHistory && (
+            <div className="mt-2 pl-3 border-l-2 border-amber-200 space-y-1.5">
+              {historyLoading ? (
+                <p className="text-xs text-gray-500">Se încarcă istoricul...</p>
+              ) : revisions && revisions.length > 0 ? (
+                revisions.map(revision => (
+                  <div key={revision.id}>
+                    <p className="text-sm text-gray-500 line-through break-words">{revision.text}</p>
+                    <p className="text-xs text-gray-400">
+                      Înlocuit {revision.replacedAt?.toLocaleString('ro-RO') || ''}
+                    </p>
+                  </div>
+                ))
+              ) : (
+                <p className="text-xs text-gray-500">Nu există versiuni anterioare</p>
+              )}
+            </div>
+          )}
           <Link
             href={`/postare/${comment.postId}`}
             className="text-xs sm:text-sm text-blue-600 hover:underline mt-1 inline-block truncate max-w-full"
@@ -634,8 +1053,211 @@ function CommentItem({
   );
 }
 
+// "postarea", "comentariul" or "utilizatorul" a report is about
+function reportTargetNoun(group: ReportGroup | undefined): string {
+  switch (group?.target.type) {
+    case 'post':
+      return 'postarea';
+    case 'comment':
+      return 'comentariul';
+    case 'user':
+      return 'utilizatorul';
+    default:
+      return 'conținutul';
+  }
+}
+
+// Report Group Item Component
+function ReportGroupItem({
+  group,
+  isDismissing,
+  onResolve,
+  onDismiss,
+}: {
+  group: ReportGroup;
+  isDismissing: boolean;
+  onResolve: () => void;
+  onDismiss: () => void;
+}) {
+  const [showDetails, setShowDetails] = useState(false);
+  const { target, reports } = group;
+  const withDetails = reports.filter((report) => report.details);
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-start gap-2 sm:gap-4 p-3 sm:p-4 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors">
+      <div className="flex-1 min-w-0">
+        <div className="flex flex-wrap items-center gap-1 sm:gap-2">
+          <span className="px-1.5 py-0.5 text-xs bg-gray-200 text-gray-600 rounded">
+            {REPORT_TARGET_LABELS[target.type]}
+          </span>
+          <span className="px-1.5 py-0.5 text-xs bg-red-100 text-red-700 rounded font-medium">
+            {reports.length} {reports.length === 1 ? 'raportare' : 'raportări'}
+          </span>
+          <span className="text-xs sm:text-sm text-gray-500">{formatDate(group.latestAt)}</span>
+        </div>
+        <Link
+          href={reportTargetHref(target)}
+          className="block font-medium text-gray-900 text-sm sm:text-base mt-1 hover:text-blue-600 break-words"
+        >
+          {target.label || 'Fără titlu'}
+        </Link>
+        <div className="flex flex-wrap gap-1 mt-1.5">
+          {(Object.keys(group.reasonCounts) as ReportReason[]).map((reason) => (
+            <span key={reason} className="px-2 py-0.5 text-xs bg-white border border-gray-200 text-gray-600 rounded-full">
+              {REPORT_REASON_LABELS[reason]} · {group.reasonCounts[reason]}
+            </span>
+          ))}
+        </div>
+        {withDetails.length > 0 && (
+          <button
+            onClick={() => setShowDetails(!showDetails)}
+            className="text-xs text-blue-600 hover:underline mt-1.5"
+          >
+            {showDetails ? 'Ascunde detaliile' : `Vezi detaliile (${withDetails.length})`}
+          </button>
+        )}
+        {showDetails && (
+          <div className="mt-2 pl-3 border-l-2 border-red-200 space-y-1.5">
+            {withDetails.map((report) => (
+              <div key={report.id}>
+                <p className="text-sm text-gray-700 break-words">{report.details}</p>
+                <p className="text-xs text-gray-400">
+                  {REPORT_REASON_LABELS[report.reason]} · {formatDate(report.createdAt)}
+                  {report.conversationId && (
+                    <> · din <span className="font-mono">conversația {report.conversationId}</span></>
+                  )}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Actions */}
+      <div className="flex justify-end gap-1 pt-2 sm:pt-0 border-t sm:border-t-0 border-gray-200 mt-1 sm:mt-0">
+        <button
+          onClick={onDismiss}
+          disabled={isDismissing}
+          className="flex items-center gap-1.5 px-3 py-1.5 text-xs sm:text-sm text-gray-600 hover:text-gray-900 hover:bg-gray-200 rounded-lg transition-colors flex-shrink-0 disabled:opacity-50"
+          title="Închide raportările fără nicio acțiune"
+        >
+          {isDismissing ? <Loader2 className="w-4 h-4 animate-spin" /> : <CheckCircle className="w-4 h-4" />}
+          <span>Respinge</span>
+        </button>
+        {target.type === 'user' ? (
+          <button
+            onClick={onResolve}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-xs sm:text-sm text-red-600 hover:bg-red-50 rounded-lg transition-colors flex-shrink-0"
+            title="Suspendă utilizatorul și închide raportările"
+          >
+            <Ban className="w-4 h-4" />
+            <span>Suspendă utilizatorul</span>
+          </button>
+        ) : (
+          <button
+            onClick={onResolve}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-xs sm:text-sm text-red-600 hover:bg-red-50 rounded-lg transition-colors flex-shrink-0"
+            title={`Șterge ${reportTargetNoun(group)} și închide raportările`}
+          >
+            <Trash2 className="w-4 h-4" />
+            <span>Șterge {reportTargetNoun(group)}</span>
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Review Item Component
+function ReviewItem({
+  review,
+  isUpdating,
+  onToggleHidden,
+  onDelete,
+}: {
+  review: Review;
+  isUpdating: boolean;
+  onToggleHidden: () => void;
+  onDelete: () => void;
+}) {
+  return (
+    <div className={`flex flex-col sm:flex-row sm:items-start gap-2 sm:gap-4 p-3 sm:p-4 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors ${review.hidden ? 'opacity-60' : ''}`}>
+      <div className="flex-1 min-w-0">
+        <div className="flex flex-wrap items-center gap-1 sm:gap-2">
+          <Link href={`/utilizator/${review.reviewerId}`} className="font-medium text-gray-900 text-sm sm:text-base hover:text-blue-600">
+            {review.reviewerName}
+          </Link>
+          <span className="text-xs sm:text-sm text-gray-400">→</span>
+          <Link href={`/utilizator/${review.sellerId}`} className="text-xs sm:text-sm text-blue-600 hover:underline">
+            vânzător
+          </Link>
+          <span className="text-xs sm:text-sm text-gray-400">•</span>
+          <span className="text-xs sm:text-sm text-gray-500">{formatDate(review.createdAt)}</span>
+          {review.hidden && (
+            <span className="px-1.5 py-0.5 text-xs bg-gray-200 text-gray-600 rounded">Ascunsă</span>
+          )}
+        </div>
+        <StarRating value={review.rating} className="w-3.5 h-3.5" />
+        <p className="text-sm sm:text-base text-gray-700 mt-1 break-words">{review.text}</p>
+        {review.reply && (
+          <p className="text-xs sm:text-sm text-gray-500 mt-1 pl-3 border-l-2 border-gray-200 break-words">
+            Răspuns: {review.reply.text}
+          </p>
+        )}
+        <Link
+          href={`/postare/${review.postId}`}
+          className="text-xs sm:text-sm text-blue-600 hover:underline mt-1 inline-block truncate max-w-full"
+        >
+          Pe: {review.postTitle || 'Postare'}
+        </Link>
+      </div>
+
+      {/* Actions */}
+      <div className="flex justify-end gap-1 pt-2 sm:pt-0 border-t sm:border-t-0 border-gray-200 mt-1 sm:mt-0">
+        <button
+          onClick={onToggleHidden}
+          disabled={isUpdating}
+          className="flex items-center gap-1.5 px-3 py-1.5 sm:p-2 text-xs sm:text-sm text-gray-500 hover:text-gray-900 hover:bg-gray-200 rounded-lg transition-colors flex-shrink-0 disabled:opacity-50"
+          title={review.hidden ? 'Afișează recenzia' : 'Ascunde recenzia'}
+        >
+          {isUpdating ? (
+            <Loader2 className="w-4 h-4 sm:w-5 sm:h-5 animate-spin" />
+          ) : review.hidden ? (
+            <Eye className="w-4 h-4 sm:w-5 sm:h-5" />
+          ) : (
+            <EyeOff className="w-4 h-4 sm:w-5 sm:h-5" />
+          )}
+          <span className="sm:hidden">{review.hidden ? 'Afișează' : 'Ascunde'}</span>
+        </button>
+        <button
+          onClick={onDelete}
+          className="flex items-center gap-1.5 px-3 py-1.5 sm:p-2 text-xs sm:text-sm text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors flex-shrink-0"
+          title="Șterge recenzia"
+        >
+          <Trash2 className="w-4 h-4 sm:w-5 sm:h-5" />
+          <span className="sm:hidden">Șterge</span>
+        </button>
+      </div>
+    </div>
+  );
+}
+
 // User Item Component
-function UserItem({ user, onDelete }: { user: User; onDelete: () => void }) {
+function UserItem({
+  user,
+  isLifting,
+  onSuspend,
+  onLiftSuspension,
+  onDelete,
+}: {
+  user: User;
+  isLifting: boolean;
+  onSuspend: () => void;
+  onLiftSuspension: () => void;
+  onDelete: () => void;
+}) {
+  const isSuspended = isSuspensionActive(user.suspension);
+
   return (
     <div className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-4 p-3 sm:p-4 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors">
       {/* Top section with avatar and info */}
@@ -666,12 +1288,24 @@ function UserItem({ user, onDelete }: { user: User; onDelete: () => void }) {
                 Admin
               </span>
             )}
+            {user.suspension && (
+              <span
+                className={`px-1.5 sm:px-2 py-0.5 text-[10px] sm:text-xs rounded-full font-medium ${
+                  isSuspended ? 'bg-red-100 text-red-700' : 'bg-gray-200 text-gray-600'
+                }`}
+              >
+                {isSuspended ? `Suspendat ${describeSuspensionEnd(user.suspension)}` : 'Suspendare încheiată'}
+              </span>
+            )}
           </div>
           <p className="text-xs sm:text-sm text-gray-500 truncate">{user.email}</p>
           <p className="text-[10px] sm:text-xs text-gray-400 mt-0.5 sm:mt-1 truncate">
             {user.city && `${user.city} • `}
             Înregistrat: {formatDate(user.createdAt)}
           </p>
+          {user.suspension && (
+            <p className="text-xs text-gray-500 mt-0.5 break-words">Motiv: {user.suspension.reason}</p>
+          )}
         </div>
       </div>
 
@@ -686,6 +1320,30 @@ function UserItem({ user, onDelete }: { user: User; onDelete: () => void }) {
           <ExternalLink className="w-4 h-4 sm:w-5 sm:h-5" />
           <span className="sm:hidden">Profil</span>
         </Link>
+        {user.role !== 'admin' && (user.suspension ? (
+          <button
+            onClick={onLiftSuspension}
+            disabled={isLifting}
+            className="flex-1 sm:flex-none flex items-center justify-center gap-1.5 px-3 py-1.5 sm:p-2 text-xs sm:text-sm text-gray-500 hover:text-green-600 hover:bg-green-50 rounded-lg transition-colors disabled:opacity-50"
+            title="Ridică suspendarea"
+          >
+            {isLifting ? (
+              <Loader2 className="w-4 h-4 sm:w-5 sm:h-5 animate-spin" />
+            ) : (
+              <Unlock className="w-4 h-4 sm:w-5 sm:h-5" />
+            )}
+            <span className="sm:hidden">Ridică</span>
+          </button>
+        ) : (
+          <button
+            onClick={onSuspend}
+            className="flex-1 sm:flex-none flex items-center justify-center gap-1.5 px-3 py-1.5 sm:p-2 text-xs sm:text-sm text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+            title="Suspendă utilizatorul"
+          >
+            <Ban className="w-4 h-4 sm:w-5 sm:h-5" />
+            <span className="sm:hidden">Suspendă</span>
+          </button>
+        ))}
         {user.role !== 'admin' && (
           <button
             onClick={onDelete}
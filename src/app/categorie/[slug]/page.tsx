@@ -2,14 +2,19 @@
 
 /**
  * Category Page
+ * Filters and sort order are read from and written to the query string so views can be shared
  */
 
-import React from 'react';
-import { useParams } from 'next/navigation';
+import React, { Suspense, useMemo } from 'react';
+import { useParams, useRouter, useSearchParams } from 'next/navigation';
 import Link from 'next/link';
 import { ArrowLeft, Hammer, Car, Home, ShoppingBag, Calculator, Wheat } from 'lucide-react';
 import PostFeed from '@/components/posts/PostFeed';
-import { CategoryKey, CATEGORY_LABELS } from '@/types';
+import FilterPanel from '@/components/posts/FilterPanel';
+import SortSelect from '@/components/posts/SortSelect';
+import SaveSearchButton from '@/components/posts/SaveSearchButton';
+import { CategoryKey, CATEGORY_LABELS, PostFilters, PostSort } from '@/types';
+import { parseFilters, parseSort, filtersToQueryString, applySortParam } from '@/lib/filters';
 
 // Icon mapping
 const categoryIcons: Record<string, React.ReactNode> = {
@@ -31,9 +36,21 @@ const categoryColors: Record<string, string> = {
   agropiata: 'from-lime-500 to-green-600',
 };
 
-export default function CategoryPage() {
+function CategoryContent() {
   const params = useParams();
+  const router = useRouter();
+  const searchParams = useSearchParams();
   const category = params.slug as CategoryKey;
+
+  const queryString = searchParams.toString();
+  const filters = useMemo(() => parseFilters(new URLSearchParams(queryString)), [queryString]);
+  const sort = parseSort(new URLSearchParams(queryString));
+  const filtersKey = filtersToQueryString(filters);
+
+  const navigate = (nextFilters: PostFilters, nextSort: PostSort) => {
+    const nextQuery = applySortParam(new URLSearchParams(filtersToQueryString(nextFilters)), nextSort).toString();
+    router.replace(nextQuery ? `/categorie/${category}?${nextQuery}` : `/categorie/${category}`, { scroll: false });
+  };
   
   const categoryLabel = CATEGORY_LABELS[category] || category;
   const categoryIcon = categoryIcons[category] || <Hammer className="w-6 h-6" />;
@@ -66,9 +83,30 @@ export default function CategoryPage() {
           </div>
         </div>
 
-        {/* Posts Feed */}
-        <PostFeed category={category} />
+        {/* Filters */}
+        <FilterPanel
+          key={filtersKey}
+          filters={filters}
+          onApply={(next) => navigate(next, sort)}
+          actions={
+            <div className="flex items-center gap-2">
+              <SaveSearchButton key={filtersKey} category={category} filters={filters} />
+              <SortSelect value={sort} onChange={(next) => navigate(filters, next)} />
+            </div>
+          }
+        />
+
+        {/* Posts Feed - remounted when the filters or sort change */}
+        <PostFeed key={`${filtersKey}|${sort}`} category={category} filters={filters} sort={sort} />
       </div>
     </div>
   );
 }
+
+export default function CategoryPage() {
+  return (
+    <Suspense fallback={null}>
+      <CategoryContent />
+    </Suspense>
+  );
+}
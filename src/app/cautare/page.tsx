@@ -0,0 +1,164 @@
+'use client';
+
+/**
+ * Search Results Page
+ * Reads the query from ?q= and the page from ?pagina=
+ */
+
+import React, { Suspense, useEffect, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { ArrowLeft, ChevronLeft, ChevronRight, Search } from 'lucide-react';
+import { Post } from '@/types';
+import { searchPosts } from '@/services/searchService';
+import PostCard from '@/components/posts/PostCard';
+import SaveSearchButton from '@/components/posts/SaveSearchButton';
+
+interface SearchState {
+  posts: Post[];
+  total: number;
+  page: number;
+  totalPages: number;
+  error?: string;
+}
+
+function SearchResults() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const queryText = searchParams.get('q') || '';
+  const requestedPage = Number(searchParams.get('pagina')) || 1;
+
+  const [input, setInput] = useState(queryText);
+  const [loading, setLoading] = useState(true);
+  const [results, setResults] = useState<SearchState>({ posts: [], total: 0, page: 1, totalPages: 0 });
+
+  useEffect(() => {
+    const loadResults = async () => {
+      setLoading(true);
+      setInput(queryText);
+      const result = await searchPosts(queryText, requestedPage);
+      setResults(result);
+      setLoading(false);
+    };
+
+    loadResults();
+  }, [queryText, requestedPage]);
+
+  const goToPage = (page: number) => {
+    const params = new URLSearchParams({ q: queryText });
+    if (page > 1) params.set('pagina', String(page));
+    router.push(`/cautare?${params.toString()}`);
+    window.scrollTo({ top: 0 });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!input.trim()) return;
+    router.push(`/cautare?q=${encodeURIComponent(input.trim())}`);
+  };
+
+  return (
+    <div className="min-h-screen">
+      <div className="md:max-w-2xl lg:max-w-4xl md:mx-auto md:px-6 lg:px-8 md:py-8">
+        {/* Back button */}
+        <Link
+          href="/"
+          className="inline-flex items-center space-x-2 text-gray-600 hover:text-blue-600 px-3 py-3 md:px-0 md:mb-6 transition-colors"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          <span>Înapoi la feed</span>
+        </Link>
+
+        {/* Search box */}
+        <form onSubmit={handleSubmit} className="px-3 md:px-0 mb-4">
+          <div className="relative w-full md:max-w-xl lg:max-w-2xl md:mx-auto">
+            <Search className="w-5 h-5 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="search"
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              placeholder="Caută anunțuri..."
+              className="w-full pl-10 pr-4 py-3 bg-white border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+        </form>
+
+        <div className="w-full md:max-w-xl lg:max-w-2xl md:mx-auto">
+          {queryText.trim() && (
+            <div className="flex justify-end px-3 md:px-0 mb-3">
+              <SaveSearchButton key={queryText} query={queryText.trim()} filters={{}} />
+            </div>
+          )}
+          {!queryText.trim() ? (
+            <p className="text-center text-gray-500 py-12">
+              Scrie un cuvânt cheie pentru a căuta anunțuri.
+            </p>
+          ) : loading ? (
+            <div className="flex justify-center py-12">
+              <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin" />
+            </div>
+          ) : results.error ? (
+            <p className="text-center text-red-600 py-12">{results.error}</p>
+          ) : results.posts.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-12 text-center">
+              <div className="w-24 h-24 bg-gray-100 rounded-full flex items-center justify-center mb-4">
+                <span className="text-4xl">🔍</span>
+              </div>
+              <h3 className="text-lg font-semibold text-gray-900 mb-2">
+                Niciun rezultat
+              </h3>
+              <p className="text-gray-500 max-w-sm">
+                Nu am găsit anunțuri pentru „{queryText}”. Încearcă alte cuvinte.
+              </p>
+            </div>
+          ) : (
+            <>
+              <p className="text-sm text-gray-500 mb-3 px-3 md:px-0">
+                {results.total} {results.total === 1 ? 'rezultat' : 'rezultate'} pentru „{queryText}”
+              </p>
+
+              <div className="flex flex-col">
+                {results.posts.map((post, index) => (
+                  <PostCard key={post.id} post={post} priority={index < 3} />
+                ))}
+              </div>
+
+              {/* Pagination */}
+              {results.totalPages > 1 && (
+                <div className="flex items-center justify-between px-3 md:px-0 py-6">
+                  <button
+                    onClick={() => goToPage(results.page - 1)}
+                    disabled={results.page <= 1}
+                    className="flex items-center space-x-1 px-4 py-2 text-sm text-gray-600 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors disabled:opacity-50 disabled:hover:bg-transparent"
+                  >
+                    <ChevronLeft className="w-4 h-4" />
+                    <span>Anterioare</span>
+                  </button>
+                  <span className="text-sm text-gray-500">
+                    Pagina {results.page} din {results.totalPages}
+                  </span>
+                  <button
+                    onClick={() => goToPage(results.page + 1)}
+                    disabled={results.page >= results.totalPages}
+                    className="flex items-center space-x-1 px-4 py-2 text-sm text-gray-600 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors disabled:opacity-50 disabled:hover:bg-transparent"
+                  >
+                    <span>Următoare</span>
+                    <ChevronRight className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function SearchPage() {
+  return (
+    <Suspense fallback={null}>
+      <SearchResults />
+    </Suspense>
+  );
+}
@@ -0,0 +1,367 @@
+'use client';
+
+/**
+ * Conversation Page
+ * Real-time messages between a buyer and a seller, with blocking, reporting and
+ * the buyer's review of the seller
+ */
+
+import React, { useState, useEffect, useRef } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import Image from 'next/image';
+import {
+  ArrowLeft,
+  Send,
+  ImagePlus,
+  X,
+  Loader2,
+  Ban,
+  Flag,
+  MessageCircle,
+  Star,
+} from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import ProtectedRoute from '@/components/auth/ProtectedRoute';
+import {
+  subscribeToConversation,
+  subscribeToMessages,
+  markConversationRead,
+  sendMessage,
+  otherParticipant,
+  getBlockState,
+  blockUser,
+  unblockUser,
+} from '@/services/messagesService';
+import { getConversationReview } from '@/services/reviewsService';
+import { canReviewConversation } from '@/lib/reviews';
+import { Conversation, Message, Review } from '@/types';
+import ReviewModal from '@/components/reviews/ReviewModal';
+import ReportModal from '@/components/reports/ReportModal';
+
+function formatTime(date: Date | null): string {
+  if (!date) return '';
+  return date.toLocaleString('ro-RO', {
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+function ConversationContent() {
+  const { user } = useAuth();
+  const params = useParams();
+  const conversationId = params.id as string;
+
+  const [conversation, setConversation] = useState<Conversation | null>(null);
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [text, setText] = useState('');
+  const [image, setImage] = useState<File | null>(null);
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [blockState, setBlockState] = useState({ blockedByMe: false, blockedMe: false });
+  const [isBlocking, setIsBlocking] = useState(false);
+  const [showReportModal, setShowReportModal] = useState(false);
+  const [reportSent, setReportSent] = useState(false);
+  const [review, setReview] = useState<Review | null>(null);
+  const [showReviewModal, setShowReviewModal] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const userId = user?.uid;
+  const otherId = conversation && userId ? otherParticipant(conversation, userId) : null;
+  const isParticipant = !!conversation && !!userId && conversation.participants.includes(userId);
+
+  useEffect(() => {
+    return subscribeToConversation(conversationId, (next) => {
+      setConversation(next);
+      setIsLoading(false);
+    });
+  }, [conversationId]);
+
+  useEffect(() => {
+    if (!isParticipant) return;
+    return subscribeToMessages(conversationId, setMessages);
+  }, [conversationId, isParticipant]);
+
+  // Everything on screen counts as read, including messages arriving while it's open
+  const unreadForMe = conversation && userId ? conversation.unread[userId] || 0 : 0;
+  useEffect(() => {
+    if (!isParticipant || !userId || unreadForMe === 0) return;
+    markConversationRead(conversationId, userId);
+  }, [conversationId, isParticipant, userId, unreadForMe]);
+
+  useEffect(() => {
+    if (!userId || !otherId) return;
+    const loadBlockState = async () => {
+      setBlockState(await getBlockState(userId, otherId));
+    };
+    loadBlockState();
+  }, [userId, otherId]);
+
+  // Only the buyer reviews, so only they need to know whether they already did
+  const reviewSellerId = conversation && conversation.buyerId === userId ? conversation.sellerId : null;
+  useEffect(() => {
+    if (!reviewSellerId) return;
+    const loadReview = async () => {
+      setReview(await getConversationReview(reviewSellerId, conversationId));
+    };
+    loadReview();
+  }, [reviewSellerId, conversationId]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages.length]);
+
+  const handleImageSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) setImage(file);
+    e.target.value = '';
+  };
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!conversation || !userId || isSending) return;
+    if (!text.trim() && !image) return;
+
+    setIsSending(true);
+    setError(null);
+    const result = await sendMessage(conversation, userId, text, image || undefined);
+    if (result.success) {
+      setText('');
+      setImage(null);
+    } else {
+      setError(result.error || 'Eroare la trimiterea mesajului');
+    }
+    setIsSending(false);
+  };
+
+  const handleToggleBlock = async () => {
+    if (!userId || !otherId) return;
+    if (!blockState.blockedByMe && !confirm('Blochezi acest utilizator? Nu vă veți mai putea trimite mesaje.')) return;
+
+    setIsBlocking(true);
+    const result = blockState.blockedByMe
+      ? await unblockUser(userId, otherId)
+      : await blockUser(userId, otherId);
+    if (result.success) {
+      setBlockState(prev => ({ ...prev, blockedByMe: !prev.blockedByMe }));
+    } else {
+      setError(result.error || 'Eroare la blocarea utilizatorului');
+    }
+    setIsBlocking(false);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-24">
+        <Loader2 className="w-8 h-8 text-blue-600 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!conversation || !isParticipant || !userId || !otherId) {
+    return (
+      <div className="max-w-3xl mx-auto px-4 py-16 text-center">
+        <MessageCircle className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+        <h1 className="text-xl font-semibold text-gray-900 mb-2">Conversația nu a fost găsită</h1>
+        <Link href="/mesaje" className="text-blue-600 hover:text-blue-700 font-medium">
+          Înapoi la mesaje
+        </Link>
+      </div>
+    );
+  }
+
+  const otherName = conversation.participantNames[otherId] || 'Utilizator';
+  const otherImage = conversation.participantImages[otherId];
+  const isBlocked = blockState.blockedByMe || blockState.blockedMe;
+  const sellerHasReplied = messages.some(message => message.senderId === conversation.sellerId);
+  const canReview = canReviewConversation(conversation, userId, sellerHasReplied);
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 flex flex-col h-[calc(100vh-10rem)]">
+        {/* Header */}
+        <div className="flex items-center gap-3 p-4 border-b border-gray-100">
+          <Link href="/mesaje" className="p-2 -ml-2 text-gray-500 hover:bg-gray-100 rounded-lg" title="Înapoi">
+            <ArrowLeft className="w-5 h-5" />
+          </Link>
+          <Link href={`/utilizator/${otherId}`} className="w-10 h-10 rounded-full bg-gradient-to-br from-blue-500 to-blue-600 overflow-hidden flex items-center justify-center flex-shrink-0">
+            {otherImage ? (
+              <Image src={otherImage} alt={otherName} width={40} height={40} className="w-full h-full object-cover" />
+            ) : (
+              <span className="text-white font-bold">{otherName.charAt(0).toUpperCase()}</span>
+            )}
+          </Link>
+          <div className="flex-1 min-w-0">
+            <Link href={`/utilizator/${otherId}`} className="font-semibold text-gray-900 hover:text-blue-600 truncate block">
+              {otherName}
+            </Link>
+            <Link href={`/postare/${conversation.postId}`} className="text-xs text-blue-600 hover:underline truncate block">
+              {conversation.postTitle || 'Anunț'}
+            </Link>
+          </div>
+          {canReview && (
+            <button
+              onClick={() => setShowReviewModal(true)}
+              disabled={!!review}
+              className="flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-yellow-600 hover:bg-yellow-50 rounded-lg transition-colors disabled:opacity-50"
+              title={review ? 'Ai lăsat o recenzie' : 'Lasă o recenzie'}
+            >
+              <Star className={`w-4 h-4 ${review ? 'fill-current' : ''}`} />
+              <span className="hidden sm:inline">{review ? 'Evaluat' : 'Recenzie'}</span>
+            </button>
+          )}
+          <button
+            onClick={handleToggleBlock}
+            disabled={isBlocking}
+            className="flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-gray-600 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50"
+            title={blockState.blockedByMe ? 'Deblochează' : 'Blochează'}
+          >
+            {isBlocking ? <Loader2 className="w-4 h-4 animate-spin" /> : <Ban className="w-4 h-4" />}
+            <span className="hidden sm:inline">{blockState.blockedByMe ? 'Deblochează' : 'Blochează'}</span>
+          </button>
+          <button
+            onClick={() => setShowReportModal(true)}
+            disabled={reportSent}
+            className="flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
+            title={reportSent ? 'Raportat' : 'Raportează'}
+          >
+            <Flag className="w-4 h-4" />
+            <span className="hidden sm:inline">{reportSent ? 'Raportat' : 'Raportează'}</span>
+          </button>
+        </div>
+
+        {/* Messages */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          {messages.length === 0 ? (
+            <p className="text-center text-sm text-gray-400 py-8">
+              Scrie primul mesaj despre acest anunț.
+            </p>
+          ) : (
+            messages.map((message) => {
+              const isMine = message.senderId === userId;
+              return (
+                <div key={message.id} className={`flex ${isMine ? 'justify-end' : 'justify-start'}`}>
+                  <div
+                    className={`max-w-[75%] rounded-2xl px-4 py-2 ${
+                      isMine ? 'bg-blue-600 text-white rounded-br-sm' : 'bg-gray-100 text-gray-900 rounded-bl-sm'
+                    }`}
+                  >
+                    {message.imageUrl && (
+                      <a href={message.imageUrl} target="_blank" rel="noopener noreferrer" className="block mb-1">
+                        <Image
+                          src={message.imageUrl}
+                          alt="Imagine atașată"
+                          width={240}
+                          height={240}
+                          className="rounded-lg object-cover max-h-60 w-auto"
+                        />
+                      </a>
+                    )}
+                    {message.text && <p className="text-sm whitespace-pre-wrap break-words">{message.text}</p>}
+                    <p className={`text-[10px] mt-1 ${isMine ? 'text-blue-100' : 'text-gray-400'}`}>
+                      {formatTime(message.createdAt)}
+                    </p>
+                  </div>
+                </div>
+              );
+            })
+          )}
+          <div ref={bottomRef} />
+        </div>
+
+        {/* Composer */}
+        {isBlocked ? (
+          <div className="p-4 border-t border-gray-100 text-center text-sm text-gray-500">
+            {blockState.blockedByMe
+              ? 'Ai blocat acest utilizator. Deblochează-l ca să puteți comunica din nou.'
+              : 'Nu mai poți trimite mesaje în această conversație.'}
+          </div>
+        ) : (
+          <form onSubmit={handleSend} className="p-3 border-t border-gray-100">
+            {error && (
+              <div className="bg-red-50 text-red-700 text-sm rounded-lg p-2 mb-2">{error}</div>
+            )}
+            {image && (
+              <div className="flex items-center gap-2 mb-2 px-2 py-1 bg-gray-50 rounded-lg text-sm text-gray-600">
+                <ImagePlus className="w-4 h-4 flex-shrink-0" />
+                <span className="truncate flex-1">{image.name}</span>
+                <button type="button" onClick={() => setImage(null)} className="text-gray-400 hover:text-gray-600" title="Elimină imaginea">
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            )}
+            <div className="flex items-center gap-2">
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="image/*"
+                onChange={handleImageSelect}
+                className="hidden"
+              />
+              <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                className="p-2 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                title="Atașează o imagine"
+              >
+                <ImagePlus className="w-5 h-5" />
+              </button>
+              <input
+                type="text"
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                placeholder="Scrie un mesaj..."
+                maxLength={2000}
+                className="flex-1 px-4 py-2 border border-gray-200 rounded-full focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900"
+              />
+              <button
+                type="submit"
+                disabled={isSending || (!text.trim() && !image)}
+                className="p-2.5 bg-blue-600 text-white rounded-full hover:bg-blue-700 transition-colors disabled:opacity-50"
+                title="Trimite"
+              >
+                {isSending ? <Loader2 className="w-5 h-5 animate-spin" /> : <Send className="w-5 h-5" />}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+
+      {showReviewModal && (
+        <ReviewModal
+          conversation={conversation}
+          sellerName={otherName}
+          onClose={() => setShowReviewModal(false)}
+          onSubmitted={(created) => {
+            setReview(created);
+            setShowReviewModal(false);
+          }}
+        />
+      )}
+
+      {showReportModal && (
+        <ReportModal
+          target={{ type: 'user', id: otherId, label: otherName, ownerId: otherId }}
+          conversationId={conversationId}
+          onClose={() => setShowReportModal(false)}
+          onSent={() => {
+            setReportSent(true);
+            setShowReportModal(false);
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+export default function ConversationPage() {
+  return (
+    <ProtectedRoute>
+      <ConversationContent />
+    </ProtectedRoute>
+  );
+}
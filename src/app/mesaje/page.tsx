@@ -0,0 +1,119 @@
+'use client';
+
+/**
+ * Inbox Page
+ * The user's conversations, updated in real time
+ */
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import Image from 'next/image';
+import { MessageCircle, Loader2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import ProtectedRoute from '@/components/auth/ProtectedRoute';
+import { subscribeToConversations, otherParticipant } from '@/services/messagesService';
+import { formatDate } from '@/lib/utils';
+import { Conversation } from '@/types';
+
+function InboxContent() {
+  const { user } = useAuth();
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user?.uid) return;
+    return subscribeToConversations(user.uid, (next) => {
+      setConversations(next);
+      setIsLoading(false);
+    });
+  }, [user?.uid]);
+
+  if (!user) return null;
+
+  // Conversations only show up once the first message is sent
+  const started = conversations.filter(c => c.lastMessage);
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Header */}
+      <div className="mb-8">
+        <div className="flex items-center space-x-3 mb-2">
+          <div className="w-10 h-10 bg-blue-100 rounded-lg flex items-center justify-center">
+            <MessageCircle className="w-5 h-5 text-blue-600" />
+          </div>
+          <h1 className="text-2xl font-bold text-gray-900">Mesaje</h1>
+        </div>
+        <p className="text-gray-600">
+          Conversațiile tale cu cumpărătorii și vânzătorii.
+        </p>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-6 h-6 text-blue-600 animate-spin" />
+            <span className="ml-2 text-gray-500">Se încarcă mesajele...</span>
+          </div>
+        ) : started.length === 0 ? (
+          <div className="text-center py-12 px-4">
+            <MessageCircle className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+            <p className="text-gray-500">Nu ai nicio conversație încă</p>
+            <p className="text-sm text-gray-400 mt-1">
+              Apasă „Trimite mesaj” pe un anunț ca să contactezi vânzătorul.
+            </p>
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {started.map((conversation) => {
+              const otherId = otherParticipant(conversation, user.uid);
+              const otherName = conversation.participantNames[otherId] || 'Utilizator';
+              const otherImage = conversation.participantImages[otherId];
+              const unread = conversation.unread[user.uid] || 0;
+
+              return (
+                <Link
+                  key={conversation.id}
+                  href={`/mesaje/${conversation.id}`}
+                  className={`flex items-center gap-3 p-4 hover:bg-gray-50 transition-colors ${unread > 0 ? 'bg-blue-50/50' : ''}`}
+                >
+                  <div className="w-12 h-12 rounded-full bg-gradient-to-br from-blue-500 to-blue-600 overflow-hidden flex items-center justify-center flex-shrink-0">
+                    {otherImage ? (
+                      <Image src={otherImage} alt={otherName} width={48} height={48} className="w-full h-full object-cover" />
+                    ) : (
+                      <span className="text-lg text-white font-bold">{otherName.charAt(0).toUpperCase()}</span>
+                    )}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center justify-between gap-2">
+                      <p className={`truncate ${unread > 0 ? 'font-semibold text-gray-900' : 'font-medium text-gray-800'}`}>
+                        {otherName}
+                      </p>
+                      <span className="text-xs text-gray-400 flex-shrink-0">{formatDate(conversation.updatedAt)}</span>
+                    </div>
+                    <p className="text-xs text-blue-600 truncate">{conversation.postTitle || 'Anunț'}</p>
+                    <p className={`text-sm truncate ${unread > 0 ? 'text-gray-900' : 'text-gray-500'}`}>
+                      {conversation.lastSenderId === user.uid && 'Tu: '}{conversation.lastMessage}
+                    </p>
+                  </div>
+                  {unread > 0 && (
+                    <span className="min-w-[1.25rem] h-5 px-1.5 bg-blue-600 text-white text-xs font-bold rounded-full flex items-center justify-center flex-shrink-0">
+                      {unread}
+                    </span>
+                  )}
+                </Link>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function InboxPage() {
+  return (
+    <ProtectedRoute>
+      <InboxContent />
+    </ProtectedRoute>
+  );
+}
@@ -0,0 +1,196 @@
+'use client';
+
+/**
+ * Notifications Page
+ * Likes, comments, messages, reviews, admin actions and saved search matches, grouped
+ */
+
+import React, { useState, useEffect, useMemo } from 'react';
+import Link from 'next/link';
+import Image from 'next/image';
+import {
+  Bell,
+  Heart,
+  MessageCircle,
+  MessageSquare,
+  Reply,
+  AtSign,
+  Shield,
+  Search,
+  Star,
+  MessageSquareReply,
+  CheckCheck,
+  Loader2,
+} from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import ProtectedRoute from '@/components/auth/ProtectedRoute';
+import {
+  subscribeToNotifications,
+  markNotificationsRead,
+  markAllNotificationsRead,
+} from '@/services/notificationsService';
+import { checkSearchAlerts } from '@/services/savedSearchesService';
+import {
+  NotificationGroup,
+  groupNotifications,
+  describeNotificationGroup,
+  notificationGroupHref,
+} from '@/lib/notifications';
+import { formatDate } from '@/lib/utils';
+import { AppNotification, NotificationType } from '@/types';
+
+const TYPE_ICONS: Record<NotificationType, { icon: React.ReactNode; className: string }> = {
+  like: { icon: <Heart className="w-4 h-4" />, className: 'bg-red-100 text-red-600' },
+  comment: { icon: <MessageSquare className="w-4 h-4" />, className: 'bg-green-100 text-green-600' },
+  reply: { icon: <Reply className="w-4 h-4" />, className: 'bg-green-100 text-green-600' },
+  mention: { icon: <AtSign className="w-4 h-4" />, className: 'bg-sky-100 text-sky-600' },
+  message: { icon: <MessageCircle className="w-4 h-4" />, className: 'bg-blue-100 text-blue-600' },
+  moderation: { icon: <Shield className="w-4 h-4" />, className: 'bg-amber-100 text-amber-600' },
+  search_match: { icon: <Search className="w-4 h-4" />, className: 'bg-purple-100 text-purple-600' },
+  review: { icon: <Star className="w-4 h-4" />, className: 'bg-yellow-100 text-yellow-600' },
+  review_reply: { icon: <MessageSquareReply className="w-4 h-4" />, className: 'bg-yellow-100 text-yellow-600' },
+};
+
+function NotificationRow({ group, onOpen }: { group: NotificationGroup; onOpen: (group: NotificationGroup) => void }) {
+  const { latest } = group;
+  const href = notificationGroupHref(group);
+  const typeIcon = TYPE_ICONS[group.type];
+  // Comments, replies, mentions, messages and reviews show what was said
+  const excerpt = ['comment', 'reply', 'mention', 'message', 'review', 'review_reply'].includes(group.type)
+    ? latest.text
+    : undefined;
+
+  const content = (
+    <>
+      <div className="relative flex-shrink-0">
+        <div className="w-11 h-11 rounded-full bg-gradient-to-br from-blue-500 to-blue-600 overflow-hidden flex items-center justify-center">
+          {latest.actorImage ? (
+            <Image src={latest.actorImage} alt={latest.actorName || ''} width={44} height={44} className="w-full h-full object-cover" />
+          ) : latest.actorName ? (
+            <span className="text-white font-bold">{latest.actorName.charAt(0).toUpperCase()}</span>
+          ) : (
+            <Bell className="w-5 h-5 text-white" />
+          )}
+        </div>
+        <span className={`absolute -bottom-1 -right-1 w-6 h-6 rounded-full border-2 border-white flex items-center justify-center ${typeIcon.className}`}>
+          {typeIcon.icon}
+        </span>
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className={`text-sm ${group.unread ? 'text-gray-900 font-medium' : 'text-gray-700'}`}>
+          {describeNotificationGroup(group)}
+        </p>
+        {excerpt && <p className="text-sm text-gray-500 truncate">„{excerpt}”</p>}
+        <p className="text-xs text-gray-400 mt-0.5">{formatDate(latest.createdAt)}</p>
+      </div>
+      {group.unread && <span className="w-2.5 h-2.5 bg-blue-600 rounded-full flex-shrink-0" />}
+    </>
+  );
+
+  const className = `flex items-center gap-3 p-4 transition-colors ${group.unread ? 'bg-blue-50/50' : ''}`;
+
+  return href ? (
+    <Link href={href} onClick={() => onOpen(group)} className={`${className} hover:bg-gray-50`}>
+      {content}
+    </Link>
+  ) : (
+    <button onClick={() => onOpen(group)} className={`${className} w-full text-left hover:bg-gray-50`}>
+      {content}
+    </button>
+  );
+}
+
+function NotificationsContent() {
+  const { user } = useAuth();
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isMarkingAll, setIsMarkingAll] = useState(false);
+
+  const userId = user?.uid;
+
+  useEffect(() => {
+    if (!userId) return;
+    return subscribeToNotifications(userId, (next) => {
+      setNotifications(next);
+      setIsLoading(false);
+    });
+  }, [userId]);
+
+  // Saved search matches are collected on visit; new ones arrive through the listener
+  useEffect(() => {
+    if (!userId) return;
+    checkSearchAlerts(userId);
+  }, [userId]);
+
+  const groups = useMemo(() => groupNotifications(notifications), [notifications]);
+  const hasUnread = groups.some(group => group.unread);
+
+  const handleOpen = (group: NotificationGroup) => {
+    if (!userId || !group.unread) return;
+    markNotificationsRead(userId, group.notifications.filter(n => !n.read).map(n => n.id));
+  };
+
+  const handleMarkAll = async () => {
+    if (!userId) return;
+    setIsMarkingAll(true);
+    await markAllNotificationsRead(userId);
+    setIsMarkingAll(false);
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Header */}
+      <div className="mb-8 flex items-start justify-between gap-4">
+        <div>
+          <div className="flex items-center space-x-3 mb-2">
+            <div className="w-10 h-10 bg-blue-100 rounded-lg flex items-center justify-center">
+              <Bell className="w-5 h-5 text-blue-600" />
+            </div>
+            <h1 className="text-2xl font-bold text-gray-900">Notificări</h1>
+          </div>
+          <p className="text-gray-600">
+            Aprecieri, comentarii, mesaje și anunțuri noi pentru căutările tale.
+          </p>
+        </div>
+        {hasUnread && (
+          <button
+            onClick={handleMarkAll}
+            disabled={isMarkingAll}
+            className="flex items-center gap-1.5 px-3 py-2 text-sm font-medium text-blue-600 hover:bg-blue-50 rounded-lg transition-colors disabled:opacity-50 flex-shrink-0"
+          >
+            {isMarkingAll ? <Loader2 className="w-4 h-4 animate-spin" /> : <CheckCheck className="w-4 h-4" />}
+            <span>Marchează toate ca citite</span>
+          </button>
+        )}
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-6 h-6 text-blue-600 animate-spin" />
+            <span className="ml-2 text-gray-500">Se încarcă notificările...</span>
+          </div>
+        ) : groups.length === 0 ? (
+          <div className="text-center py-12 px-4">
+            <Bell className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+            <p className="text-gray-500">Nu ai nicio notificare</p>
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {groups.map(group => (
+              <NotificationRow key={group.key} group={group} onOpen={handleOpen} />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function NotificationsPage() {
+  return (
+    <ProtectedRoute>
+      <NotificationsContent />
+    </ProtectedRoute>
+  );
+}
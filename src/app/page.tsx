@@ -4,12 +4,15 @@
  * Home Page - Main Feed
  */
 
-import React from 'react';
+import React, { Suspense } from 'react';
 import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
 import { PlusCircle, Hammer, Car, Home, ShoppingBag, Calculator, Wheat } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import PostFeed from '@/components/posts/PostFeed';
-import { CATEGORIES } from '@/types';
+import SortSelect from '@/components/posts/SortSelect';
+import { CATEGORIES, PostSort } from '@/types';
+import { parseSort, applySortParam } from '@/lib/filters';
 
 // Icon mapping with gradient backgrounds
 const categoryStyles: Record<string, { icon: React.ReactNode; gradient: string }> = {
@@ -39,6 +42,70 @@ const categoryStyles: Record<string, { icon: React.ReactNode; gradient: string }
   },
 };
 
+const FEED_PARAM = 'flux';
+const FOLLOWING_FEED = 'urmariti';
+
+/**
+ * Main feed with its sort selector (?sortare=)
+ * Signed-in users also get a "Urmăriți" tab (?flux=urmariti) with posts from the people they follow
+ */
+function SortedFeed() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { user } = useAuth();
+  const sort = parseSort(searchParams);
+  const showFollowing = !!user && searchParams.get(FEED_PARAM) === FOLLOWING_FEED;
+
+  const replaceQuery = (params: URLSearchParams) => {
+    const query = params.toString();
+    router.replace(query ? `/?${query}` : '/', { scroll: false });
+  };
+
+  const handleSortChange = (next: PostSort) => {
+    replaceQuery(applySortParam(new URLSearchParams(searchParams.toString()), next));
+  };
+
+  const handleTabChange = (following: boolean) => {
+    const params = new URLSearchParams(searchParams.toString());
+    if (following) {
+      params.set(FEED_PARAM, FOLLOWING_FEED);
+    } else {
+      params.delete(FEED_PARAM);
+    }
+    replaceQuery(params);
+  };
+
+  const tabClass = (active: boolean) =>
+    `px-4 py-1.5 text-sm font-medium rounded-full transition-colors ${
+      active ? 'bg-blue-600 text-white' : 'text-gray-600 hover:bg-gray-100'
+    }`;
+
+  return (
+    <>
+      <div className="w-full md:max-w-xl lg:max-w-2xl md:mx-auto flex items-center justify-between gap-2 mb-2 px-3 md:px-0">
+        {user ? (
+          <div className="flex items-center gap-1">
+            <button onClick={() => handleTabChange(false)} className={tabClass(!showFollowing)}>
+              Toate
+            </button>
+            <button onClick={() => handleTabChange(true)} className={tabClass(showFollowing)}>
+              Urmăriți
+            </button>
+          </div>
+        ) : (
+          <span />
+        )}
+        {!showFollowing && <SortSelect value={sort} onChange={handleSortChange} />}
+      </div>
+      {showFollowing ? (
+        <PostFeed key={`following:${user.uid}`} followingOf={user.uid} />
+      ) : (
+        <PostFeed key={sort} sort={sort} />
+      )}
+    </>
+  );
+}
+
 export default function HomePage() {
   const { user, loading } = useAuth();
 
@@ -138,7 +205,9 @@ export default function HomePage() {
             </div>
 
             {/* Posts Feed */}
-            <PostFeed />
+            <Suspense fallback={null}>
+              <SortedFeed />
+            </Suspense>
 
             {/* Mobile FAB - Add Post */}
             {!loading && user && (
@@ -2,14 +2,19 @@
 
 /**
  * Create Post Page
+ * ?ciorna=<id> resumes a saved draft
  */
 
-import React from 'react';
+import React, { Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
 import { PenSquare } from 'lucide-react';
 import ProtectedRoute from '@/components/auth/ProtectedRoute';
 import CreatePostForm from '@/components/posts/CreatePostForm';
 
 function CreatePostContent() {
+  const searchParams = useSearchParams();
+  const draftId = searchParams.get('ciorna') || undefined;
+
   return (
     <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
       {/* Header */}
@@ -27,7 +32,7 @@ function CreatePostContent() {
 
       {/* Form Card */}
       <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 sm:p-8">
-        <CreatePostForm />
+        <CreatePostForm key={draftId} draftId={draftId} />
       </div>
     </div>
   );
@@ -36,7 +41,9 @@ function CreatePostContent() {
 export default function CreatePostPage() {
   return (
     <ProtectedRoute>
-      <CreatePostContent />
+      <Suspense fallback={null}>
+        <CreatePostContent />
+      </Suspense>
     </ProtectedRoute>
   );
 }
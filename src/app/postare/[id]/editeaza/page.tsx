@@ -0,0 +1,114 @@
+'use client';
+
+/**
+ * Edit Post Page
+ * Only the author or an admin may edit a post
+ */
+
+import React, { useState, useEffect } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { ArrowLeft, Pencil, Loader2 } from 'lucide-react';
+import ProtectedRoute from '@/components/auth/ProtectedRoute';
+import CreatePostForm from '@/components/posts/CreatePostForm';
+import { useAuth } from '@/contexts/AuthContext';
+import { fetchPost } from '@/services/postsService';
+import { Post } from '@/types';
+
+function EditPostContent() {
+  const params = useParams();
+  const postId = params.id as string;
+  const { user } = useAuth();
+
+  const [post, setPost] = useState<Post | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadPost = async () => {
+      setIsLoading(true);
+      const postData = await fetchPost(postId);
+
+      if (!postData) {
+        setError('Postarea nu a fost găsită.');
+      } else if (postData.status === 'deleted') {
+        setError('Postarea a fost ștearsă.');
+      } else if (user?.uid !== (postData.userId || postData.sellerId) && user?.role !== 'admin') {
+        setError('Nu ai permisiunea să editezi această postare.');
+      } else {
+        setPost(postData);
+      }
+
+      setIsLoading(false);
+    };
+
+    loadPost();
+  }, [postId, user?.uid, user?.role]);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-10 h-10 text-blue-600 animate-spin" />
+      </div>
+    );
+  }
+
+  if (error || !post) {
+    return (
+      <div className="max-w-2xl mx-auto px-4 py-12 text-center">
+        <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+          <span className="text-2xl">😔</span>
+        </div>
+        <h1 className="text-xl font-semibold text-gray-900 mb-2">
+          {error || 'Postarea nu a fost găsită'}
+        </h1>
+        <Link
+          href="/"
+          className="inline-flex items-center text-blue-600 hover:text-blue-700 mt-4"
+        >
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Înapoi la feed
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Back button */}
+      <Link
+        href={`/postare/${post.id}`}
+        className="inline-flex items-center space-x-2 text-gray-600 hover:text-blue-600 mb-6 transition-colors"
+      >
+        <ArrowLeft className="w-4 h-4" />
+        <span>Înapoi la postare</span>
+      </Link>
+
+      {/* Header */}
+      <div className="mb-8">
+        <div className="flex items-center space-x-3 mb-2">
+          <div className="w-10 h-10 bg-blue-100 rounded-lg flex items-center justify-center">
+            <Pencil className="w-5 h-5 text-blue-600" />
+          </div>
+          <h1 className="text-2xl font-bold text-gray-900">Editează postarea</h1>
+        </div>
+        <p className="text-gray-600">
+          Modifică detaliile, adaugă, elimină sau reordonează fotografiile și video-urile.
+        </p>
+      </div>
+
+      {/* Form Card */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 sm:p-8">
+        <CreatePostForm post={post} />
+      </div>
+    </div>
+  );
+}
+
+export default function EditPostPage() {
+  return (
+    <ProtectedRoute>
+      <EditPostContent />
+    </ProtectedRoute>
+  );
+}
@@ -5,7 +5,7 @@
  */
 
 import React, { useState, useEffect } from 'react';
-import { useParams } from 'next/navigation';
+import { useParams, useRouter } from 'next/navigation';
 import Link from 'next/link';
 import Image from 'next/image';
 import { 
@@ -13,8 +13,9 @@ import {
   MapPin, 
   Clock, 
   Eye, 
-  Heart, 
+  Bookmark,
   Share2, 
+  Flag,
   Phone,
   Mail,
   MessageCircle,
@@ -23,14 +24,34 @@ import {
 import { Post, User } from '@/types';
 import { fetchPost } from '@/services/postsService';
 import { getUserProfile } from '@/services/usersService';
+import { recordPostView, getPostViews } from '@/services/viewsService';
+import { getSavedPostIds, savePost, unsavePost } from '@/services/savedService';
+import { startConversation } from '@/services/messagesService';
+import { useAuth } from '@/contexts/AuthContext';
 import { formatDate, formatPrice } from '@/lib/utils';
 import MediaCarousel from '@/components/ui/MediaCarousel';
+import StatusBadge from '@/components/posts/StatusBadge';
+import RatingSummary from '@/components/reviews/RatingSummary';
+import ReportModal from '@/components/reports/ReportModal';
+
+// Only the author and admins can open these
+const HIDDEN_STATUSES: Post['status'][] = ['inactive', 'scheduled', 'suspended', 'deleted'];
 
 export default function PostPage() {
   const params = useParams();
   const postId = params.id as string;
+  const router = useRouter();
+  const { user, loading: authLoading } = useAuth();
   
   const [post, setPost] = useState<Post | null>(null);
+  const [views, setViews] = useState<number | null>(null);
+  const [isSaved, setIsSaved] = useState(false);
+  const [saves, setSaves] = useState(0);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isOpeningChat, setIsOpeningChat] = useState(false);
+  const [chatError, setChatError] = useState<string | null>(null);
+  const [showReport, setShowReport] = useState(false);
+  const [isReported, setIsReported] = useState(false);
   const [author, setAuthor] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -42,6 +63,7 @@ export default function PostPage() {
         const postData = await fetchPost(postId);
         if (postData) {
           setPost(postData);
+          setSaves(postData.saves || 0);
           
           // Fetch author
           const userId = postData.userId || postData.sellerId;
@@ -63,7 +85,64 @@ export default function PostPage() {
     loadPost();
   }, [postId]);
 
-  if (isLoading) {
+  // Count the view once auth is known, so the author's own visits are skipped
+  useEffect(() => {
+    if (!post || authLoading || HIDDEN_STATUSES.includes(post.status)) return;
+
+    const trackView = async () => {
+      await recordPostView(post, user?.uid);
+      setViews(await getPostViews(post));
+    };
+
+    trackView();
+  }, [post, authLoading, user?.uid]);
+
+  useEffect(() => {
+    if (!user?.uid) return;
+    const checkSaved = async () => {
+      const savedIds = await getSavedPostIds(user.uid);
+      setIsSaved(savedIds.has(postId));
+    };
+    checkSaved();
+  }, [user?.uid, postId]);
+
+  const handleSave = async () => {
+    if (!user || !post || isSaving) return;
+
+    setIsSaving(true);
+    const wasSaved = isSaved;
+    setIsSaved(!wasSaved);
+    setSaves(prev => prev + (wasSaved ? -1 : 1));
+
+    const result = wasSaved
+      ? await unsavePost(post.id, user.uid)
+      : await savePost(post, user.uid);
+
+    if (!result.success) {
+      setIsSaved(wasSaved);
+      setSaves(prev => prev + (wasSaved ? 1 : -1));
+    }
+    setIsSaving(false);
+  };
+
+  const handleMessage = async () => {
+    if (!user || !post || isOpeningChat) return;
+
+    setIsOpeningChat(true);
+    setChatError(null);
+    const result = await startConversation(post, user);
+    if (result.success && result.conversationId) {
+      router.push(`/mesaje/${result.conversationId}`);
+    } else {
+      setChatError(result.error || 'Eroare la deschiderea conversației');
+      setIsOpeningChat(false);
+    }
+  };
+
+  const hasHiddenStatus = !!post && HIDDEN_STATUSES.includes(post.status);
+
+  // Wait for auth before deciding whether a hidden post may be shown
+  if (isLoading || (hasHiddenStatus && authLoading)) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <Loader2 className="w-10 h-10 text-blue-600 animate-spin" />
@@ -71,14 +150,18 @@ export default function PostPage() {
     );
   }
 
-  if (error || !post) {
+  // Hidden posts stay reachable for their author and admins only
+  const canSeeHidden = !!user && (user.uid === (post?.userId || post?.sellerId) || user.role === 'admin');
+  const isHidden = hasHiddenStatus && !canSeeHidden;
+
+  if (error || !post || isHidden) {
     return (
       <div className="max-w-4xl mx-auto px-4 py-12 text-center">
         <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
           <span className="text-2xl">😔</span>
         </div>
         <h1 className="text-xl font-semibold text-gray-900 mb-2">
-          {error || 'Postarea nu a fost găsită'}
+          {error || (isHidden ? 'Postarea nu mai este disponibilă' : 'Postarea nu a fost găsită')}
         </h1>
         <Link
           href="/"
@@ -127,7 +210,10 @@ export default function PostPage() {
           <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
             {/* Title & Price */}
             <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4 mb-4">
-              <h1 className="text-2xl font-bold text-gray-900">{post.title}</h1>
+              <div>
+                <StatusBadge status={post.status} className="mb-2" />
+                <h1 className="text-2xl font-bold text-gray-900">{post.title}</h1>
+              </div>
               {post.price !== undefined && post.price > 0 && (
                 <span className="text-2xl font-bold text-blue-600 whitespace-nowrap">
                   {formatPrice(post.price, post.currency)}
@@ -147,10 +233,10 @@ export default function PostPage() {
                 <Clock className="w-4 h-4" />
                 <span>{formatDate(post.createdAt)}</span>
               </div>
-              {post.views !== undefined && (
+              {views !== null && (
                 <div className="flex items-center space-x-1">
                   <Eye className="w-4 h-4" />
-                  <span>{post.views} vizualizări</span>
+                  <span>{views} {views === 1 ? 'vizualizare' : 'vizualizări'}</span>
                 </div>
               )}
             </div>
@@ -165,14 +251,42 @@ export default function PostPage() {
 
             {/* Actions */}
             <div className="flex flex-wrap gap-3 pt-6 border-t border-gray-100">
-              <button className="flex items-center space-x-2 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors">
-                <Heart className="w-5 h-5 text-gray-500" />
-                <span>Salvează</span>
+              <button
+                onClick={handleSave}
+                disabled={!user || isSaving}
+                className={`flex items-center space-x-2 px-4 py-2 border rounded-lg transition-colors disabled:cursor-not-allowed ${
+                  isSaved ? 'border-blue-200 bg-blue-50 text-blue-700' : 'border-gray-300 hover:bg-gray-50'
+                } ${!user ? 'opacity-50' : ''}`}
+                title={!user ? 'Conectează-te pentru a salva' : undefined}
+              >
+                <Bookmark className={`w-5 h-5 ${isSaved ? 'fill-current text-blue-600' : 'text-gray-500'}`} />
+                <span>{isSaved ? 'Salvat' : 'Salvează'}</span>
+                {saves > 0 && <span className="text-sm text-gray-500">{saves}</span>}
               </button>
               <button className="flex items-center space-x-2 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors">
                 <Share2 className="w-5 h-5 text-gray-500" />
                 <span>Partajează</span>
               </button>
+              {user?.uid !== (post.userId || post.sellerId) && (
+                user ? (
+                  <button
+                    onClick={() => setShowReport(true)}
+                    disabled={isReported}
+                    className="flex items-center space-x-2 px-4 py-2 border border-gray-300 rounded-lg text-red-600 hover:bg-red-50 transition-colors disabled:opacity-50"
+                  >
+                    <Flag className="w-5 h-5" />
+                    <span>{isReported ? 'Raportat' : 'Raportează'}</span>
+                  </button>
+                ) : (
+                  <Link
+                    href="/autentificare"
+                    className="flex items-center space-x-2 px-4 py-2 border border-gray-300 rounded-lg text-red-600 hover:bg-red-50 transition-colors"
+                  >
+                    <Flag className="w-5 h-5" />
+                    <span>Raportează</span>
+                  </Link>
+                )
+              )}
             </div>
           </div>
         </div>
@@ -203,6 +317,11 @@ export default function PostPage() {
               </div>
               <div>
                 <p className="font-semibold text-gray-900">{authorName}</p>
+                {author && (
+                  <Link href={`/utilizator/${author.id}#recenzii`} className="block hover:underline">
+                    <RatingSummary user={author} />
+                  </Link>
+                )}
                 {author?.city && (
                   <p className="text-sm text-gray-500">{author.city}</p>
                 )}
@@ -229,10 +348,27 @@ export default function PostPage() {
                 <span>Trimite email</span>
               </a>
               
-              <button className="flex items-center justify-center space-x-2 w-full px-4 py-3 border border-gray-300 text-gray-700 font-medium rounded-lg hover:bg-gray-50 transition-colors">
-                <MessageCircle className="w-5 h-5" />
-                <span>Trimite mesaj</span>
-              </button>
+              {!user ? (
+                <Link
+                  href="/autentificare"
+                  className="flex items-center justify-center space-x-2 w-full px-4 py-3 border border-gray-300 text-gray-700 font-medium rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  <MessageCircle className="w-5 h-5" />
+                  <span>Trimite mesaj</span>
+                </Link>
+              ) : user.uid !== (post.userId || post.sellerId) && (
+                <button
+                  onClick={handleMessage}
+                  disabled={isOpeningChat}
+                  className="flex items-center justify-center space-x-2 w-full px-4 py-3 border border-gray-300 text-gray-700 font-medium rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+                >
+                  {isOpeningChat ? <Loader2 className="w-5 h-5 animate-spin" /> : <MessageCircle className="w-5 h-5" />}
+                  <span>Trimite mesaj</span>
+                </button>
+              )}
+              {chatError && (
+                <p className="text-sm text-red-600 text-center">{chatError}</p>
+              )}
             </div>
 
             {/* View Profile */}
@@ -245,6 +381,17 @@ export default function PostPage() {
           </div>
         </div>
       </div>
+
+      {showReport && (
+        <ReportModal
+          target={{ type: 'post', id: post.id, label: post.title, ownerId: post.userId || post.sellerId || '' }}
+          onClose={() => setShowReport(false)}
+          onSent={() => {
+            setIsReported(true);
+            setShowReport(false);
+          }}
+        />
+      )}
     </div>
   );
 }
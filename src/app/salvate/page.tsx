@@ -0,0 +1,167 @@
+'use client';
+
+/**
+ * Saved Posts Page
+ * Lists the user's bookmarks, flagging posts that were sold or are gone
+ */
+
+import React, { useState, useEffect } from 'react';
+import Image from 'next/image';
+import Link from 'next/link';
+import { Bookmark, ImageOff, Loader2, Trash2, Calendar } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import ProtectedRoute from '@/components/auth/ProtectedRoute';
+import StatusBadge from '@/components/posts/StatusBadge';
+import { fetchSavedPosts, unsavePost } from '@/services/savedService';
+import { formatPrice } from '@/lib/utils';
+import { SavedPost } from '@/types';
+
+function SavedContent() {
+  const { user } = useAuth();
+  const [savedPosts, setSavedPosts] = useState<SavedPost[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadSaved = async () => {
+      if (user?.uid) {
+        setIsLoading(true);
+        setSavedPosts(await fetchSavedPosts(user.uid));
+        setIsLoading(false);
+      }
+    };
+    loadSaved();
+  }, [user?.uid]);
+
+  const handleRemove = async (saved: SavedPost) => {
+    if (!user) return;
+
+    setRemovingId(saved.postId);
+    setError(null);
+    const result = await unsavePost(saved.postId, user.uid);
+    if (result.success) {
+      setSavedPosts(prev => prev.filter(s => s.postId !== saved.postId));
+    } else {
+      setError(result.error || 'Eroare la eliminarea postării salvate');
+    }
+    setRemovingId(null);
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Header */}
+      <div className="mb-8">
+        <div className="flex items-center space-x-3 mb-2">
+          <div className="w-10 h-10 bg-blue-100 rounded-lg flex items-center justify-center">
+            <Bookmark className="w-5 h-5 text-blue-600" />
+          </div>
+          <h1 className="text-2xl font-bold text-gray-900">Postări salvate</h1>
+        </div>
+        <p className="text-gray-600">
+          Anunțurile pe care le-ai salvat ca să revii la ele.
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 text-red-700 text-sm rounded-lg p-3 mb-3">
+          {error}
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-6 h-6 text-blue-600 animate-spin" />
+            <span className="ml-2 text-gray-500">Se încarcă postările salvate...</span>
+          </div>
+        ) : savedPosts.length === 0 ? (
+          <div className="text-center py-12 px-4">
+            <Bookmark className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+            <p className="text-gray-500">Nu ai salvat nicio postare încă</p>
+            <Link
+              href="/"
+              className="inline-block mt-4 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium"
+            >
+              Explorează feed-ul
+            </Link>
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {savedPosts.map((saved) => {
+              const post = saved.post;
+              const isGone = !post || post.status === 'deleted';
+              const isUnavailable = !!post && ['inactive', 'expired', 'scheduled', 'suspended'].includes(post.status);
+              const image = post?.images?.[0] || saved.image;
+
+              const content = (
+                <div className="flex gap-4">
+                  <div className="flex-shrink-0">
+                    {image ? (
+                      <div className={`relative w-20 h-20 rounded-lg overflow-hidden bg-gray-100 ${isGone ? 'grayscale opacity-60' : ''}`}>
+                        <Image src={image} alt={saved.title || 'Post image'} fill className="object-cover" />
+                      </div>
+                    ) : (
+                      <div className="w-20 h-20 rounded-lg bg-gray-100 flex items-center justify-center">
+                        <ImageOff className="w-8 h-8 text-gray-300" />
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <h4 className={`font-medium truncate ${isGone ? 'text-gray-400 line-through' : 'text-gray-900'}`}>
+                        {post?.title || saved.title || 'Fără titlu'}
+                      </h4>
+                      {post && !isGone && <StatusBadge status={post.status} className="flex-shrink-0" />}
+                    </div>
+                    {isGone ? (
+                      <p className="text-sm text-red-600 mt-1">Postarea a fost ștearsă</p>
+                    ) : isUnavailable ? (
+                      <p className="text-sm text-gray-500 mt-1">Anunțul nu mai este disponibil</p>
+                    ) : post?.price !== undefined && post.price > 0 ? (
+                      <p className="text-sm font-semibold text-blue-600 mt-1">{formatPrice(post.price, post.currency)}</p>
+                    ) : null}
+                    {saved.savedAt && (
+                      <div className="flex items-center gap-2 mt-2 text-xs text-gray-400">
+                        <Calendar className="w-3.5 h-3.5" />
+                        <span>Salvată pe {saved.savedAt.toLocaleDateString('ro-RO')}</span>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              );
+
+              return (
+                <div key={saved.postId} className="p-4 flex items-start gap-2 hover:bg-gray-50 transition-colors">
+                  <div className="flex-1 min-w-0">
+                    {isGone ? content : <Link href={`/postare/${saved.postId}`}>{content}</Link>}
+                  </div>
+                  <button
+                    onClick={() => handleRemove(saved)}
+                    disabled={removingId === saved.postId}
+                    className="flex-shrink-0 p-2 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
+                    title="Elimină din salvate"
+                  >
+                    {removingId === saved.postId ? (
+                      <Loader2 className="w-5 h-5 animate-spin" />
+                    ) : (
+                      <Trash2 className="w-5 h-5" />
+                    )}
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function SavedPage() {
+  return (
+    <ProtectedRoute>
+      <SavedContent />
+    </ProtectedRoute>
+  );
+}
@@ -8,6 +8,7 @@
 import React, { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import Image from 'next/image';
+import Link from 'next/link';
 import { 
   User, 
   Lock, 
@@ -19,13 +20,28 @@ import {
   Calendar,
   ImageOff,
   FileText,
-  AlertTriangle
+  AlertTriangle,
+  Eye,
+  EyeOff,
+  Pencil,
+  CheckCircle,
+  RotateCcw,
+  RefreshCw,
+  FileClock,
+  Send,
+  CalendarClock
 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import ProtectedRoute from '@/components/auth/ProtectedRoute';
-import { fetchUserPosts, hardDeletePost } from '@/services/postsService';
-import { Post } from '@/types';
+import { fetchUserPosts, hardDeletePost, setPostStatus, renewPost, schedulePost } from '@/services/postsService';
+import { getPostsViews } from '@/services/viewsService';
+import { fetchUserDrafts, deleteDraft } from '@/services/draftsService';
+import StatusBadge from '@/components/posts/StatusBadge';
+import SavedSearches from '@/components/settings/SavedSearches';
+import { Post, PostDraft } from '@/types';
 import { formatDate } from '@/lib/utils';
+import { canRenew } from '@/lib/expiry';
+import { toDateTimeLocalValue } from '@/lib/schedule';
 
 function SettingsContent() {
   const router = useRouter();
@@ -34,11 +50,20 @@ function SettingsContent() {
   
   // User posts state
   const [userPosts, setUserPosts] = useState<Post[]>([]);
+  const [postViews, setPostViews] = useState<Record<string, number>>({});
   const [loadingPosts, setLoadingPosts] = useState(true);
   const [deletingPostId, setDeletingPostId] = useState<string | null>(null);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [postToDelete, setPostToDelete] = useState<Post | null>(null);
   const [deleteError, setDeleteError] = useState<string | null>(null);
+  const [updatingStatusId, setUpdatingStatusId] = useState<string | null>(null);
+  const [statusError, setStatusError] = useState<string | null>(null);
+  const [reschedulingId, setReschedulingId] = useState<string | null>(null);
+  const [rescheduleValue, setRescheduleValue] = useState('');
+
+  // Drafts state
+  const [drafts, setDrafts] = useState<PostDraft[]>([]);
+  const [deletingDraftId, setDeletingDraftId] = useState<string | null>(null);
 
   // Fetch user posts on mount
   useEffect(() => {
@@ -46,8 +71,9 @@ function SettingsContent() {
       if (user?.uid) {
         setLoadingPosts(true);
         try {
-          const posts = await fetchUserPosts(user.uid);
+          const posts = await fetchUserPosts(user.uid, ['active', 'scheduled', 'inactive', 'sold', 'expired']);
           setUserPosts(posts);
+          setPostViews(await getPostsViews(posts));
         } catch (error) {
           console.error('Error loading user posts:', error);
         } finally {
@@ -58,6 +84,16 @@ function SettingsContent() {
     loadUserPosts();
   }, [user?.uid]);
 
+  // Drafts live in this browser only
+  useEffect(() => {
+    const loadDrafts = async () => {
+      if (user?.id) {
+        setDrafts(await fetchUserDrafts(user.id));
+      }
+    };
+    loadDrafts();
+  }, [user?.id]);
+
   const handleSignOut = async () => {
     setIsLoggingOut(true);
     await signOut();
@@ -99,6 +135,75 @@ function SettingsContent() {
     }
   };
 
+  const handleStatusChange = async (post: Post, status: 'active' | 'inactive' | 'sold') => {
+    setUpdatingStatusId(post.id);
+    setStatusError(null);
+
+    const result = await setPostStatus(post.id, status);
+    if (result.success) {
+      setUserPosts(prev => prev.map(p => p.id === post.id ? { ...p, status } : p));
+    } else {
+      setStatusError(result.error || 'Eroare la schimbarea stării anunțului');
+    }
+
+    setUpdatingStatusId(null);
+  };
+
+  const handleRenew = async (post: Post) => {
+    setUpdatingStatusId(post.id);
+    setStatusError(null);
+
+    const result = await renewPost(post.id);
+    if (result.success) {
+      setUserPosts(prev => prev.map(p =>
+        p.id === post.id ? { ...p, status: 'active', expiresAt: result.expiresAt, createdAt: new Date() } : p
+      ));
+    } else {
+      setStatusError(result.error || 'Eroare la reactualizarea anunțului');
+    }
+
+    setUpdatingStatusId(null);
+  };
+
+  const openReschedule = (post: Post) => {
+    setReschedulingId(post.id);
+    setRescheduleValue(post.publishAt ? toDateTimeLocalValue(post.publishAt) : '');
+  };
+
+  // publishAt null publishes the post now
+  const handleSchedule = async (post: Post, publishAt: Date | null) => {
+    setUpdatingStatusId(post.id);
+    setStatusError(null);
+
+    const result = await schedulePost(post.id, publishAt);
+    if (result.success) {
+      setUserPosts(prev => prev.map(p => p.id === post.id
+        ? {
+            ...p,
+            status: publishAt ? 'scheduled' : 'active',
+            publishAt,
+            createdAt: publishAt || new Date(),
+            expiresAt: result.expiresAt,
+          }
+        : p
+      ));
+      setReschedulingId(null);
+    } else {
+      setStatusError(result.error || 'Eroare la programarea anunțului');
+    }
+
+    setUpdatingStatusId(null);
+  };
+
+  const handleDiscardDraft = async (draft: PostDraft) => {
+    setDeletingDraftId(draft.id);
+    const result = await deleteDraft(draft.id);
+    if (result.success) {
+      setDrafts(prev => prev.filter(d => d.id !== draft.id));
+    }
+    setDeletingDraftId(null);
+  };
+
   const settingsSections = [
     {
       title: 'Cont',
@@ -165,6 +270,12 @@ function SettingsContent() {
           Postările Mele ({userPosts.length})
         </h3>
         
+        {statusError && (
+          <div className="bg-red-50 text-red-700 text-sm rounded-lg p-3 mb-3">
+            {statusError}
+          </div>
+        )}
+
         <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
           {loadingPosts ? (
             <div className="flex items-center justify-center py-12">
@@ -214,26 +325,145 @@ function SettingsContent() {
 
                     {/* Post Content */}
                     <div className="flex-1 min-w-0">
-                      <h4 className="font-medium text-gray-900 truncate">
-                        {post.title || 'Fără titlu'}
-                      </h4>
+                      <div className="flex items-center gap-2">
+                        <h4 className="font-medium text-gray-900 truncate">
+                          {post.title || 'Fără titlu'}
+                        </h4>
+                        <StatusBadge status={post.status} className="flex-shrink-0" />
+                      </div>
                       <p className="text-sm text-gray-500 line-clamp-2 mt-1">
                         {post.description || 'Fără descriere'}
                       </p>
                       <div className="flex items-center gap-2 mt-2 text-xs text-gray-400">
                         <Calendar className="w-3.5 h-3.5" />
                         <span>{formatDate(post.createdAt)}</span>
+                        {postViews[post.id] !== undefined && (
+                          <>
+                            <span>•</span>
+                            <Eye className="w-3.5 h-3.5" />
+                            <span>{postViews[post.id]} {postViews[post.id] === 1 ? 'vizualizare' : 'vizualizări'}</span>
+                          </>
+                        )}
                         {post.images && post.images.length > 0 && (
                           <>
                             <span>•</span>
                             <span>{post.images.length} {post.images.length === 1 ? 'imagine' : 'imagini'}</span>
                           </>
                         )}
+                        {post.status === 'scheduled' && post.publishAt && (
+                          <>
+                            <span>•</span>
+                            <span>Se publică pe {post.publishAt.toLocaleString('ro-RO', { dateStyle: 'short', timeStyle: 'short' })}</span>
+                          </>
+                        )}
+                        {post.status === 'active' && post.expiresAt && (
+                          <>
+                            <span>•</span>
+                            <span>Expiră pe {post.expiresAt.toLocaleDateString('ro-RO')}</span>
+                          </>
+                        )}
+                      </div>
+
+                      {/* Status actions */}
+                      <div className="flex flex-wrap gap-2 mt-3">
+                        {canRenew(post) && (
+                          <button
+                            onClick={() => handleRenew(post)}
+                            disabled={updatingStatusId === post.id}
+                            className="flex items-center gap-1 px-2.5 py-1 text-xs font-medium text-amber-700 bg-amber-50 rounded-lg hover:bg-amber-100 transition-colors disabled:opacity-50"
+                          >
+                            <RefreshCw className="w-3.5 h-3.5" />
+                            Reactualizează
+                          </button>
+                        )}
+                        {post.status === 'scheduled' ? (
+                          reschedulingId === post.id ? (
+                            <>
+                              <input
+                                type="datetime-local"
+                                value={rescheduleValue}
+                                min={toDateTimeLocalValue(new Date())}
+                                onChange={(e) => setRescheduleValue(e.target.value)}
+                                className="px-2 py-1 text-xs border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                              />
+                              <button
+                                onClick={() => rescheduleValue && handleSchedule(post, new Date(rescheduleValue))}
+                                disabled={updatingStatusId === post.id || !rescheduleValue}
+                                className="px-2.5 py-1 text-xs font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                              >
+                                Salvează
+                              </button>
+                              <button
+                                onClick={() => setReschedulingId(null)}
+                                className="px-2.5 py-1 text-xs font-medium text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                              >
+                                Anulează
+                              </button>
+                            </>
+                          ) : (
+                            <>
+                              <button
+                                onClick={() => handleSchedule(post, null)}
+                                disabled={updatingStatusId === post.id}
+                                className="flex items-center gap-1 px-2.5 py-1 text-xs font-medium text-blue-700 bg-blue-50 rounded-lg hover:bg-blue-100 transition-colors disabled:opacity-50"
+                              >
+                                <Send className="w-3.5 h-3.5" />
+                                Publică acum
+                              </button>
+                              <button
+                                onClick={() => openReschedule(post)}
+                                disabled={updatingStatusId === post.id}
+                                className="flex items-center gap-1 px-2.5 py-1 text-xs font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+                              >
+                                <CalendarClock className="w-3.5 h-3.5" />
+                                Reprogramează
+                              </button>
+                            </>
+                          )
+                        ) : post.status === 'active' ? (
+                          <>
+                            <button
+                              onClick={() => handleStatusChange(post, 'sold')}
+                              disabled={updatingStatusId === post.id}
+                              className="flex items-center gap-1 px-2.5 py-1 text-xs font-medium text-green-700 bg-green-50 rounded-lg hover:bg-green-100 transition-colors disabled:opacity-50"
+                            >
+                              <CheckCircle className="w-3.5 h-3.5" />
+                              Marchează vândut
+                            </button>
+                            <button
+                              onClick={() => handleStatusChange(post, 'inactive')}
+                              disabled={updatingStatusId === post.id}
+                              className="flex items-center gap-1 px-2.5 py-1 text-xs font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+                            >
+                              <EyeOff className="w-3.5 h-3.5" />
+                              Dezactivează
+                            </button>
+                          </>
+                        ) : post.status !== 'expired' && (
+                          <button
+                            onClick={() => handleStatusChange(post, 'active')}
+                            disabled={updatingStatusId === post.id}
+                            className="flex items-center gap-1 px-2.5 py-1 text-xs font-medium text-blue-700 bg-blue-50 rounded-lg hover:bg-blue-100 transition-colors disabled:opacity-50"
+                          >
+                            <RotateCcw className="w-3.5 h-3.5" />
+                            Reactivează
+                          </button>
+                        )}
+                        {updatingStatusId === post.id && (
+                          <Loader2 className="w-4 h-4 text-gray-400 animate-spin self-center" />
+                        )}
                       </div>
                     </div>
 
-                    {/* Delete Button */}
+                    {/* Edit & Delete Buttons */}
                     <div className="flex-shrink-0 flex items-start">
+                      <Link
+                        href={`/postare/${post.id}/editeaza`}
+                        className="p-2 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                        title="Editează postarea"
+                      >
+                        <Pencil className="w-5 h-5" />
+                      </Link>
                       <button
                         onClick={() => openDeleteModal(post)}
                         disabled={deletingPostId === post.id}
@@ -255,6 +485,60 @@ function SettingsContent() {
         </div>
       </div>
 
+      {/* Drafts Section */}
+      {drafts.length > 0 && (
+        <div className="mb-6">
+          <h3 className="text-sm font-medium text-gray-500 uppercase tracking-wider mb-3 px-1 flex items-center gap-2">
+            <FileClock className="w-4 h-4" />
+            Ciorne ({drafts.length})
+          </h3>
+          <div className="bg-white rounded-xl shadow-sm border border-gray-100 divide-y divide-gray-100 overflow-hidden">
+            {drafts.map((draft) => (
+              <div key={draft.id} className="p-4 flex items-center gap-4">
+                <div className="flex-1 min-w-0">
+                  <h4 className="font-medium text-gray-900 truncate">
+                    {draft.formData.title.trim() || 'Fără titlu'}
+                  </h4>
+                  <div className="flex items-center gap-2 mt-1 text-xs text-gray-400">
+                    <Calendar className="w-3.5 h-3.5" />
+                    <span>Salvată pe {draft.updatedAt.toLocaleString('ro-RO')}</span>
+                    {draft.media.length > 0 && (
+                      <>
+                        <span>•</span>
+                        <span>{draft.media.length} {draft.media.length === 1 ? 'fișier' : 'fișiere'}</span>
+                      </>
+                    )}
+                  </div>
+                </div>
+                <div className="flex-shrink-0 flex items-center gap-1">
+                  <Link
+                    href={`/postare-noua?ciorna=${draft.id}`}
+                    className="px-3 py-1.5 text-sm font-medium text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                  >
+                    Continuă
+                  </Link>
+                  <button
+                    onClick={() => handleDiscardDraft(draft)}
+                    disabled={deletingDraftId === draft.id}
+                    className="p-2 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
+                    title="Renunță la ciornă"
+                  >
+                    {deletingDraftId === draft.id ? (
+                      <Loader2 className="w-5 h-5 animate-spin" />
+                    ) : (
+                      <Trash2 className="w-5 h-5" />
+                    )}
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Saved Searches Section */}
+      {user?.uid && <SavedSearches userId={user.uid} />}
+
       {/* Settings Sections */}
       {settingsSections.map((section) => (
         <div key={section.title} className="mb-6">
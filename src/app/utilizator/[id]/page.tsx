@@ -14,22 +14,38 @@ import {
   Phone, 
   Mail, 
   Calendar,
-  Loader2
+  Loader2,
+  UserPlus,
+  UserCheck,
+  Flag
 } from 'lucide-react';
 import { User, Post } from '@/types';
 import { getUserProfile } from '@/services/usersService';
 import { fetchUserPosts } from '@/services/postsService';
+import { setFollowing, isFollowing as checkFollowing } from '@/services/followsService';
+import { useAuth } from '@/contexts/AuthContext';
 import { formatDate } from '@/lib/utils';
+import { isSuspensionActive } from '@/lib/suspensions';
 import PostFeed from '@/components/posts/PostFeed';
+import RatingSummary from '@/components/reviews/RatingSummary';
+import SellerReviews from '@/components/reviews/SellerReviews';
+import ReportModal from '@/components/reports/ReportModal';
 
 export default function UserProfilePage() {
   const params = useParams();
   const userId = params.id as string;
+  const { user: currentUser } = useAuth();
   
   const [user, setUser] = useState<User | null>(null);
   const [posts, setPosts] = useState<Post[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [isFollowing, setIsFollowing] = useState(false);
+  const [followersCount, setFollowersCount] = useState(0);
+  const [isUpdatingFollow, setIsUpdatingFollow] = useState(false);
+  const [followError, setFollowError] = useState<string | null>(null);
+  const [showReport, setShowReport] = useState(false);
+  const [isReported, setIsReported] = useState(false);
 
   useEffect(() => {
     const loadData = async () => {
@@ -43,6 +59,7 @@ export default function UserProfilePage() {
         if (userData) {
           setUser(userData);
           setPosts(userPosts);
+          setFollowersCount(userData.followersCount);
         } else {
           setError('Utilizatorul nu a fost găsit.');
         }
@@ -57,6 +74,32 @@ export default function UserProfilePage() {
     loadData();
   }, [userId]);
 
+  useEffect(() => {
+    if (!currentUser?.uid || currentUser.uid === userId) return;
+    const loadFollowState = async () => {
+      setIsFollowing(await checkFollowing(currentUser.uid, userId));
+    };
+    loadFollowState();
+  }, [currentUser?.uid, userId]);
+
+  const handleFollow = async () => {
+    if (!currentUser || isUpdatingFollow) return;
+
+    const wasFollowing = isFollowing;
+    setIsUpdatingFollow(true);
+    setFollowError(null);
+    setIsFollowing(!wasFollowing);
+
+    const result = await setFollowing(currentUser.uid, userId, !wasFollowing);
+    if (result.success && result.followersCount !== undefined) {
+      setFollowersCount(result.followersCount);
+    } else if (!result.success) {
+      setIsFollowing(wasFollowing);
+      setFollowError(result.error || 'Eroare la urmărire');
+    }
+    setIsUpdatingFollow(false);
+  };
+
   if (isLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -132,11 +175,56 @@ export default function UserProfilePage() {
             </div>
           </div>
 
+          {/* Follow / Report */}
+          {currentUser?.uid !== userId && (
+            <div className="absolute top-3 right-4 md:right-6 flex flex-col items-end">
+              {currentUser ? (
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => setShowReport(true)}
+                    disabled={isReported}
+                    className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-50 border border-gray-300 rounded-lg transition-colors disabled:opacity-50"
+                    title={isReported ? 'Raportat' : 'Raportează'}
+                  >
+                    <Flag className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={handleFollow}
+                    disabled={isUpdatingFollow}
+                    className={`flex items-center space-x-2 px-4 py-2 text-sm font-medium rounded-lg transition-colors disabled:opacity-50 ${
+                      isFollowing
+                        ? 'border border-gray-300 text-gray-700 hover:bg-gray-50'
+                        : 'bg-blue-600 text-white hover:bg-blue-700'
+                    }`}
+                  >
+                    {isFollowing ? <UserCheck className="w-4 h-4" /> : <UserPlus className="w-4 h-4" />}
+                    <span>{isFollowing ? 'Urmărești' : 'Urmărește'}</span>
+                  </button>
+                </div>
+              ) : (
+                <Link
+                  href="/autentificare"
+                  className="flex items-center space-x-2 px-4 py-2 text-sm font-medium rounded-lg bg-blue-600 text-white hover:bg-blue-700 transition-colors"
+                >
+                  <UserPlus className="w-4 h-4" />
+                  <span>Urmărește</span>
+                </Link>
+              )}
+              {followError && <p className="text-xs text-red-600 mt-1">{followError}</p>}
+            </div>
+          )}
+
           {/* User Details */}
           <div className="pt-12 md:pt-16">
             <h1 className="text-xl md:text-2xl font-bold text-gray-900">
               {user.fullName || 'Utilizator'}
             </h1>
+            <a href="#recenzii" className="inline-block mt-1">
+              <RatingSummary user={user} />
+            </a>
+            {isSuspensionActive(user.suspension) && (
+              <p className="text-sm text-red-600 mt-2">Acest cont este suspendat, iar anunțurile sale nu sunt vizibile.</p>
+            )}
             {user.bio && (
               <p className="text-gray-600 mt-2">{user.bio}</p>
             )}
@@ -173,10 +261,20 @@ export default function UserProfilePage() {
               <span className="text-2xl font-bold text-gray-900">{posts.length}</span>
               <span className="text-gray-500 ml-1">postări</span>
             </div>
+            <div>
+              <span className="text-2xl font-bold text-gray-900">{followersCount}</span>
+              <span className="text-gray-500 ml-1">{followersCount === 1 ? 'urmăritor' : 'urmăritori'}</span>
+            </div>
+            <div>
+              <span className="text-2xl font-bold text-gray-900">{user.followingCount}</span>
+              <span className="text-gray-500 ml-1">urmăriți</span>
+            </div>
           </div>
         </div>
       </div>
 
+        <SellerReviews seller={user} />
+
         {/* User Posts */}
         <div>
           <h2 className="text-xl font-semibold text-gray-900 px-3 py-3 md:px-0 md:mb-6">Postări</h2>
@@ -193,6 +291,17 @@ export default function UserProfilePage() {
           )}
         </div>
       </div>
+
+      {showReport && (
+        <ReportModal
+          target={{ type: 'user', id: userId, label: user.fullName || user.email, ownerId: userId }}
+          onClose={() => setShowReport(false)}
+          onSent={() => {
+            setIsReported(true);
+            setShowReport(false);
+          }}
+        />
+      )}
     </div>
   );
 }
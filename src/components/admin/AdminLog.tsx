@@ -0,0 +1,239 @@
+'use client';
+
+/**
+ * Admin Log Component
+ * Filterable list of every admin action, newest first, with the snapshot of deleted content
+ */
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { QueryDocumentSnapshot } from 'firebase/firestore';
+import { Loader2, ChevronDown, ScrollText } from 'lucide-react';
+import { fetchAdminLog, fetchAdminLogComments, fetchAdmins } from '@/services/adminLogService';
+import { AdminAction, AdminLogComment, AdminLogEntry, AdminLogFilters, User, ADMIN_ACTION_LABELS } from '@/types';
+
+const ACTION_STYLES: Partial<Record<AdminAction, string>> = {
+  delete_post: 'bg-red-100 text-red-700',
+  delete_comment: 'bg-red-100 text-red-700',
+  delete_user: 'bg-red-100 text-red-700',
+  delete_review: 'bg-red-100 text-red-700',
+  suspend_user: 'bg-red-100 text-red-700',
+  hide_review: 'bg-amber-100 text-amber-700',
+  lift_suspension: 'bg-green-100 text-green-700',
+  show_review: 'bg-green-100 text-green-700',
+};
+
+// Where the target can still be looked at, if anywhere
+function entryHref(entry: AdminLogEntry): string | null {
+  if (entry.targetType === 'post' && entry.targetId && entry.action !== 'delete_post') {
+    return `/postare/${entry.targetId}`;
+  }
+  if (entry.postId) return `/postare/${entry.postId}`;
+  if (entry.targetOwnerId && entry.action !== 'delete_user') return `/utilizator/${entry.targetOwnerId}`;
+  return null;
+}
+
+export default function AdminLog() {
+  const [entries, setEntries] = useState<AdminLogEntry[]>([]);
+  const [lastDoc, setLastDoc] = useState<QueryDocumentSnapshot<AdminLogEntry> | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [admins, setAdmins] = useState<User[]>([]);
+  const [filters, setFilters] = useState<AdminLogFilters>({});
+  const [ownerInput, setOwnerInput] = useState('');
+  const [openSnapshotId, setOpenSnapshotId] = useState<string | null>(null);
+  const [snapshotComments, setSnapshotComments] = useState<Record<string, AdminLogComment[]>>({});
+
+  useEffect(() => {
+    const loadAdmins = async () => {
+      setAdmins(await fetchAdmins());
+    };
+    loadAdmins();
+  }, []);
+
+  useEffect(() => {
+    const loadEntries = async () => {
+      setIsLoading(true);
+      const result = await fetchAdminLog(filters);
+      setEntries(result.entries);
+      setLastDoc(result.lastDoc);
+      setHasMore(result.hasMore);
+      setIsLoading(false);
+    };
+    loadEntries();
+  }, [filters]);
+
+  const handleLoadMore = async () => {
+    if (isLoadingMore || !lastDoc) return;
+    setIsLoadingMore(true);
+    const result = await fetchAdminLog(filters, lastDoc);
+    setEntries(prev => [...prev, ...result.entries]);
+    setLastDoc(result.lastDoc);
+    setHasMore(result.hasMore);
+    setIsLoadingMore(false);
+  };
+
+  const handleToggleSnapshot = async (entry: AdminLogEntry) => {
+    if (openSnapshotId === entry.id) {
+      setOpenSnapshotId(null);
+      return;
+    }
+    setOpenSnapshotId(entry.id);
+    // Deleted comments are kept under the entry and loaded the first time it's opened
+    if (entry.snapshotCommentsCount > 0 && !snapshotComments[entry.id]) {
+      const comments = await fetchAdminLogComments(entry.id);
+      setSnapshotComments(prev => ({ ...prev, [entry.id]: comments }));
+    }
+  };
+
+  const handleOwnerSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setFilters({ ...filters, targetOwnerId: ownerInput.trim() || undefined });
+  };
+
+  return (
+    <div>
+      {/* Filters */}
+      <div className="flex flex-col sm:flex-row gap-2 mb-4">
+        <select
+          value={filters.action || ''}
+          onChange={(e) => setFilters({ ...filters, action: (e.target.value as AdminAction) || undefined })}
+          className="px-3 py-2 border border-gray-200 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">Toate acțiunile</option>
+          {(Object.keys(ADMIN_ACTION_LABELS) as AdminAction[]).map((action) => (
+            <option key={action} value={action}>{ADMIN_ACTION_LABELS[action]}</option>
+          ))}
+        </select>
+        <select
+          value={filters.actorId || ''}
+          onChange={(e) => setFilters({ ...filters, actorId: e.target.value || undefined })}
+          className="px-3 py-2 border border-gray-200 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">Toți administratorii</option>
+          {admins.map((admin) => (
+            <option key={admin.id} value={admin.id}>{admin.fullName || admin.email}</option>
+          ))}
+        </select>
+        <form onSubmit={handleOwnerSubmit} className="flex-1 flex gap-2">
+          <input
+            type="text"
+            value={ownerInput}
+            onChange={(e) => setOwnerInput(e.target.value)}
+            placeholder="ID-ul utilizatorului afectat"
+            className="flex-1 min-w-0 px-3 py-2 border border-gray-200 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            type="submit"
+            className="px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            Caută
+          </button>
+        </form>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="w-8 h-8 text-blue-600 animate-spin" />
+        </div>
+      ) : entries.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-12 text-gray-500">
+          <ScrollText className="w-12 h-12 mb-3 opacity-50" />
+          <p>Nicio acțiune înregistrată</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {entries.map((entry) => {
+            const href = entryHref(entry);
+            return (
+              <div key={entry.id} className="p-3 sm:p-4 bg-gray-50 rounded-lg">
+                <div className="flex flex-wrap items-center gap-1 sm:gap-2">
+                  <span className={`px-1.5 py-0.5 text-xs rounded font-medium ${ACTION_STYLES[entry.action] || 'bg-gray-200 text-gray-600'}`}>
+                    {ADMIN_ACTION_LABELS[entry.action] || entry.action}
+                  </span>
+                  <span className="text-xs sm:text-sm text-gray-700">
+                    de <strong>{entry.actorName || entry.actorId}</strong>
+                  </span>
+                  <span className="text-xs sm:text-sm text-gray-400">
+                    {entry.createdAt?.toLocaleString('ro-RO', { dateStyle: 'short', timeStyle: 'short' }) || ''}
+                  </span>
+                </div>
+
+                {entry.targetLabel && (
+                  href ? (
+                    <Link href={href} className="block text-sm text-gray-900 mt-1 hover:text-blue-600 break-words">
+                      {entry.targetLabel}
+                    </Link>
+                  ) : (
+                    <p className="text-sm text-gray-900 mt-1 break-words">{entry.targetLabel}</p>
+                  )
+                )}
+                {entry.reason && (
+                  <p className="text-xs sm:text-sm text-gray-500 mt-1 break-words">Motiv: {entry.reason}</p>
+                )}
+                {entry.targetOwnerId && (
+                  <button
+                    onClick={() => {
+                      setOwnerInput(entry.targetOwnerId);
+                      setFilters({ ...filters, targetOwnerId: entry.targetOwnerId });
+                    }}
+                    className="text-xs text-gray-400 hover:text-blue-600 font-mono mt-1"
+                    title="Arată toate acțiunile asupra acestui utilizator"
+                  >
+                    utilizator: {entry.targetOwnerId}
+                  </button>
+                )}
+
+                {entry.snapshot && (
+                  <div className="mt-1.5">
+                    <button
+                      onClick={() => handleToggleSnapshot(entry)}
+                      className="text-xs text-blue-600 hover:underline"
+                    >
+                      {openSnapshotId === entry.id ? 'Ascunde conținutul salvat' : 'Vezi conținutul salvat'}
+                    </button>
+                    {openSnapshotId === entry.id && (
+                      <>
+                        <pre className="mt-2 p-3 bg-white border border-gray-200 rounded-lg text-xs text-gray-700 overflow-x-auto whitespace-pre-wrap break-words">
+                          {JSON.stringify(entry.snapshot, null, 2)}
+                        </pre>
+                        {entry.snapshotCommentsCount > 0 && (
+                          <div className="mt-2">
+                            <p className="text-xs font-medium text-gray-500 mb-1">
+                              Comentarii șterse odată cu el ({entry.snapshotCommentsCount})
+                            </p>
+                            {snapshotComments[entry.id] ? (
+                              <pre className="p-3 bg-white border border-gray-200 rounded-lg text-xs text-gray-700 overflow-x-auto whitespace-pre-wrap break-words">
+                                {JSON.stringify(snapshotComments[entry.id], null, 2)}
+                              </pre>
+                            ) : (
+                              <Loader2 className="w-4 h-4 text-blue-600 animate-spin" />
+                            )}
+                          </div>
+                        )}
+                      </>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          {hasMore && (
+            <div className="mt-4 text-center">
+              <button
+                onClick={handleLoadMore}
+                disabled={isLoadingMore}
+                className="inline-flex items-center gap-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+              >
+                {isLoadingMore ? <Loader2 className="w-4 h-4 animate-spin" /> : <ChevronDown className="w-4 h-4" />}
+                Încarcă mai multe
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
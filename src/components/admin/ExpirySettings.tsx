@@ -0,0 +1,93 @@
+'use client';
+
+/**
+ * Expiry Settings Component
+ * Admin form for the listing duration of each category
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Loader2, Save } from 'lucide-react';
+import { CATEGORIES } from '@/types';
+import { ExpiryDays } from '@/lib/expiry';
+import { getExpiryDays, saveExpiryDays } from '@/services/settingsService';
+import { useAuth } from '@/contexts/AuthContext';
+
+export default function ExpirySettings() {
+  const { user } = useAuth();
+  const [expiryDays, setExpiryDays] = useState<ExpiryDays | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      setExpiryDays(await getExpiryDays());
+    };
+    loadSettings();
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!expiryDays || !user) return;
+
+    setIsSaving(true);
+    setMessage(null);
+    const result = await saveExpiryDays(user, expiryDays);
+    setMessage(result.success
+      ? { type: 'success', text: 'Setările au fost salvate' }
+      : { type: 'error', text: result.error || 'Eroare la salvarea setărilor' });
+    setIsSaving(false);
+  };
+
+  if (!expiryDays) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-6 h-6 text-blue-600 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="max-w-xl">
+      <h2 className="text-base font-semibold text-gray-900">Durata anunțurilor</h2>
+      <p className="text-sm text-gray-500 mt-1 mb-4">
+        Numărul de zile după care un anunț expiră și dispare din feed. Se aplică anunțurilor publicate sau reactualizate de acum înainte.
+      </p>
+
+      <div className="space-y-3">
+        {CATEGORIES.map((cat) => (
+          <label key={cat.key} className="flex items-center justify-between gap-4">
+            <span className="text-sm text-gray-700">{cat.label}</span>
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                min={1}
+                max={365}
+                value={expiryDays[cat.key]}
+                onChange={(e) => setExpiryDays({ ...expiryDays, [cat.key]: Number(e.target.value) })}
+                className="w-24 px-3 py-2 border border-gray-200 rounded-lg text-sm text-right focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <span className="text-sm text-gray-500">zile</span>
+            </div>
+          </label>
+        ))}
+      </div>
+
+      {message && (
+        <div className={`mt-4 text-sm rounded-lg p-3 ${
+          message.type === 'success' ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'
+        }`}>
+          {message.text}
+        </div>
+      )}
+
+      <button
+        type="submit"
+        disabled={isSaving}
+        className="mt-4 inline-flex items-center gap-2 px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+      >
+        {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+        Salvează
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,111 @@
+'use client';
+
+/**
+ * Suspend User Modal Component
+ * Admin dialog for the reason and length of a suspension
+ */
+
+import React, { useState } from 'react';
+import { Ban, Loader2 } from 'lucide-react';
+import { SUSPENSION_DURATIONS, MAX_SUSPENSION_REASON_LENGTH } from '@/lib/suspensions';
+
+interface SuspendUserModalProps {
+  userName: string;
+  initialReason?: string;
+  onClose: () => void;
+  onConfirm: (reason: string, days: number | null) => Promise<{ success: boolean; error?: string }>;
+}
+
+export default function SuspendUserModal({ userName, initialReason = '', onClose, onConfirm }: SuspendUserModalProps) {
+  const [reason, setReason] = useState(initialReason);
+  const [days, setDays] = useState<number | null>(SUSPENSION_DURATIONS[1].days);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleConfirm = async () => {
+    if (isSaving) return;
+    if (!reason.trim()) {
+      setError('Scrie motivul suspendării');
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    const result = await onConfirm(reason, days);
+    if (!result.success) {
+      setError(result.error || 'Eroare la suspendarea utilizatorului');
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-end sm:items-center justify-center z-50">
+      <div className="bg-white rounded-t-2xl sm:rounded-xl shadow-xl w-full sm:max-w-md p-4 sm:p-6 sm:m-4 max-h-[85vh] overflow-y-auto">
+        <div className="flex items-center gap-2 sm:gap-3 mb-3 sm:mb-4">
+          <div className="bg-red-100 p-1.5 sm:p-2 rounded-full">
+            <Ban className="w-5 h-5 sm:w-6 sm:h-6 text-red-600" />
+          </div>
+          <h3 className="text-base sm:text-lg font-semibold text-gray-900">
+            Suspendă utilizatorul
+          </h3>
+        </div>
+
+        <p className="text-sm sm:text-base text-gray-600 mb-3 sm:mb-4">
+          <strong className="text-gray-900 break-words">&quot;{userName}&quot;</strong> nu va mai putea publica sau
+          comenta, iar anunțurile sale vor fi ascunse până la ridicarea suspendării.
+        </p>
+
+        <label className="block text-sm font-medium text-gray-700 mb-1">Durată</label>
+        <div className="flex flex-wrap gap-2 mb-3">
+          {SUSPENSION_DURATIONS.map((option) => (
+            <button
+              key={option.label}
+              type="button"
+              onClick={() => setDays(option.days)}
+              className={`px-3 py-1.5 text-xs sm:text-sm rounded-lg border transition-colors ${
+                days === option.days
+                  ? 'bg-red-600 border-red-600 text-white'
+                  : 'bg-white border-gray-200 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        <label className="block text-sm font-medium text-gray-700 mb-1">Motiv (îl vede utilizatorul)</label>
+        <textarea
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          rows={3}
+          maxLength={MAX_SUSPENSION_REASON_LENGTH}
+          className="w-full px-3 py-2 border border-gray-200 rounded-lg mb-3 sm:mb-4 text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none"
+        />
+
+        {error && (
+          <p className="text-xs sm:text-sm text-red-600 bg-red-50 p-2.5 sm:p-3 rounded-lg mb-3 sm:mb-4">
+            {error}
+          </p>
+        )}
+
+        <div className="flex gap-2 sm:gap-3">
+          <button
+            onClick={onClose}
+            disabled={isSaving}
+            className="flex-1 px-3 sm:px-4 py-2.5 sm:py-2 text-sm text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+          >
+            Anulează
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={isSaving}
+            className="flex-1 px-3 sm:px-4 py-2.5 sm:py-2 text-sm text-white bg-red-600 rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50 flex items-center justify-center gap-1.5 sm:gap-2"
+          >
+            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Ban className="w-4 h-4" />}
+            Suspendă
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
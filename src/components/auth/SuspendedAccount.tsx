@@ -0,0 +1,57 @@
+'use client';
+
+/**
+ * Suspended Account Component
+ * Shown in place of the app while the signed-in user is suspended
+ */
+
+import React from 'react';
+import { Ban, LogOut } from 'lucide-react';
+import { describeSuspensionEnd } from '@/lib/suspensions';
+import { UserSuspension } from '@/types';
+
+// Rendered by AuthProvider itself, so it gets what it needs as props instead of useAuth
+interface SuspendedAccountProps {
+  email: string;
+  suspension: UserSuspension;
+  onSignOut: () => void;
+}
+
+export default function SuspendedAccount({ email, suspension, onSignOut }: SuspendedAccountProps) {
+  return (
+    <div className="min-h-screen flex items-center justify-center px-4">
+      <div className="w-full max-w-md bg-white rounded-2xl shadow-sm border border-gray-100 p-6 text-center">
+        <div className="mx-auto flex h-14 w-14 items-center justify-center rounded-full bg-red-100 mb-4">
+          <Ban className="h-7 w-7 text-red-600" />
+        </div>
+
+        <h1 className="text-xl font-semibold text-gray-900 mb-2">
+          {suspension.until ? 'Contul tău este suspendat' : 'Contul tău a fost blocat'}
+        </h1>
+        <p className="text-sm text-gray-500 mb-4">
+          Contul {email} este suspendat {describeSuspensionEnd(suspension)}.
+          Cât timp suspendarea este activă nu poți publica anunțuri sau comenta, iar anunțurile tale nu sunt vizibile.
+        </p>
+
+        <div className="bg-gray-50 rounded-lg p-3 text-left mb-4">
+          <p className="text-xs font-medium text-gray-500 mb-1">Motiv</p>
+          <p className="text-sm text-gray-900 whitespace-pre-wrap break-words">{suspension.reason}</p>
+        </div>
+
+        <p className="text-xs text-gray-400 mb-6">
+          {suspension.until
+            ? 'Anunțurile tale redevin vizibile automat când suspendarea se încheie.'
+            : 'Dacă crezi că este o greșeală, contactează echipa de administrare.'}
+        </p>
+
+        <button
+          onClick={onSignOut}
+          className="inline-flex items-center gap-2 px-4 py-2.5 text-gray-700 bg-gray-100 rounded-xl font-medium hover:bg-gray-200 transition-colors"
+        >
+          <LogOut className="w-4 h-4" />
+          Deconectează-te
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -5,9 +5,12 @@
  * Main navigation with auth-aware menu
  */
 
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import Link from 'next/link';
+import { useRouter } from 'next/navigation';
 import { useAuth } from '@/contexts/AuthContext';
+import { subscribeToUnreadCount } from '@/services/messagesService';
+import { subscribeToUnreadNotificationCount } from '@/services/notificationsService';
 import { 
   Home, 
   User, 
@@ -18,18 +21,34 @@ import {
   UserPlus,
   Menu,
   X,
-  Shield
+  Shield,
+  Search,
+  Bookmark,
+  MessageCircle,
+  Bell
 } from 'lucide-react';
 
 export default function Header() {
   const { user, loading, signOut } = useAuth();
+  const router = useRouter();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
+  const [searchText, setSearchText] = useState('');
+  const unreadCount = useLiveCount(user?.uid, subscribeToUnreadCount);
+  const unreadNotifications = useLiveCount(user?.uid, subscribeToUnreadNotificationCount);
 
   const handleSignOut = async () => {
     await signOut();
     setMobileMenuOpen(false);
   };
 
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    const q = searchText.trim();
+    if (!q) return;
+    router.push(`/cautare?q=${encodeURIComponent(q)}`);
+    setMobileMenuOpen(false);
+  };
+
   return (
     <header className="bg-white shadow-sm border-b border-gray-100 sticky top-0 z-50">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -49,6 +68,11 @@ export default function Header() {
             </span>
           </Link>
 
+          {/* Desktop Search */}
+          <form onSubmit={handleSearch} className="hidden md:block flex-1 max-w-xs mx-4">
+            <SearchInput value={searchText} onChange={setSearchText} />
+          </form>
+
           {/* Desktop Navigation */}
           <nav className="hidden md:flex items-center space-x-1">
             {loading ? (
@@ -64,6 +88,12 @@ export default function Header() {
                 <NavLink href="/postare-noua" icon={<PlusSquare className="w-5 h-5" />}>
                   Postare nouă
                 </NavLink>
+                <NavLink href="/mesaje" icon={<MessageCircle className="w-5 h-5" />} badge={unreadCount}>
+                  Mesaje
+                </NavLink>
+                <NavLink href="/salvate" icon={<Bookmark className="w-5 h-5" />}>
+                  Salvate
+                </NavLink>
                 <NavLink href="/setari" icon={<Settings className="w-5 h-5" />}>
                   Setări
                 </NavLink>
@@ -72,6 +102,7 @@ export default function Header() {
                     Admin
                   </NavLink>
                 )}
+                <NotificationBell count={unreadNotifications} />
                 <button
                   onClick={handleSignOut}
                   className="flex items-center space-x-2 px-4 py-2 text-gray-600 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
@@ -92,13 +123,22 @@ export default function Header() {
             )}
           </nav>
 
-          {/* Spacer for mobile to balance the layout */}
-          <div className="md:hidden w-10" />
+          {/* Notifications on mobile, or a spacer to balance the layout */}
+          {user ? (
+            <div className="md:hidden">
+              <NotificationBell count={unreadNotifications} />
+            </div>
+          ) : (
+            <div className="md:hidden w-10" />
+          )}
         </div>
 
         {/* Mobile Navigation */}
         {mobileMenuOpen && (
           <div className="md:hidden py-4 border-t border-gray-100">
+            <form onSubmit={handleSearch} className="mb-3">
+              <SearchInput value={searchText} onChange={setSearchText} />
+            </form>
             <nav className="flex flex-col space-y-1">
               {loading ? (
                 <div className="w-full h-10 bg-gray-200 animate-pulse rounded-lg" />
@@ -113,6 +153,12 @@ export default function Header() {
                   <MobileNavLink href="/postare-noua" icon={<PlusSquare className="w-5 h-5" />} onClick={() => setMobileMenuOpen(false)}>
                     Postare nouă
                   </MobileNavLink>
+                  <MobileNavLink href="/mesaje" icon={<MessageCircle className="w-5 h-5" />} badge={unreadCount} onClick={() => setMobileMenuOpen(false)}>
+                    Mesaje
+                  </MobileNavLink>
+                  <MobileNavLink href="/salvate" icon={<Bookmark className="w-5 h-5" />} onClick={() => setMobileMenuOpen(false)}>
+                    Salvate
+                  </MobileNavLink>
                   <MobileNavLink href="/setari" icon={<Settings className="w-5 h-5" />} onClick={() => setMobileMenuOpen(false)}>
                     Setări
                   </MobileNavLink>
@@ -147,14 +193,35 @@ export default function Header() {
   );
 }
 
+interface SearchInputProps {
+  value: string;
+  onChange: (value: string) => void;
+}
+
+function SearchInput({ value, onChange }: SearchInputProps) {
+  return (
+    <div className="relative">
+      <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+      <input
+        type="search"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder="Caută anunțuri..."
+        className="w-full pl-9 pr-3 py-2 bg-gray-100 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white"
+      />
+    </div>
+  );
+}
+
 interface NavLinkProps {
   href: string;
   icon: React.ReactNode;
   children: React.ReactNode;
   primary?: boolean;
+  badge?: number;
 }
 
-function NavLink({ href, icon, children, primary }: NavLinkProps) {
+function NavLink({ href, icon, children, primary, badge }: NavLinkProps) {
   return (
     <Link
       href={href}
@@ -166,6 +233,7 @@ function NavLink({ href, icon, children, primary }: NavLinkProps) {
     >
       {icon}
       <span>{children}</span>
+      <NavBadge count={badge} />
     </Link>
   );
 }
@@ -175,9 +243,10 @@ interface MobileNavLinkProps {
   icon: React.ReactNode;
   children: React.ReactNode;
   onClick: () => void;
+  badge?: number;
 }
 
-function MobileNavLink({ href, icon, children, onClick }: MobileNavLinkProps) {
+function MobileNavLink({ href, icon, children, onClick, badge }: MobileNavLinkProps) {
   return (
     <Link
       href={href}
@@ -186,6 +255,51 @@ function MobileNavLink({ href, icon, children, onClick }: MobileNavLinkProps) {
     >
       {icon}
       <span>{children}</span>
+      <NavBadge count={badge} />
     </Link>
   );
 }
+
+/**
+ * Live count for the signed-in user, e.g. unread messages
+ * Keyed by user so a previous account's count never shows after switching
+ */
+function useLiveCount(
+  userId: string | undefined,
+  subscribe: (userId: string, onChange: (count: number) => void) => () => void
+): number {
+  const [state, setState] = useState({ userId: '', count: 0 });
+
+  useEffect(() => {
+    if (!userId) return;
+    return subscribe(userId, count => setState({ userId, count }));
+  }, [userId, subscribe]);
+
+  return userId && state.userId === userId ? state.count : 0;
+}
+
+function NotificationBell({ count }: { count: number }) {
+  return (
+    <Link
+      href="/notificari"
+      className="relative flex items-center justify-center w-10 h-10 rounded-lg text-gray-600 hover:text-blue-600 hover:bg-blue-50 transition-colors"
+      title="Notificări"
+    >
+      <Bell className="w-5 h-5" />
+      {count > 0 && (
+        <span className="absolute top-0.5 right-0.5 min-w-[1.125rem] h-[1.125rem] px-1 bg-red-500 text-white text-[10px] font-bold rounded-full flex items-center justify-center">
+          {count > 99 ? '99+' : count}
+        </span>
+      )}
+    </Link>
+  );
+}
+
+function NavBadge({ count }: { count?: number }) {
+  if (!count) return null;
+  return (
+    <span className="min-w-[1.25rem] h-5 px-1.5 bg-red-500 text-white text-xs font-bold rounded-full flex items-center justify-center">
+      {count > 99 ? '99+' : count}
+    </span>
+  );
+}
@@ -3,9 +3,12 @@
 /**
  * Create Post Form Component
  * Handles creating new posts with media upload
+ * With a 'post' prop it edits that post instead: existing media can be removed and reordered
+ * New posts are autosaved as drafts; the given draft (or the latest one) is restored on open
+ * New posts can also be scheduled to publish later
  */
 
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import Image from 'next/image';
 import { 
@@ -16,32 +19,147 @@ import {
   MapPin, 
   Tag, 
   DollarSign,
-  Send
+  Send,
+  Save,
+  ChevronLeft,
+  ChevronRight,
+  FileClock,
+  CalendarClock
 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
-import { createPost } from '@/services/postsService';
-import { CreatePostData, CATEGORIES } from '@/types';
+import { createPost, editPost } from '@/services/postsService';
+import { createDraftId, saveDraft, getDraft, fetchUserDrafts, deleteDraft } from '@/services/draftsService';
+import { CreatePostData, MediaDraft, Post, PostDraft, CATEGORIES } from '@/types';
+import { validatePublishAt, toDateTimeLocalValue } from '@/lib/schedule';
 
-export default function CreatePostForm() {
+const MAX_MEDIA = 10;
+const DRAFT_SAVE_DELAY = 800;
+
+const EMPTY_FORM: CreatePostData = {
+  title: '',
+  description: '',
+  price: undefined,
+  currency: 'RON',
+  location: '',
+  category: undefined,
+};
+
+interface CreatePostFormProps {
+  post?: Post; // Edit mode
+  draftId?: string; // Draft to resume, otherwise the latest draft is restored
+}
+
+function readAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+function createMediaId(): string {
+  return crypto.randomUUID();
+}
+
+function isBlankForm(formData: CreatePostData, media: MediaDraft[]): boolean {
+  return media.length === 0 &&
+         !formData.title.trim() &&
+         !formData.description.trim() &&
+         formData.price === undefined &&
+         !formData.location?.trim() &&
+         !formData.category;
+}
+
+export default function CreatePostForm({ post, draftId }: CreatePostFormProps) {
   const router = useRouter();
   const { user } = useAuth();
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const isEditing = !!post;
 
   const [formData, setFormData] = useState<CreatePostData>({
-    title: '',
-    description: '',
-    price: undefined,
-    currency: 'RON',
-    location: '',
-    category: undefined,
+    title: post?.title || '',
+    description: post?.description || '',
+    price: post?.price,
+    currency: post?.currency || 'RON',
+    location: post?.location || '',
+    category: post?.category,
   });
   
-  const [mediaFiles, setMediaFiles] = useState<File[]>([]);
-  const [mediaPreviews, setMediaPreviews] = useState<string[]>([]);
+  const [media, setMedia] = useState<MediaDraft[]>(() => (post?.media || []).map(item => ({ id: createMediaId(), url: item.url, type: item.type })));
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
   const [error, setError] = useState<string | null>(null);
 
+  // Drafts (new posts only)
+  const draftIdRef = useRef<string | null>(null);
+  const pendingSaveRef = useRef<Promise<unknown> | null>(null);
+  const publishedRef = useRef(false); // Set once the post is created; no draft may be saved after it
+  const [draftLoaded, setDraftLoaded] = useState(isEditing);
+  const [restoredDraft, setRestoredDraft] = useState<PostDraft | null>(null);
+  const [draftSavedAt, setDraftSavedAt] = useState<Date | null>(null);
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (isEditing || !userId) return;
+
+    const restoreDraft = async () => {
+      const draft = draftId
+        ? await getDraft(draftId, userId)
+        : (await fetchUserDrafts(userId))[0] || null;
+
+      if (draft) {
+        try {
+          const restoredMedia = await Promise.all(draft.media.map(async item => ({
+            ...item,
+            id: createMediaId(),
+            url: await readAsDataUrl(item.file),
+          })));
+          draftIdRef.current = draft.id;
+          setFormData({ ...EMPTY_FORM, ...draft.formData });
+          setMedia(restoredMedia);
+          setRestoredDraft(draft);
+        } catch (err) {
+          console.error('Error restoring draft media:', err);
+        }
+      }
+      setDraftLoaded(true);
+    };
+
+    restoreDraft();
+  }, [isEditing, userId, draftId]);
+
+  // Autosave shortly after the last change
+  useEffect(() => {
+    if (isEditing || !userId || !draftLoaded || isSubmitting || isBlankForm(formData, media)) return;
+
+    const timer = setTimeout(async () => {
+      if (publishedRef.current) return;
+      if (!draftIdRef.current) draftIdRef.current = createDraftId();
+      const save = saveDraft({
+        id: draftIdRef.current,
+        userId,
+        formData,
+        media: media.flatMap(item => item.file ? [{ type: item.type, file: item.file }] : []),
+        updatedAt: new Date(),
+      });
+      pendingSaveRef.current = save;
+      const result = await save;
+      if (result.success) setDraftSavedAt(new Date());
+    }, DRAFT_SAVE_DELAY);
+
+    return () => clearTimeout(timer);
+  }, [isEditing, userId, draftLoaded, isSubmitting, formData, media]);
+
+  const discardDraft = async () => {
+    if (draftIdRef.current) await deleteDraft(draftIdRef.current);
+    draftIdRef.current = null;
+    setFormData(EMPTY_FORM);
+    setMedia([]);
+    setRestoredDraft(null);
+    setDraftSavedAt(null);
+  };
+
   const handleInputChange = (
     e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>
   ) => {
@@ -52,12 +170,13 @@ export default function CreatePostForm() {
     }));
   };
 
-  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(e.target.files || []);
+    e.target.value = ''; // Allow picking the same file again after removing it
     if (files.length === 0) return;
 
     // Limit to 10 files
-    const newFiles = files.slice(0, 10 - mediaFiles.length);
+    const newFiles = files.slice(0, MAX_MEDIA - media.length);
     
     // Check for large video files (warn if > 50MB)
     const largeVideos = newFiles.filter(f => 
@@ -69,22 +188,42 @@ export default function CreatePostForm() {
       // Still allow upload, just warn
       setTimeout(() => setError(null), 5000);
     }
-    
-    setMediaFiles(prev => [...prev, ...newFiles]);
-
-    // Create previews
-    newFiles.forEach(file => {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setMediaPreviews(prev => [...prev, reader.result as string]);
-      };
-      reader.readAsDataURL(file);
-    });
+
+    // Create previews, in the order the files were picked
+    try {
+      const urls = await Promise.all(newFiles.map(readAsDataUrl));
+      setMedia(prev => [...prev, ...newFiles.map((file, index): MediaDraft => ({
+        id: createMediaId(),
+        url: urls[index],
+        type: file.type.startsWith('video/') ? 'video' : 'image',
+        file,
+      }))].slice(0, MAX_MEDIA)); // Re-checked here: files picked meanwhile count too
+    } catch (err) {
+      console.error('Error reading media files:', err);
+      setError('Nu am putut citi fișierele selectate. Încearcă din nou.');
+    }
   };
 
   const removeMedia = (index: number) => {
-    setMediaFiles(prev => prev.filter((_, i) => i !== index));
-    setMediaPreviews(prev => prev.filter((_, i) => i !== index));
+    setMedia(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const toggleSchedule = (enabled: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      // Default to the next full hour
+      publishAt: enabled ? new Date(Math.ceil(Date.now() / 3600000) * 3600000) : undefined,
+    }));
+  };
+
+  const moveMedia = (index: number, offset: number) => {
+    setMedia(prev => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -100,30 +239,58 @@ export default function CreatePostForm() {
       return;
     }
 
+    if (formData.publishAt) {
+      const scheduleError = validatePublishAt(formData.publishAt);
+      if (scheduleError) {
+        setError(`${scheduleError}.`);
+        return;
+      }
+    }
+
     setIsSubmitting(true);
     setUploadProgress(0);
     setError(null);
 
     try {
+      if (post) {
+        const result = await editPost(post.id, formData, media, (progress) => setUploadProgress(progress));
+
+        if (result.success) {
+          setUploadProgress(100);
+          router.push(`/postare/${post.id}`);
+        } else {
+          setError(result.error || 'Eroare la actualizarea postării.');
+        }
+        return;
+      }
+
       const result = await createPost(
         formData,
         user.id,
         user.email,
         user.fullName || user.email,
         user.profileImage || '',
-        mediaFiles,
+        media.flatMap(item => item.file ? [item.file] : []),
         (progress) => setUploadProgress(progress)
       );
 
       if (result.success) {
         setUploadProgress(100);
-        router.push('/');
+        // Stop autosave for good, and let a save already under way finish before the delete
+        publishedRef.current = true;
+        await pendingSaveRef.current;
+        if (draftIdRef.current) await deleteDraft(draftIdRef.current);
+        draftIdRef.current = null;
+        // Scheduled posts aren't in the feed yet; the author manages them in settings
+        router.push(formData.publishAt ? '/setari' : '/');
       } else {
         setError(result.error || 'Eroare la crearea postării.');
       }
     } catch (err) {
-      console.error('Error creating post:', err);
-      setError('Eroare la crearea postării. Încearcă din nou.');
+      console.error('Error saving post:', err);
+      setError(isEditing
+        ? 'Eroare la actualizarea postării. Încearcă din nou.'
+        : 'Eroare la crearea postării. Încearcă din nou.');
     } finally {
       setIsSubmitting(false);
     }
@@ -137,7 +304,7 @@ export default function CreatePostForm() {
           <div className="flex items-center justify-between mb-2">
             <span className="text-sm font-medium text-blue-700">
               {uploadProgress < 90 ? 'Se încarcă fișierele...' : 
-               uploadProgress < 100 ? 'Se creează postarea...' : 'Finalizat!'}
+               uploadProgress < 100 ? (isEditing ? 'Se salvează postarea...' : 'Se creează postarea...') : 'Finalizat!'}
             </span>
             <span className="text-sm text-blue-600">{uploadProgress}%</span>
           </div>
@@ -150,6 +317,23 @@ export default function CreatePostForm() {
         </div>
       )}
 
+      {/* Restored draft */}
+      {restoredDraft && (
+        <div className="flex items-center justify-between gap-3 p-4 bg-amber-50 border border-amber-200 rounded-lg">
+          <div className="flex items-center space-x-2 text-sm text-amber-800">
+            <FileClock className="w-4 h-4 flex-shrink-0" />
+            <span>Am restaurat ciorna salvată pe {restoredDraft.updatedAt.toLocaleString('ro-RO')}.</span>
+          </div>
+          <button
+            type="button"
+            onClick={discardDraft}
+            className="flex-shrink-0 text-sm font-medium text-amber-800 hover:text-red-600 transition-colors"
+          >
+            Renunță la ciornă
+          </button>
+        </div>
+      )}
+
       {/* Error message */}
       {error && (
         <div className="p-4 bg-red-50 border border-red-200 text-red-700 rounded-lg">
@@ -197,23 +381,22 @@ export default function CreatePostForm() {
         </label>
         
         {/* Previews */}
-        {mediaPreviews.length > 0 && (
+        {media.length > 0 && (
           <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-5 gap-3 mb-4">
-            {mediaPreviews.map((preview, index) => {
-              const file = mediaFiles[index];
-              const isVideo = file?.type.startsWith('video/');
-              const sizeMB = file ? (file.size / (1024 * 1024)).toFixed(1) : '0';
+            {media.map((item, index) => {
+              const isVideo = item.type === 'video';
+              const sizeMB = item.file ? (item.file.size / (1024 * 1024)).toFixed(1) : null;
               
               return (
-                <div key={index} className="relative aspect-square rounded-lg overflow-hidden bg-gray-100">
+                <div key={item.id} className="relative aspect-square rounded-lg overflow-hidden bg-gray-100">
                   {isVideo ? (
                     <video
-                      src={preview}
+                      src={item.url}
                       className="w-full h-full object-cover"
                     />
                   ) : (
                     <Image
-                      src={preview}
+                      src={item.url}
                       alt={`Preview ${index + 1}`}
                       fill
                       className="object-cover"
@@ -221,15 +404,39 @@ export default function CreatePostForm() {
                   )}
                   {/* File size badge */}
                   <div className="absolute bottom-1 left-1 px-1.5 py-0.5 bg-black/60 text-white text-xs rounded">
-                    {isVideo ? '🎥' : '📷'} {sizeMB}MB
+                    {isVideo ? '🎥' : '📷'}{sizeMB && ` ${sizeMB}MB`}
                   </div>
                   <button
                     type="button"
                     onClick={() => removeMedia(index)}
                     className="absolute top-1 right-1 p-1 bg-red-500 text-white rounded-full hover:bg-red-600 transition-colors"
+                    title="Elimină"
                   >
                     <X className="w-4 h-4" />
                   </button>
+                  {/* Reorder */}
+                  {media.length > 1 && (
+                    <div className="absolute bottom-1 right-1 flex gap-1">
+                      <button
+                        type="button"
+                        onClick={() => moveMedia(index, -1)}
+                        disabled={index === 0}
+                        className="p-0.5 bg-black/60 text-white rounded hover:bg-black/80 disabled:opacity-30"
+                        title="Mută la stânga"
+                      >
+                        <ChevronLeft className="w-4 h-4" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => moveMedia(index, 1)}
+                        disabled={index === media.length - 1}
+                        className="p-0.5 bg-black/60 text-white rounded hover:bg-black/80 disabled:opacity-30"
+                        title="Mută la dreapta"
+                      >
+                        <ChevronRight className="w-4 h-4" />
+                      </button>
+                    </div>
+                  )}
                 </div>
               );
             })}
@@ -249,7 +456,7 @@ export default function CreatePostForm() {
           <button
             type="button"
             onClick={() => fileInputRef.current?.click()}
-            disabled={mediaFiles.length >= 10}
+            disabled={media.length >= MAX_MEDIA}
             className="flex items-center space-x-2 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
           >
             <ImagePlus className="w-5 h-5 text-gray-500" />
@@ -258,7 +465,7 @@ export default function CreatePostForm() {
           <button
             type="button"
             onClick={() => fileInputRef.current?.click()}
-            disabled={mediaFiles.length >= 10}
+            disabled={media.length >= MAX_MEDIA}
             className="flex items-center space-x-2 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
           >
             <Video className="w-5 h-5 text-gray-500" />
@@ -345,6 +552,31 @@ export default function CreatePostForm() {
         />
       </div>
 
+      {/* Schedule */}
+      {!isEditing && (
+        <div>
+          <label className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+            <input
+              type="checkbox"
+              checked={!!formData.publishAt}
+              onChange={(e) => toggleSchedule(e.target.checked)}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <CalendarClock className="w-4 h-4" />
+            <span>Programează publicarea</span>
+          </label>
+          {formData.publishAt && (
+            <input
+              type="datetime-local"
+              value={toDateTimeLocalValue(formData.publishAt)}
+              min={toDateTimeLocalValue(new Date())}
+              onChange={(e) => e.target.value && setFormData(prev => ({ ...prev, publishAt: new Date(e.target.value) }))}
+              className="mt-3 w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+            />
+          )}
+        </div>
+      )}
+
       {/* Submit Button */}
       <button
         type="submit"
@@ -354,7 +586,17 @@ export default function CreatePostForm() {
         {isSubmitting ? (
           <>
             <Loader2 className="w-5 h-5 animate-spin" />
-            <span>Se publică...</span>
+            <span>{isEditing ? 'Se salvează...' : 'Se publică...'}</span>
+          </>
+        ) : isEditing ? (
+          <>
+            <Save className="w-5 h-5" />
+            <span>Salvează modificările</span>
+          </>
+        ) : formData.publishAt ? (
+          <>
+            <CalendarClock className="w-5 h-5" />
+            <span>Programează postarea</span>
           </>
         ) : (
           <>
@@ -363,6 +605,11 @@ export default function CreatePostForm() {
           </>
         )}
       </button>
+      {draftSavedAt && !isSubmitting && (
+        <p className="text-xs text-gray-400 text-center -mt-3">
+          Ciornă salvată automat la {draftSavedAt.toLocaleTimeString('ro-RO', { hour: '2-digit', minute: '2-digit' })}
+        </p>
+      )}
     </form>
   );
 }
@@ -0,0 +1,218 @@
+'use client';
+
+/**
+ * Filter Panel Component
+ * Edits feed filters locally and applies them to the URL on submit
+ */
+
+import React, { useState } from 'react';
+import { SlidersHorizontal, X } from 'lucide-react';
+import { PostFilters, PostAvailability, DatePostedFilter } from '@/types';
+import { BASE_CURRENCY, SUPPORTED_CURRENCIES } from '@/lib/currency';
+import {
+  DATE_POSTED_LABELS,
+  AVAILABILITY_LABELS,
+  hasActiveFilters,
+} from '@/lib/filters';
+
+interface FilterPanelProps {
+  filters: PostFilters;
+  onApply: (filters: PostFilters) => void;
+  actions?: React.ReactNode; // Rendered at the end of the toolbar (e.g. the sort select)
+}
+
+export default function FilterPanel({ filters, onApply, actions }: FilterPanelProps) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState({
+    minPrice: filters.minPrice?.toString() || '',
+    maxPrice: filters.maxPrice?.toString() || '',
+    currency: filters.currency || BASE_CURRENCY,
+    location: filters.location || '',
+    hasPhotos: !!filters.hasPhotos,
+    hasVideos: !!filters.hasVideos,
+    postedWithin: filters.postedWithin || '',
+    availability: filters.availability || 'available',
+  });
+
+  const active = hasActiveFilters(filters);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onApply({
+      minPrice: draft.minPrice ? Number(draft.minPrice) : undefined,
+      maxPrice: draft.maxPrice ? Number(draft.maxPrice) : undefined,
+      currency: draft.currency,
+      location: draft.location.trim() || undefined,
+      hasPhotos: draft.hasPhotos || undefined,
+      hasVideos: draft.hasVideos || undefined,
+      postedWithin: (draft.postedWithin || undefined) as DatePostedFilter | undefined,
+      availability: draft.availability as PostAvailability,
+    });
+    setOpen(false);
+  };
+
+  const handleReset = () => {
+    setDraft({
+      minPrice: '',
+      maxPrice: '',
+      currency: BASE_CURRENCY,
+      location: '',
+      hasPhotos: false,
+      hasVideos: false,
+      postedWithin: '',
+      availability: 'available',
+    });
+    onApply({});
+    setOpen(false);
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="w-full md:max-w-xl lg:max-w-2xl md:mx-auto mb-4 px-3 md:px-0">
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={() => setOpen(!open)}
+          className={`flex items-center space-x-2 px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+            active ? 'bg-blue-600 text-white hover:bg-blue-700' : 'bg-white border border-gray-200 text-gray-700 hover:bg-gray-50'
+          }`}
+        >
+          <SlidersHorizontal className="w-4 h-4" />
+          <span>Filtre</span>
+        </button>
+        {active && (
+          <button
+            type="button"
+            onClick={handleReset}
+            className="flex items-center space-x-1 px-3 py-2 text-sm text-gray-600 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+          >
+            <X className="w-4 h-4" />
+            <span>Șterge filtrele</span>
+          </button>
+        )}
+        {actions && <div className="ml-auto">{actions}</div>}
+      </div>
+
+      {open && (
+        <form onSubmit={handleSubmit} className="mt-3 bg-white rounded-xl border border-gray-100 shadow-sm p-4 space-y-4">
+          {/* Price */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Preț</label>
+            <div className="flex gap-2">
+              <input
+                type="number"
+                min="0"
+                value={draft.minPrice}
+                onChange={(e) => setDraft({ ...draft, minPrice: e.target.value })}
+                placeholder="De la"
+                className={inputClass}
+              />
+              <input
+                type="number"
+                min="0"
+                value={draft.maxPrice}
+                onChange={(e) => setDraft({ ...draft, maxPrice: e.target.value })}
+                placeholder="Până la"
+                className={inputClass}
+              />
+              <select
+                value={draft.currency}
+                onChange={(e) => setDraft({ ...draft, currency: e.target.value })}
+                className="px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {SUPPORTED_CURRENCIES.map((currency) => (
+                  <option key={currency} value={currency}>{currency}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {/* Location */}
+          <div>
+            <label htmlFor="filter-location" className="block text-sm font-medium text-gray-700 mb-2">Oraș</label>
+            <input
+              id="filter-location"
+              type="text"
+              value={draft.location}
+              onChange={(e) => setDraft({ ...draft, location: e.target.value })}
+              placeholder="ex: Cluj-Napoca"
+              className={inputClass}
+            />
+          </div>
+
+          {/* Media */}
+          <div className="flex flex-wrap gap-4">
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={draft.hasPhotos}
+                onChange={(e) => setDraft({ ...draft, hasPhotos: e.target.checked })}
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <span>Cu fotografii</span>
+            </label>
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={draft.hasVideos}
+                onChange={(e) => setDraft({ ...draft, hasVideos: e.target.checked })}
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <span>Cu video</span>
+            </label>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {/* Date posted */}
+            <div>
+              <label htmlFor="filter-posted" className="block text-sm font-medium text-gray-700 mb-2">Data publicării</label>
+              <select
+                id="filter-posted"
+                value={draft.postedWithin}
+                onChange={(e) => setDraft({ ...draft, postedWithin: e.target.value })}
+                className={inputClass}
+              >
+                <option value="">Oricând</option>
+                {(Object.keys(DATE_POSTED_LABELS) as DatePostedFilter[]).map((key) => (
+                  <option key={key} value={key}>{DATE_POSTED_LABELS[key]}</option>
+                ))}
+              </select>
+            </div>
+
+            {/* Availability */}
+            <div>
+              <label htmlFor="filter-availability" className="block text-sm font-medium text-gray-700 mb-2">Stare</label>
+              <select
+                id="filter-availability"
+                value={draft.availability}
+                onChange={(e) => setDraft({ ...draft, availability: e.target.value as PostAvailability })}
+                className={inputClass}
+              >
+                {(Object.keys(AVAILABILITY_LABELS) as PostAvailability[]).map((key) => (
+                  <option key={key} value={key}>{AVAILABILITY_LABELS[key]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2 pt-2">
+            <button
+              type="button"
+              onClick={handleReset}
+              className="px-4 py-2 text-sm text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              Resetează
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              Aplică filtrele
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
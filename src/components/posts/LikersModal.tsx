@@ -0,0 +1,111 @@
+'use client';
+
+/**
+ * Likers Modal Component
+ * "Cine a apreciat" list for a post, paged
+ */
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { QueryDocumentSnapshot } from 'firebase/firestore';
+import { X, Heart, Loader2 } from 'lucide-react';
+import { PostLiker } from '@/types';
+import { formatDate } from '@/lib/utils';
+import { fetchPostLikers } from '@/services/likesService';
+
+interface LikersModalProps {
+  postId: string;
+  onClose: () => void;
+}
+
+export default function LikersModal({ postId, onClose }: LikersModalProps) {
+  const [likers, setLikers] = useState<PostLiker[]>([]);
+  const [lastDoc, setLastDoc] = useState<QueryDocumentSnapshot | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+
+  useEffect(() => {
+    const loadLikers = async () => {
+      const result = await fetchPostLikers(postId);
+      setLikers(result.likers);
+      setLastDoc(result.lastDoc);
+      setHasMore(result.hasMore);
+      setIsLoading(false);
+    };
+    loadLikers();
+  }, [postId]);
+
+  const handleLoadMore = async () => {
+    if (isLoadingMore || !lastDoc) return;
+    setIsLoadingMore(true);
+    const result = await fetchPostLikers(postId, lastDoc);
+    setLikers(prev => [...prev, ...result.likers]);
+    setLastDoc(result.lastDoc);
+    setHasMore(result.hasMore);
+    setIsLoadingMore(false);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-black/50 transition-opacity" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div className="relative w-full max-w-sm transform overflow-hidden rounded-2xl bg-white shadow-xl transition-all">
+          <div className="flex items-center justify-between px-5 py-4 border-b border-gray-100">
+            <h3 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+              <Heart className="w-5 h-5 text-red-500 fill-current" />
+              Cine a apreciat
+            </h3>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          <div className="max-h-96 overflow-y-auto p-2">
+            {isLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="w-6 h-6 text-blue-600 animate-spin" />
+              </div>
+            ) : likers.length === 0 ? (
+              <p className="py-8 text-center text-sm text-gray-500">Nimeni nu a apreciat încă</p>
+            ) : (
+              <>
+                {likers.map(liker => (
+                  <Link
+                    key={liker.userId}
+                    href={`/utilizator/${liker.userId}`}
+                    className="flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-gray-50"
+                  >
+                    <div className="w-10 h-10 rounded-full overflow-hidden bg-gradient-to-br from-blue-500 to-blue-600 flex items-center justify-center flex-shrink-0">
+                      {liker.profileImage ? (
+                        <img src={liker.profileImage} alt="" className="w-full h-full object-cover" />
+                      ) : (
+                        <span className="text-white font-bold">{liker.fullName.charAt(0).toUpperCase()}</span>
+                      )}
+                    </div>
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900 truncate">{liker.fullName}</p>
+                      {liker.likedAt && <p className="text-xs text-gray-400">{formatDate(liker.likedAt)}</p>}
+                    </div>
+                  </Link>
+                ))}
+                {hasMore && (
+                  <button
+                    onClick={handleLoadMore}
+                    disabled={isLoadingMore}
+                    className="w-full py-2 text-sm font-medium text-blue-600 hover:bg-blue-50 rounded-lg transition-colors disabled:opacity-50"
+                  >
+                    {isLoadingMore ? 'Se încarcă...' : 'Mai mulți'}
+                  </button>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+'use client';
+
+/**
+ * Mention Input Component
+ * Text input with "@" autocomplete over a list of people
+ */
+
+import React, { useState, useRef, useMemo } from 'react';
+import { MentionCandidate, findMentionQuery, suggestMentions, insertMention } from '@/lib/mentions';
+
+interface MentionInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  candidates: MentionCandidate[];
+  placeholder?: string;
+  className?: string;
+  autoFocus?: boolean;
+}
+
+export default function MentionInput({
+  value,
+  onChange,
+  candidates,
+  placeholder,
+  className,
+  autoFocus,
+}: MentionInputProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [caret, setCaret] = useState<number | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [dismissed, setDismissed] = useState(false);
+
+  const mentionQuery = caret === null ? null : findMentionQuery(value, caret);
+  const query = mentionQuery?.query;
+  const suggestions = useMemo(
+    () => (query === undefined ? [] : suggestMentions(candidates, query)),
+    [candidates, query]
+  );
+  const isOpen = !dismissed && suggestions.length > 0;
+
+  const syncCaret = () => {
+    setCaret(inputRef.current?.selectionStart ?? null);
+  };
+
+  const selectSuggestion = (candidate: MentionCandidate) => {
+    if (!mentionQuery || caret === null) return;
+    const next = insertMention(value, mentionQuery.start, caret, candidate.name);
+    onChange(next.text);
+    setCaret(next.caret);
+    setActiveIndex(0);
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(next.caret, next.caret);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!isOpen) return;
+
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex((activeIndex + step + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault(); // Don't submit the comment while picking
+      selectSuggestion(suggestions[Math.min(activeIndex, suggestions.length - 1)]);
+    } else if (e.key === 'Escape') {
+      setDismissed(true);
+    }
+  };
+
+  return (
+    <div className="relative flex-1">
+      <input
+        ref={inputRef}
+        type="text"
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setCaret(e.target.selectionStart);
+          setActiveIndex(0);
+          setDismissed(false);
+        }}
+        onKeyDown={handleKeyDown}
+        onKeyUp={syncCaret}
+        onClick={syncCaret}
+        onBlur={() => setDismissed(true)}
+        onFocus={() => setDismissed(false)}
+        placeholder={placeholder}
+        autoFocus={autoFocus}
+        className={className}
+      />
+
+      {isOpen && (
+        <ul className="absolute left-0 bottom-full mb-1 w-64 max-w-full bg-white border border-gray-200 rounded-lg shadow-lg z-30 py-1">
+          {suggestions.map((candidate, index) => (
+            <li key={candidate.userId}>
+              <button
+                type="button"
+                // mousedown fires before the input's blur closes the list
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  selectSuggestion(candidate);
+                }}
+                className={`w-full flex items-center gap-2 px-3 py-1.5 text-left text-sm ${
+                  index === activeIndex ? 'bg-blue-50 text-blue-700' : 'text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                <span className="w-6 h-6 rounded-full overflow-hidden bg-gray-300 flex items-center justify-center flex-shrink-0">
+                  {candidate.image ? (
+                    <img src={candidate.image} alt="" className="w-full h-full object-cover" />
+                  ) : (
+                    <span className="text-gray-600 text-xs font-bold">{candidate.name.charAt(0)}</span>
+                  )}
+                </span>
+                <span className="truncate">{candidate.name}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -12,13 +12,18 @@
 
 import React, { useState, useCallback, useMemo, memo, useEffect } from 'react';
 import Link from 'next/link';
-import { MapPin, Clock, Share2, MoreHorizontal, ImageOff, ChevronLeft, ChevronRight, X, Play, Heart, MessageCircle, Send, Trash2 } from 'lucide-react';
-import { Post, MediaItem, Comment } from '@/types';
+import { MapPin, Clock, Share2, MoreHorizontal, ImageOff, ChevronLeft, ChevronRight, X, Play, Heart, MessageCircle, Pencil, Bookmark, Flag } from 'lucide-react';
+import { Post, MediaItem } from '@/types';
 import { formatDate, formatPrice } from '@/lib/utils';
 import OptimizedImage from '@/components/ui/OptimizedImage';
+import StatusBadge from '@/components/posts/StatusBadge';
 import LazyVideo from '@/components/ui/LazyVideo';
+import PostComments from '@/components/posts/PostComments';
+import LikersModal from '@/components/posts/LikersModal';
+import ReportModal from '@/components/reports/ReportModal';
 import { useAuth } from '@/contexts/AuthContext';
-import { likePost, unlikePost, addComment, getComments, deleteComment } from '@/services/postsService';
+import { setPostLiked, hasUserLikedPost } from '@/services/likesService';
+import { getSavedPostIds, savePost, unsavePost } from '@/services/savedService';
 
 interface PostCardProps {
   post: Post;
@@ -34,22 +39,26 @@ const PostCard = memo(function PostCard({ post, priority = false }: PostCardProp
   
   // Like state
   const [isLiked, setIsLiked] = useState(post.likes?.includes(user?.uid || '') || false);
-  const [likesCount, setLikesCount] = useState(post.likesCount || post.likes?.length || 0);
+  const [likesCount, setLikesCount] = useState(post.likesCount || 0);
   const [isLiking, setIsLiking] = useState(false);
+  const [showLikers, setShowLikers] = useState(false);
+
+  // Save state
+  const [isSaved, setIsSaved] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
   
   // Comment state
   const [showComments, setShowComments] = useState(false);
-  const [comments, setComments] = useState<Comment[]>([]);
-  const [newComment, setNewComment] = useState('');
-  const [isLoadingComments, setIsLoadingComments] = useState(false);
-  const [isSubmittingComment, setIsSubmittingComment] = useState(false);
   const [commentsCount, setCommentsCount] = useState(post.commentsCount || 0);
   
   // Share state
   const [showCopied, setShowCopied] = useState(false);
-  
-  // Deleting comment state
-  const [deletingCommentId, setDeletingCommentId] = useState<string | null>(null);
+
+  // Owner menu state
+  const [showMenu, setShowMenu] = useState(false);
+  const [showReport, setShowReport] = useState(false);
+  const [isReported, setIsReported] = useState(false);
+  const isOwner = !!user && user.uid === (post.userId || post.sellerId);
 
   // Build media array from post data
   const media: MediaItem[] = useMemo(() => {
@@ -110,11 +119,11 @@ const PostCard = memo(function PostCard({ post, priority = false }: PostCardProp
     setLikesCount(prev => wasLiked ? prev - 1 : prev + 1);
     
     try {
-      const result = wasLiked 
-        ? await unlikePost(post.id, user.uid)
-        : await likePost(post.id, user.uid);
+      const result = await setPostLiked(post, user, !wasLiked);
       
-      if (!result.success) {
+      if (result.success && result.likesCount !== undefined) {
+        setLikesCount(result.likesCount);
+      } else if (!result.success) {
         // Revert on error
         setIsLiked(wasLiked);
         setLikesCount(prev => wasLiked ? prev + 1 : prev - 1);
@@ -126,57 +135,51 @@ const PostCard = memo(function PostCard({ post, priority = false }: PostCardProp
     } finally {
       setIsLiking(false);
     }
-  }, [user, isLiked, isLiking, post.id]);
+  }, [user, isLiked, isLiking, post]);
 
-  // Load comments
-  const loadComments = useCallback(async () => {
-    if (isLoadingComments) return;
-    setIsLoadingComments(true);
-    try {
-      const fetchedComments = await getComments(post.id);
-      setComments(fetchedComments);
-    } catch (error) {
-      console.error('Error loading comments:', error);
-    } finally {
-      setIsLoadingComments(false);
+  useEffect(() => {
+    if (!user?.uid) return;
+    const checkLiked = async () => {
+      setIsLiked(await hasUserLikedPost(post, user.uid));
+    };
+    checkLiked();
+  }, [user?.uid, post]);
+
+  useEffect(() => {
+    if (!user?.uid) return;
+    const checkSaved = async () => {
+      const savedIds = await getSavedPostIds(user.uid);
+      setIsSaved(savedIds.has(post.id));
+    };
+    checkSaved();
+  }, [user?.uid, post.id]);
+
+  // Handle save/unsave
+  const handleSave = useCallback(async () => {
+    if (!user || isSaving) return;
+
+    setIsSaving(true);
+    const wasSaved = isSaved;
+    setIsSaved(!wasSaved); // Optimistic update
+
+    const result = wasSaved
+      ? await unsavePost(post.id, user.uid)
+      : await savePost(post, user.uid);
+
+    if (!result.success) {
+      setIsSaved(wasSaved);
     }
-  }, [post.id, isLoadingComments]);
+    setIsSaving(false);
+  }, [user, isSaved, isSaving, post]);
 
   // Toggle comments section
   const handleToggleComments = useCallback(() => {
-    const newShowComments = !showComments;
-    setShowComments(newShowComments);
-    if (newShowComments && comments.length === 0) {
-      loadComments();
-    }
-  }, [showComments, comments.length, loadComments]);
+    setShowComments(prev => !prev);
+  }, []);
 
-  // Submit comment
-  const handleSubmitComment = useCallback(async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!user || !newComment.trim() || isSubmittingComment) return;
-    
-    setIsSubmittingComment(true);
-    try {
-      const result = await addComment(
-        post.id,
-        user.uid,
-        user.fullName || 'Anonim',
-        user.profileImage,
-        newComment.trim()
-      );
-      
-      if (result.success && result.comment) {
-        setComments(prev => [result.comment!, ...prev]);
-        setCommentsCount(prev => prev + 1);
-        setNewComment('');
-      }
-    } catch (error) {
-      console.error('Error submitting comment:', error);
-    } finally {
-      setIsSubmittingComment(false);
-    }
-  }, [user, newComment, isSubmittingComment, post.id]);
+  const handleCommentsCountChange = useCallback((delta: number) => {
+    setCommentsCount(prev => Math.max(0, prev + delta));
+  }, []);
 
   // Handle share
   const handleShare = useCallback(async () => {
@@ -199,24 +202,6 @@ const PostCard = memo(function PostCard({ post, priority = false }: PostCardProp
     }
   }, [post.id]);
 
-  // Handle delete comment
-  const handleDeleteComment = useCallback(async (commentId: string) => {
-    if (!user || deletingCommentId) return;
-    
-    setDeletingCommentId(commentId);
-    try {
-      const result = await deleteComment(post.id, commentId);
-      if (result.success) {
-        setComments(prev => prev.filter(c => c.id !== commentId));
-        setCommentsCount(prev => Math.max(0, prev - 1));
-      }
-    } catch (error) {
-      console.error('Error deleting comment:', error);
-    } finally {
-      setDeletingCommentId(null);
-    }
-  }, [user, deletingCommentId, post.id]);
-
   // Render media item
   const renderMediaItem = useCallback((item: MediaItem, index: number) => {
     if (item.type === 'video') {
@@ -400,7 +385,9 @@ const PostCard = memo(function PostCard({ post, priority = false }: PostCardProp
 
   return (
     <>
-      <article className="bg-white md:rounded-2xl md:shadow-sm md:border md:border-gray-100 overflow-hidden md:hover:shadow-lg transition-shadow border-b-8 border-gray-100 md:border-b-0 md:mb-6">
+      <article className={`bg-white md:rounded-2xl md:shadow-sm md:border md:border-gray-100 overflow-hidden md:hover:shadow-lg transition-shadow border-b-8 border-gray-100 md:border-b-0 md:mb-6 ${
+        post.status === 'sold' ? 'opacity-80' : ''
+      }`}>
         {/* Header */}
         <div className="px-3 py-3 md:p-4 flex items-center justify-between">
           <Link href={`/utilizator/${post.userId || post.sellerId || ''}`} className="flex items-center gap-3">
@@ -437,14 +424,58 @@ const PostCard = memo(function PostCard({ post, priority = false }: PostCardProp
               </div>
             </div>
           </Link>
-          <button className="p-2 hover:bg-gray-100 rounded-full">
-            <MoreHorizontal className="w-5 h-5 text-gray-500" />
-          </button>
+          <div className="relative">
+            <button
+              onClick={() => setShowMenu(!showMenu)}
+              className="p-2 hover:bg-gray-100 rounded-full"
+            >
+              <MoreHorizontal className="w-5 h-5 text-gray-500" />
+            </button>
+            {showMenu && (
+              <>
+                <div className="fixed inset-0 z-20" onClick={() => setShowMenu(false)} />
+                <div className="absolute right-0 mt-1 w-44 bg-white rounded-xl shadow-lg border border-gray-100 py-1 z-30">
+                  {isOwner ? (
+                    <Link
+                      href={`/postare/${post.id}/editeaza`}
+                      className="flex items-center gap-2 px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+                    >
+                      <Pencil className="w-4 h-4" />
+                      <span>Editează</span>
+                    </Link>
+                  ) : user ? (
+                    <button
+                      onClick={() => {
+                        setShowMenu(false);
+                        setShowReport(true);
+                      }}
+                      disabled={isReported}
+                      className="w-full flex items-center gap-2 px-4 py-2 text-sm text-red-600 hover:bg-red-50 disabled:opacity-50"
+                    >
+                      <Flag className="w-4 h-4" />
+                      <span>{isReported ? 'Raportat' : 'Raportează'}</span>
+                    </button>
+                  ) : (
+                    <Link
+                      href="/autentificare"
+                      className="flex items-center gap-2 px-4 py-2 text-sm text-red-600 hover:bg-red-50"
+                    >
+                      <Flag className="w-4 h-4" />
+                      <span>Raportează</span>
+                    </Link>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
         </div>
 
         {/* Media Grid */}
         <div className="relative">
           {renderMediaGrid()}
+
+          {/* Status Badge */}
+          <StatusBadge status={post.status} className="absolute top-3 left-3 z-10 shadow-lg" />
           
           {/* Price Badge */}
           {post.price !== undefined && post.price > 0 && (
@@ -469,10 +500,16 @@ const PostCard = memo(function PostCard({ post, priority = false }: PostCardProp
               title={!user ? 'Conectează-te pentru a aprecia' : isLiked ? 'Elimină aprecierea' : 'Apreciază'}
             >
               <Heart className={`w-6 h-6 ${isLiked ? 'fill-current' : ''}`} />
-              {likesCount > 0 && (
-                <span className="text-sm font-medium">{likesCount}</span>
-              )}
             </button>
+            {likesCount > 0 && (
+              <button
+                onClick={() => setShowLikers(true)}
+                className="-ml-3 text-sm font-medium text-gray-600 hover:underline"
+                title="Cine a apreciat"
+              >
+                {likesCount}
+              </button>
+            )}
             
             {/* Comment Button */}
             <button 
@@ -501,101 +538,38 @@ const PostCard = memo(function PostCard({ post, priority = false }: PostCardProp
               )}
             </div>
           </div>
+
+          {/* Save Button */}
+          <button
+            onClick={handleSave}
+            disabled={!user || isSaving}
+            className={`transition-colors ${
+              !user ? 'opacity-50 cursor-not-allowed' : 'hover:text-blue-600'
+            } ${isSaved ? 'text-blue-600' : 'text-gray-600'}`}
+            title={!user ? 'Conectează-te pentru a salva' : isSaved ? 'Elimină din salvate' : 'Salvează'}
+          >
+            <Bookmark className={`w-6 h-6 ${isSaved ? 'fill-current' : ''}`} />
+          </button>
         </div>
 
+        {showReport && (
+          <ReportModal
+            target={{ type: 'post', id: post.id, label: post.title, ownerId: post.userId || post.sellerId || '' }}
+            onClose={() => setShowReport(false)}
+            onSent={() => {
+              setIsReported(true);
+              setShowReport(false);
+            }}
+          />
+        )}
+
+        {showLikers && (
+          <LikersModal postId={post.id} onClose={() => setShowLikers(false)} />
+        )}
+
         {/* Comments Section */}
         {showComments && (
-          <div className="px-3 pb-3 md:px-4 border-t border-gray-100">
-            {/* Comment Input */}
-            {user ? (
-              <form onSubmit={handleSubmitComment} className="flex items-center gap-2 py-3">
-                <div className="w-8 h-8 rounded-full overflow-hidden flex-shrink-0">
-                  {user.profileImage ? (
-                    <img src={user.profileImage} alt="" className="w-full h-full object-cover" />
-                  ) : (
-                    <div className="w-full h-full bg-blue-500 flex items-center justify-center">
-                      <span className="text-white text-sm font-bold">{user.fullName?.charAt(0) || 'U'}</span>
-                    </div>
-                  )}
-                </div>
-                <input
-                  type="text"
-                  value={newComment}
-                  onChange={(e) => setNewComment(e.target.value)}
-                  placeholder="Adaugă un comentariu..."
-                  className="flex-1 px-3 py-2 border border-gray-200 rounded-full text-sm focus:outline-none focus:border-blue-400"
-                />
-                <button
-                  type="submit"
-                  disabled={!newComment.trim() || isSubmittingComment}
-                  className={`p-2 rounded-full transition-colors ${
-                    newComment.trim() && !isSubmittingComment
-                      ? 'text-blue-500 hover:bg-blue-50'
-                      : 'text-gray-300 cursor-not-allowed'
-                  }`}
-                >
-                  <Send className="w-5 h-5" />
-                </button>
-              </form>
-            ) : (
-              <div className="py-3 text-center text-sm text-gray-500">
-                <Link href="/autentificare" className="text-blue-500 hover:underline">
-                  Conectează-te
-                </Link>
-                {' '}pentru a comenta
-              </div>
-            )}
-
-            {/* Comments List */}
-            {isLoadingComments ? (
-              <div className="py-4 text-center text-gray-500 text-sm">
-                Se încarcă comentariile...
-              </div>
-            ) : comments.length > 0 ? (
-              <div className="space-y-3 max-h-60 overflow-y-auto">
-                {comments.map((comment) => (
-                  <div key={comment.id} className="flex gap-2 group">
-                    <div className="w-8 h-8 rounded-full overflow-hidden flex-shrink-0">
-                      {comment.userImage ? (
-                        <img src={comment.userImage} alt="" className="w-full h-full object-cover" />
-                      ) : (
-                        <div className="w-full h-full bg-gray-300 flex items-center justify-center">
-                          <span className="text-gray-600 text-sm font-bold">{comment.userName?.charAt(0) || 'U'}</span>
-                        </div>
-                      )}
-                    </div>
-                    <div className="flex-1 bg-gray-50 rounded-xl px-3 py-2">
-                      <div className="flex items-center justify-between">
-                        <div className="flex items-center gap-2">
-                          <span className="font-semibold text-sm text-gray-900">{comment.userName}</span>
-                          <span className="text-xs text-gray-400">{formatDate(comment.createdAt)}</span>
-                        </div>
-                        {user?.uid === comment.userId && (
-                          <button
-                            onClick={() => handleDeleteComment(comment.id)}
-                            disabled={deletingCommentId === comment.id}
-                            className="opacity-0 group-hover:opacity-100 p-1 text-gray-400 hover:text-red-500 transition-all"
-                            title="Șterge comentariul"
-                          >
-                            {deletingCommentId === comment.id ? (
-                              <span className="w-4 h-4 block border-2 border-gray-300 border-t-gray-600 rounded-full animate-spin" />
-                            ) : (
-                              <Trash2 className="w-4 h-4" />
-                            )}
-                          </button>
-                        )}
-                      </div>
-                      <p className="text-sm text-gray-700 mt-0.5">{comment.text}</p>
-                    </div>
-                  </div>
-                ))}
-              </div>
-            ) : (
-              <div className="py-4 text-center text-gray-500 text-sm">
-                Nu există comentarii încă. Fii primul care comentează!
-              </div>
-            )}
-          </div>
+          <PostComments post={post} onCountChange={handleCommentsCountChange} />
         )}
 
         {/* Content */}
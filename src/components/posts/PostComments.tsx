@@ -0,0 +1,540 @@
+'use client';
+
+/**
+ * Post Comments Component
+ * Comments with one level of replies, each paged with "load more"
+ */
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import Link from 'next/link';
+import { QueryDocumentSnapshot } from 'firebase/firestore';
+import { Send, Trash2, CornerDownRight, Pencil, Flag } from 'lucide-react';
+import { Post, Comment } from '@/types';
+import { formatDate } from '@/lib/utils';
+import { useAuth } from '@/contexts/AuthContext';
+import { addComment, editComment, getComments, getReplies, deleteComment } from '@/services/postsService';
+import { getFollowingIds } from '@/services/followsService';
+import { getUserProfiles } from '@/services/usersService';
+import { canEditComment } from '@/lib/comments';
+import { MentionCandidate, splitMentions } from '@/lib/mentions';
+import MentionInput from '@/components/posts/MentionInput';
+import ReportModal from '@/components/reports/ReportModal';
+
+interface PostCommentsProps {
+  post: Post;
+  onCountChange: (delta: number) => void;
+}
+
+interface RepliesPage {
+  items: Comment[];
+  posted: Comment[]; // Replies the user just wrote, shown after the ones not loaded yet
+  lastDoc: QueryDocumentSnapshot<Comment> | null;
+  hasMore: boolean;
+  isLoading: boolean;
+}
+
+const EMPTY_REPLIES_PAGE: RepliesPage = { items: [], posted: [], lastDoc: null, hasMore: false, isLoading: false };
+
+// Applies a change to both the loaded and the just-posted replies of a thread
+function updateReplies(page: RepliesPage, update: (list: Comment[]) => Comment[]): RepliesPage {
+  return { ...page, items: update(page.items), posted: update(page.posted) };
+}
+
+function CommentText({ comment }: { comment: Comment }) {
+  return (
+    <p className="text-sm text-gray-700 mt-0.5 break-words">
+      {splitMentions(comment.text, comment.mentions).map((segment, index) =>
+        segment.userId ? (
+          <Link key={index} href={`/utilizator/${segment.userId}`} className="font-medium text-blue-600 hover:underline">
+            {segment.text}
+          </Link>
+        ) : (
+          <React.Fragment key={index}>{segment.text}</React.Fragment>
+        )
+      )}
+    </p>
+  );
+}
+
+// Appends without duplicates, e.g. a comment posted before its page was loaded
+function mergeComments(existing: Comment[], incoming: Comment[]): Comment[] {
+  const ids = new Set(existing.map(c => c.id));
+  return [...existing, ...incoming.filter(c => !ids.has(c.id))];
+}
+
+export default function PostComments({ post, onCountChange }: PostCommentsProps) {
+  const { user } = useAuth();
+  const [comments, setComments] = useState<Comment[]>([]);
+  const [lastDoc, setLastDoc] = useState<QueryDocumentSnapshot<Comment> | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [replies, setReplies] = useState<Record<string, RepliesPage>>({});
+  const [newComment, setNewComment] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [replyingTo, setReplyingTo] = useState<Comment | null>(null);
+  const [replyText, setReplyText] = useState('');
+  const [isSubmittingReply, setIsSubmittingReply] = useState(false);
+  const [replyError, setReplyError] = useState<string | null>(null);
+  const [deletingCommentId, setDeletingCommentId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+  const [isSavingEdit, setIsSavingEdit] = useState(false);
+  const [editError, setEditError] = useState<string | null>(null);
+  const [followedUsers, setFollowedUsers] = useState<MentionCandidate[]>([]);
+  const [reportingComment, setReportingComment] = useState<Comment | null>(null);
+  const [reportedIds, setReportedIds] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    const loadComments = async () => {
+      const result = await getComments(post.id);
+      setComments(result.comments);
+      setLastDoc(result.lastDoc);
+      setHasMore(result.hasMore);
+      setIsLoading(false);
+    };
+    loadComments();
+  }, [post.id]);
+
+  useEffect(() => {
+    if (!user?.uid) return;
+    const loadFollowedUsers = async () => {
+      const profiles = await getUserProfiles(await getFollowingIds(user.uid));
+      setFollowedUsers(Object.values(profiles).map(profile => ({
+        userId: profile.id,
+        name: profile.fullName,
+        image: profile.profileImage,
+      })));
+    };
+    loadFollowedUsers();
+  }, [user?.uid]);
+
+  // People who can be @mentioned: the post's author, everyone in the loaded threads and the people the user follows
+  const mentionCandidates = useMemo(() => {
+    const byId = new Map<string, MentionCandidate>();
+    const add = (userId: string | undefined, name: string | undefined, image?: string) => {
+      if (userId && name && userId !== user?.uid && !byId.has(userId)) {
+        byId.set(userId, { userId, name, image });
+      }
+    };
+
+    add(post.userId || post.sellerId, post.userName, post.userImage);
+    [...comments, ...Object.values(replies).flatMap(page => [...page.items, ...page.posted])].forEach(comment => {
+      add(comment.userId, comment.userName, comment.userImage);
+      comment.mentions.forEach(mention => add(mention.userId, mention.name));
+    });
+    followedUsers.forEach(followed => add(followed.userId, followed.name, followed.image));
+    return Array.from(byId.values());
+  }, [post, comments, replies, followedUsers, user?.uid]);
+
+  const handleLoadMore = useCallback(async () => {
+    if (isLoadingMore || !lastDoc) return;
+    setIsLoadingMore(true);
+    const result = await getComments(post.id, lastDoc);
+    setComments(prev => mergeComments(prev, result.comments));
+    setLastDoc(result.lastDoc);
+    setHasMore(result.hasMore);
+    setIsLoadingMore(false);
+  }, [post.id, lastDoc, isLoadingMore]);
+
+  const handleLoadReplies = useCallback(async (parent: Comment) => {
+    const page = replies[parent.id];
+    if (page?.isLoading) return;
+
+    setReplies(prev => ({
+      ...prev,
+      [parent.id]: { ...(prev[parent.id] || EMPTY_REPLIES_PAGE), isLoading: true },
+    }));
+    const result = await getReplies(post.id, parent.id, page?.lastDoc);
+    setReplies(prev => {
+      const items = mergeComments(prev[parent.id]?.items || [], result.replies);
+      const loadedIds = new Set(items.map(c => c.id));
+      return {
+        ...prev,
+        [parent.id]: {
+          items,
+          // Once the page holding a just-posted reply loads, it's shown in its place
+          posted: (prev[parent.id]?.posted || []).filter(c => !loadedIds.has(c.id)),
+          lastDoc: result.lastDoc,
+          hasMore: result.hasMore,
+          isLoading: false,
+        },
+      };
+    });
+  }, [post.id, replies]);
+
+  const handleSubmitComment = useCallback(async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !newComment.trim() || isSubmitting) return;
+
+    setIsSubmitting(true);
+    setSubmitError(null);
+    const result = await addComment(
+      post,
+      user.uid,
+      user.fullName || 'Anonim',
+      user.profileImage,
+      newComment.trim(),
+      undefined,
+      mentionCandidates
+    );
+    if (result.success && result.comment) {
+      setComments(prev => [result.comment!, ...prev]);
+      onCountChange(1);
+      setNewComment('');
+    } else {
+      setSubmitError(result.error || 'Eroare la adăugarea comentariului');
+    }
+    setIsSubmitting(false);
+  }, [user, newComment, isSubmitting, post, mentionCandidates, onCountChange]);
+
+  const handleSubmitReply = useCallback(async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !replyingTo || !replyText.trim() || isSubmittingReply) return;
+
+    setIsSubmittingReply(true);
+    setReplyError(null);
+    const parent = replyingTo;
+    const result = await addComment(
+      post,
+      user.uid,
+      user.fullName || 'Anonim',
+      user.profileImage,
+      replyText.trim(),
+      parent,
+      mentionCandidates
+    );
+    if (result.success && result.comment) {
+      const reply = result.comment;
+      setReplies(prev => {
+        // Earlier replies that weren't loaded yet stay behind "load more", above this one
+        const page = prev[parent.id] || { ...EMPTY_REPLIES_PAGE, hasMore: parent.repliesCount > 0 };
+        return page.hasMore
+          ? { ...prev, [parent.id]: { ...page, posted: [...page.posted, reply] } }
+          : { ...prev, [parent.id]: { ...page, items: [...page.items, reply] } };
+      });
+      setComments(prev => prev.map(c => c.id === parent.id ? { ...c, repliesCount: c.repliesCount + 1 } : c));
+      onCountChange(1);
+      setReplyText('');
+      setReplyingTo(null);
+    } else {
+      setReplyError(result.error || 'Eroare la adăugarea răspunsului');
+    }
+    setIsSubmittingReply(false);
+  }, [user, replyingTo, replyText, isSubmittingReply, post, mentionCandidates, onCountChange]);
+
+  const handleDelete = useCallback(async (comment: Comment) => {
+    if (!user || deletingCommentId) return;
+
+    setDeletingCommentId(comment.id);
+    const result = await deleteComment(post.id, comment.id, comment.parentId);
+    if (result.success) {
+      const parentId = comment.parentId;
+      if (parentId) {
+        setReplies(prev => ({
+          ...prev,
+          [parentId]: updateReplies(prev[parentId], list => list.filter(r => r.id !== comment.id)),
+        }));
+        setComments(prev => prev.map(c => c.id === parentId ? { ...c, repliesCount: Math.max(0, c.repliesCount - 1) } : c));
+        onCountChange(-1);
+      } else {
+        // The whole thread goes
+        setComments(prev => prev.filter(c => c.id !== comment.id));
+        setReplies(prev => {
+          const next = { ...prev };
+          delete next[comment.id];
+          return next;
+        });
+        onCountChange(-(1 + comment.repliesCount));
+      }
+    }
+    setDeletingCommentId(null);
+  }, [user, deletingCommentId, post.id, onCountChange]);
+
+  const startEditing = (comment: Comment) => {
+    setEditingId(comment.id);
+    setEditText(comment.text);
+    setEditError(null);
+  };
+
+  const handleSaveEdit = useCallback(async (e: React.FormEvent, comment: Comment) => {
+    e.preventDefault();
+    if (!user || !editText.trim() || isSavingEdit) return;
+
+    setIsSavingEdit(true);
+    setEditError(null);
+    // Mentions already in the comment stay resolvable even if their authors aren't loaded
+    const result = await editComment(comment, user.uid, editText, [...comment.mentions, ...mentionCandidates]);
+    if (result.success && result.comment) {
+      const { text, mentions, editedAt } = result.comment;
+      const applyEdit = (c: Comment) => c.id === comment.id ? { ...c, text, mentions, editedAt } : c;
+      if (comment.parentId) {
+        const parentId = comment.parentId;
+        setReplies(prev => ({ ...prev, [parentId]: updateReplies(prev[parentId], list => list.map(applyEdit)) }));
+      } else {
+        setComments(prev => prev.map(applyEdit));
+      }
+      setEditingId(null);
+    } else {
+      setEditError(result.error || 'Eroare la editarea comentariului');
+    }
+    setIsSavingEdit(false);
+  }, [user, editText, isSavingEdit, mentionCandidates]);
+
+  const renderComment = (comment: Comment) => (
+    <div className="flex gap-2 group">
+      <div className={`${comment.parentId ? 'w-6 h-6' : 'w-8 h-8'} rounded-full overflow-hidden flex-shrink-0`}>
+        {comment.userImage ? (
+          <img src={comment.userImage} alt="" className="w-full h-full object-cover" />
+        ) : (
+          <div className="w-full h-full bg-gray-300 flex items-center justify-center">
+            <span className="text-gray-600 text-sm font-bold">{comment.userName?.charAt(0) || 'U'}</span>
+          </div>
+        )}
+      </div>
+      <div className="flex-1 min-w-0">
+        <div className="bg-gray-50 rounded-xl px-3 py-2">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <span className="font-semibold text-sm text-gray-900">{comment.userName}</span>
+              <span className="text-xs text-gray-400">{formatDate(comment.createdAt)}</span>
+              {comment.editedAt && <span className="text-xs text-gray-400">· editat</span>}
+            </div>
+            {user?.uid === comment.userId && editingId !== comment.id && (
+              <div className="flex items-center">
+                {canEditComment(comment, user.uid) && (
+                  <button
+                    onClick={() => startEditing(comment)}
+                    className="opacity-0 group-hover:opacity-100 p-1 text-gray-400 hover:text-blue-500 transition-all"
+                    title="Editează"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                )}
+                <button
+                  onClick={() => handleDelete(comment)}
+                  disabled={deletingCommentId === comment.id}
+                  className="opacity-0 group-hover:opacity-100 p-1 text-gray-400 hover:text-red-500 transition-all"
+                  title={comment.parentId ? 'Șterge răspunsul' : 'Șterge comentariul'}
+                >
+                  {deletingCommentId === comment.id ? (
+                    <span className="w-4 h-4 block border-2 border-gray-300 border-t-gray-600 rounded-full animate-spin" />
+                  ) : (
+                    <Trash2 className="w-4 h-4" />
+                  )}
+                </button>
+              </div>
+            )}
+            {user && user.uid !== comment.userId && (
+              <button
+                onClick={() => setReportingComment(comment)}
+                disabled={reportedIds.has(comment.id)}
+                className="opacity-0 group-hover:opacity-100 p-1 text-gray-400 hover:text-red-500 transition-all disabled:text-red-400"
+                title={reportedIds.has(comment.id) ? 'Raportat' : 'Raportează'}
+              >
+                <Flag className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+          {editingId === comment.id ? (
+            <form onSubmit={(e) => handleSaveEdit(e, comment)} className="mt-1">
+              <MentionInput
+                value={editText}
+                onChange={setEditText}
+                candidates={mentionCandidates}
+                autoFocus
+                className="w-full px-3 py-1.5 border border-gray-200 rounded-lg text-sm focus:outline-none focus:border-blue-400"
+              />
+              {editError && <p className="text-xs text-red-600 mt-1">{editError}</p>}
+              <div className="flex gap-2 mt-1">
+                <button
+                  type="submit"
+                  disabled={!editText.trim() || isSavingEdit}
+                  className="text-xs font-medium text-blue-600 hover:text-blue-700 disabled:opacity-50"
+                >
+                  {isSavingEdit ? 'Se salvează...' : 'Salvează'}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setEditingId(null)}
+                  className="text-xs font-medium text-gray-500 hover:text-gray-700"
+                >
+                  Anulează
+                </button>
+              </div>
+            </form>
+          ) : (
+            <CommentText comment={comment} />
+          )}
+        </div>
+        {user && !comment.parentId && (
+          <button
+            onClick={() => {
+              setReplyingTo(replyingTo?.id === comment.id ? null : comment);
+              setReplyText('');
+              setReplyError(null);
+            }}
+            className="text-xs font-medium text-gray-500 hover:text-blue-600 px-3 mt-0.5"
+          >
+            Răspunde
+          </button>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="px-3 pb-3 md:px-4 border-t border-gray-100">
+      {/* Comment Input */}
+      {user ? (
+        <>
+          <form onSubmit={handleSubmitComment} className="flex items-center gap-2 py-3">
+            <div className="w-8 h-8 rounded-full overflow-hidden flex-shrink-0">
+              {user.profileImage ? (
+                <img src={user.profileImage} alt="" className="w-full h-full object-cover" />
+              ) : (
+                <div className="w-full h-full bg-blue-500 flex items-center justify-center">
+                  <span className="text-white text-sm font-bold">{user.fullName?.charAt(0) || 'U'}</span>
+                </div>
+              )}
+            </div>
+            <MentionInput
+              value={newComment}
+              onChange={setNewComment}
+              candidates={mentionCandidates}
+              placeholder="Adaugă un comentariu..."
+              className="w-full px-3 py-2 border border-gray-200 rounded-full text-sm focus:outline-none focus:border-blue-400"
+            />
+            <button
+              type="submit"
+              disabled={!newComment.trim() || isSubmitting}
+              className={`p-2 rounded-full transition-colors ${
+                newComment.trim() && !isSubmitting
+                  ? 'text-blue-500 hover:bg-blue-50'
+                  : 'text-gray-300 cursor-not-allowed'
+              }`}
+            >
+              <Send className="w-5 h-5" />
+            </button>
+          </form>
+          {submitError && <p className="text-xs text-red-600 -mt-1 mb-2">{submitError}</p>}
+        </>
+      ) : (
+        <div className="py-3 text-center text-sm text-gray-500">
+          <Link href="/autentificare" className="text-blue-500 hover:underline">
+            Conectează-te
+          </Link>
+          {' '}pentru a comenta
+        </div>
+      )}
+
+      {/* Comments List */}
+      {isLoading ? (
+        <div className="py-4 text-center text-gray-500 text-sm">
+          Se încarcă comentariile...
+        </div>
+      ) : comments.length > 0 ? (
+        <div className="space-y-3">
+          {comments.map((comment) => {
+            const page = replies[comment.id];
+            const unloadedReplies = comment.repliesCount - (page?.items.length || 0) - (page?.posted.length || 0);
+
+            return (
+              <div key={comment.id}>
+                {renderComment(comment)}
+
+                {/* Replies */}
+                {(comment.repliesCount > 0 || !!page?.items.length || replyingTo?.id === comment.id) && (
+                <div className="ml-10 mt-2 space-y-2">
+                  {page?.items.map(reply => (
+                    <div key={reply.id}>{renderComment(reply)}</div>
+                  ))}
+
+                  {(page ? page.hasMore : comment.repliesCount > 0) && unloadedReplies > 0 && (
+                    <button
+                      onClick={() => handleLoadReplies(comment)}
+                      disabled={page?.isLoading}
+                      className="flex items-center gap-1 text-xs font-medium text-blue-600 hover:text-blue-700 disabled:opacity-50"
+                    >
+                      <CornerDownRight className="w-3.5 h-3.5" />
+                      {page?.isLoading
+                        ? 'Se încarcă...'
+                        : page?.items.length
+                          ? `Mai multe răspunsuri (${unloadedReplies})`
+                          : `Vezi ${unloadedReplies === 1 ? 'răspunsul' : `cele ${unloadedReplies} răspunsuri`}`}
+                    </button>
+                  )}
+
+                  {page?.posted.map(reply => (
+                    <div key={reply.id}>{renderComment(reply)}</div>
+                  ))}
+
+                  {replyingTo?.id === comment.id && (
+                    <form onSubmit={handleSubmitReply} className="flex items-center gap-2">
+                      <MentionInput
+                        value={replyText}
+                        onChange={setReplyText}
+                        candidates={mentionCandidates}
+                        placeholder={`Răspunde-i lui ${comment.userName}...`}
+                        autoFocus
+                        className="w-full px-3 py-1.5 border border-gray-200 rounded-full text-sm focus:outline-none focus:border-blue-400"
+                      />
+                      <button
+                        type="submit"
+                        disabled={!replyText.trim() || isSubmittingReply}
+                        className={`p-1.5 rounded-full transition-colors ${
+                          replyText.trim() && !isSubmittingReply
+                            ? 'text-blue-500 hover:bg-blue-50'
+                            : 'text-gray-300 cursor-not-allowed'
+                        }`}
+                      >
+                        <Send className="w-4 h-4" />
+                      </button>
+                    </form>
+                  )}
+                  {replyingTo?.id === comment.id && replyError && (
+                    <p className="text-xs text-red-600">{replyError}</p>
+                  )}
+                </div>
+                )}
+              </div>
+            );
+          })}
+
+          {hasMore && (
+            <button
+              onClick={handleLoadMore}
+              disabled={isLoadingMore}
+              className="w-full py-2 text-sm font-medium text-blue-600 hover:bg-blue-50 rounded-lg transition-colors disabled:opacity-50"
+            >
+              {isLoadingMore ? 'Se încarcă...' : 'Mai multe comentarii'}
+            </button>
+          )}
+        </div>
+      ) : (
+        <div className="py-4 text-center text-gray-500 text-sm">
+          Nu există comentarii încă. Fii primul care comentează!
+        </div>
+      )}
+
+      {reportingComment && (
+        <ReportModal
+          target={{
+            type: 'comment',
+            id: reportingComment.id,
+            postId: post.id,
+            parentId: reportingComment.parentId,
+            label: reportingComment.text,
+            ownerId: reportingComment.userId,
+          }}
+          onClose={() => setReportingComment(null)}
+          onSent={() => {
+            setReportedIds(prev => new Set(prev).add(reportingComment.id));
+            setReportingComment(null);
+          }}
+        />
+      )}
+    </div>
+  );
+}
@@ -12,29 +12,39 @@
 
 import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { QueryDocumentSnapshot } from 'firebase/firestore';
-import { RefreshCw } from 'lucide-react';
-import { Post, CategoryKey } from '@/types';
-import { fetchPosts, fetchAllPosts } from '@/services/postsService';
+import { RefreshCw, Search, Loader2 } from 'lucide-react';
+import { Post, CategoryKey, PostFilters, PostSort } from '@/types';
+import { hasActiveFilters } from '@/lib/filters';
+import { fetchPosts, fetchFollowingPosts } from '@/services/postsService';
 import PostCard from '@/components/posts/PostCard';
 
 // Constants
 const INITIAL_LOAD_COUNT = 5;
 const PREFETCH_THRESHOLD = 800;
+const MAX_EMPTY_ROUNDS = 3; // Pages a sparse filter may scan before asking to go on
 
 
 interface PostFeedProps {
   category?: CategoryKey | null;
   initialPosts?: Post[];
   userId?: string;
+  filters?: PostFilters;
+  sort?: PostSort;
+  followingOf?: string; // Only posts from the users this user follows ("Urmăriți")
 }
 
-export default function PostFeed({ category, initialPosts = [], userId }: PostFeedProps) {
+// Stable default so the fetch callbacks don't change on every render
+const NO_FILTERS: PostFilters = {};
+
+export default function PostFeed({ category, initialPosts = [], userId, filters = NO_FILTERS, sort = 'newest', followingOf }: PostFeedProps) {
   // Core state
   const [posts, setPosts] = useState<Post[]>(initialPosts);
   const [lastDoc, setLastDoc] = useState<QueryDocumentSnapshot | null>(null);
   const [hasMore, setHasMore] = useState(!userId);
   const [isInitialLoad, setIsInitialLoad] = useState(initialPosts.length === 0);
   const [isPrefetching, setIsPrefetching] = useState(false);
+  const [isSearchPaused, setIsSearchPaused] = useState(false); // Stopped after MAX_EMPTY_ROUNDS empty pages
+  const [isSearching, setIsSearching] = useState(false);
   
   // Refs
   const feedRef = useRef<HTMLDivElement>(null);
@@ -50,40 +60,59 @@ export default function PostFeed({ category, initialPosts = [], userId }: PostFe
     return newPosts.filter(p => !existingIds.has(p.id));
   }, []);
 
+  // Next page of whichever feed this is
+  const fetchPage = useCallback((cursor: QueryDocumentSnapshot | null) => (
+    followingOf ? fetchFollowingPosts(followingOf, cursor) : fetchPosts(category, cursor, filters, sort)
+  ), [category, filters, sort, followingOf]);
+
+  // A sparse filter can scan a whole page without a match; try a few more pages, then
+  // stop and let the user decide whether to keep searching (every page is billed reads)
+  const fetchNonEmptyPage = useCallback(async (cursor: QueryDocumentSnapshot | null) => {
+    let result = await fetchPage(cursor);
+    for (let round = 1; round < MAX_EMPTY_ROUNDS && result.posts.length === 0 && result.hasMore && result.lastDoc; round++) {
+      result = await fetchPage(result.lastDoc);
+    }
+    return result;
+  }, [fetchPage]);
+
   // Load initial posts
   const loadInitialPosts = useCallback(async () => {
     if (userId || hasInitializedRef.current) return;
     hasInitializedRef.current = true;
     
     try {
-      const result = category 
-        ? await fetchPosts(category, null)
-        : await fetchAllPosts(null);
+      const result = await fetchNonEmptyPage(null);
       
       const postsArray = Array.isArray(result.posts) ? result.posts : [];
       
       setPosts(postsArray);
       setLastDoc(result.lastDoc);
       setHasMore(result.hasMore);
+      setIsSearchPaused(postsArray.length === 0 && result.hasMore);
       setIsInitialLoad(false);
     } catch (err) {
       console.error('Error loading posts:', err);
       setIsInitialLoad(false);
     }
-  }, [category, userId]);
+  }, [fetchNonEmptyPage, userId]);
 
   // Prefetch next batch (runs in background)
   const prefetchNextBatch = useCallback(async () => {
-    if (isPrefetching || !hasMore || userId || prefetchedPostsRef.current.length > 0) return;
+    if (isPrefetching || !hasMore || isSearchPaused || userId || prefetchedPostsRef.current.length > 0) return;
     
     setIsPrefetching(true);
     
     try {
-      const result = category 
-        ? await fetchPosts(category, lastDoc)
-        : await fetchAllPosts(lastDoc);
+      const result = await fetchNonEmptyPage(lastDoc);
       
       const postsArray = Array.isArray(result.posts) ? result.posts : [];
+      if (postsArray.length === 0) {
+        // Nothing found in the scanned pages; resume from where the scan stopped
+        setLastDoc(result.lastDoc);
+        setHasMore(result.hasMore);
+        setIsSearchPaused(result.hasMore);
+        return;
+      }
       prefetchedPostsRef.current = postsArray;
       prefetchedLastDocRef.current = result.lastDoc;
       prefetchHasMoreRef.current = result.hasMore;
@@ -92,11 +121,28 @@ export default function PostFeed({ category, initialPosts = [], userId }: PostFe
     } finally {
       setIsPrefetching(false);
     }
-  }, [category, lastDoc, hasMore, isPrefetching, userId]);
+  }, [fetchNonEmptyPage, lastDoc, hasMore, isPrefetching, isSearchPaused, userId]);
+
+  // Fetch the next page directly and append it
+  const fetchMorePosts = useCallback(async () => {
+    try {
+      const result = await fetchNonEmptyPage(lastDoc);
+      
+      const postsArray = Array.isArray(result.posts) ? result.posts : [];
+      const newPosts = deduplicatePosts(postsArray, posts);
+      
+      setPosts(prev => [...prev, ...newPosts]);
+      setLastDoc(result.lastDoc);
+      setHasMore(result.hasMore);
+      setIsSearchPaused(postsArray.length === 0 && result.hasMore);
+    } catch (err) {
+      console.error('Error loading more posts:', err);
+    }
+  }, [fetchNonEmptyPage, lastDoc, posts, deduplicatePosts]);
 
   // Load more posts (uses prefetched data if available)
   const loadMorePosts = useCallback(() => {
-    if (!hasMore || userId) return;
+    if (!hasMore || isSearchPaused || userId) return;
     
     // Use prefetched posts if available
     if (prefetchedPostsRef.current.length > 0) {
@@ -113,25 +159,16 @@ export default function PostFeed({ category, initialPosts = [], userId }: PostFe
     }
     
     // Fallback: fetch directly
-    const fetchMore = async () => {
-      try {
-        const result = category 
-          ? await fetchPosts(category, lastDoc)
-          : await fetchAllPosts(lastDoc);
-        
-        const postsArray = Array.isArray(result.posts) ? result.posts : [];
-        const newPosts = deduplicatePosts(postsArray, posts);
-        
-        setPosts(prev => [...prev, ...newPosts]);
-        setLastDoc(result.lastDoc);
-        setHasMore(result.hasMore);
-      } catch (err) {
-        console.error('Error loading more posts:', err);
-      }
-    };
-    
-    fetchMore();
-  }, [category, lastDoc, hasMore, posts, deduplicatePosts, userId]);
+    fetchMorePosts();
+  }, [fetchMorePosts, hasMore, isSearchPaused, posts, deduplicatePosts, userId]);
+
+  // The user asked to scan further after a paused search
+  const handleContinueSearch = useCallback(async () => {
+    if (isSearching) return;
+    setIsSearching(true);
+    await fetchMorePosts();
+    setIsSearching(false);
+  }, [fetchMorePosts, isSearching]);
 
   // Initialize on mount
   useEffect(() => {
@@ -149,7 +186,7 @@ export default function PostFeed({ category, initialPosts = [], userId }: PostFe
     const observer = new IntersectionObserver(
       (entries) => {
         const [entry] = entries;
-        if (entry.isIntersecting && hasMore) {
+        if (entry.isIntersecting && hasMore && !isSearchPaused) {
           loadMorePosts();
         }
       },
@@ -162,7 +199,7 @@ export default function PostFeed({ category, initialPosts = [], userId }: PostFe
     observer.observe(sentinelRef.current);
     
     return () => observer.disconnect();
-  }, [hasMore, loadMorePosts, userId]);
+  }, [hasMore, isSearchPaused, loadMorePosts, userId]);
 
   // Prefetch when scrolling near bottom
   useEffect(() => {
@@ -189,6 +226,7 @@ export default function PostFeed({ category, initialPosts = [], userId }: PostFe
     setPosts([]);
     setLastDoc(null);
     setHasMore(!userId);
+    setIsSearchPaused(false);
     setIsInitialLoad(true);
     
     setTimeout(() => {
@@ -207,6 +245,25 @@ export default function PostFeed({ category, initialPosts = [], userId }: PostFe
     ))
   ), [posts]);
 
+  // A paused search says what it has found so far and offers to go on
+  const continueSearch = (
+    <div className="flex flex-col items-center text-center py-6">
+      <p className="text-gray-500 text-sm max-w-sm mb-3">
+        {posts.length === 0
+          ? 'Nicio postare găsită până acum pentru filtrele alese.'
+          : 'Nu am mai găsit postări potrivite în anunțurile verificate.'}
+      </p>
+      <button
+        onClick={handleContinueSearch}
+        disabled={isSearching}
+        className="inline-flex items-center gap-2 px-4 py-2 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+      >
+        {isSearching ? <Loader2 className="w-4 h-4 animate-spin" /> : <Search className="w-4 h-4" />}
+        Caută mai departe
+      </button>
+    </div>
+  );
+
   // Initial loading - show minimal skeleton
   if (isInitialLoad && posts.length === 0) {
     return (
@@ -236,8 +293,8 @@ export default function PostFeed({ category, initialPosts = [], userId }: PostFe
     );
   }
 
-  // Empty state
-  if (!isInitialLoad && posts.length === 0) {
+  // Empty state, only once there is nothing left to load
+  if (!isInitialLoad && posts.length === 0 && !hasMore) {
     return (
       <div className="flex flex-col items-center justify-center py-12 text-center">
         <div className="w-24 h-24 bg-gray-100 rounded-full flex items-center justify-center mb-4">
@@ -247,7 +304,11 @@ export default function PostFeed({ category, initialPosts = [], userId }: PostFe
           Nicio postare
         </h3>
         <p className="text-gray-500 max-w-sm">
-          Nu există postări în această categorie. Fii primul care adaugă o postare!
+          {followingOf
+            ? 'Persoanele pe care le urmărești nu au postări active. Urmărește vânzători din profilul lor.'
+            : hasActiveFilters(filters)
+            ? 'Nicio postare nu corespunde filtrelor alese. Încearcă să le modifici.'
+            : 'Nu există postări în această categorie. Fii primul care adaugă o postare!'}
         </p>
       </div>
     );
@@ -272,6 +333,8 @@ export default function PostFeed({ category, initialPosts = [], userId }: PostFe
         {postCards}
       </div>
 
+      {isSearchPaused && hasMore && continueSearch}
+
       {/* Infinite scroll sentinel */}
       <div ref={sentinelRef} className="h-10 flex items-center justify-center">
         {!hasMore && posts.length > 0 && (
@@ -0,0 +1,62 @@
+'use client';
+
+/**
+ * Save Search Button Component
+ * Saves the current keywords or category with filters so new matches raise alerts
+ */
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { BellPlus, Check, Loader2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { createSavedSearch } from '@/services/savedSearchesService';
+import { SavedSearch } from '@/types';
+
+type SaveSearchButtonProps = Pick<SavedSearch, 'query' | 'category' | 'filters'>;
+
+export default function SaveSearchButton({ query, category, filters }: SaveSearchButtonProps) {
+  const { user } = useAuth();
+  const [isSaving, setIsSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!user) return null;
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    const result = await createSavedSearch(user.uid, { query, category, filters });
+    if (result.success) {
+      setSaved(true);
+    } else {
+      setError(result.error || 'Eroare la salvarea căutării');
+    }
+    setIsSaving(false);
+  };
+
+  if (saved) {
+    return (
+      <span className="flex items-center space-x-1 text-sm text-green-700">
+        <Check className="w-4 h-4" />
+        <span>Căutare salvată.</span>
+        <Link href="/setari" className="text-blue-600 hover:underline">Gestionează</Link>
+      </span>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <button
+        type="button"
+        onClick={handleSave}
+        disabled={isSaving}
+        className="flex items-center space-x-2 px-3 py-2 bg-white border border-gray-200 rounded-lg text-sm text-gray-700 hover:bg-gray-50 transition-colors disabled:opacity-50"
+        title="Primește alerte când apar anunțuri noi pentru această căutare"
+      >
+        {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <BellPlus className="w-4 h-4" />}
+        <span>Salvează căutarea</span>
+      </button>
+      {error && <span className="text-sm text-red-600">{error}</span>}
+    </div>
+  );
+}
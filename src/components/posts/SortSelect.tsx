@@ -0,0 +1,34 @@
+'use client';
+
+/**
+ * Sort Select Component
+ * Dropdown for the feed sort order
+ */
+
+import React from 'react';
+import { ArrowUpDown } from 'lucide-react';
+import { PostSort } from '@/types';
+import { SORT_LABELS } from '@/lib/filters';
+
+interface SortSelectProps {
+  value: PostSort;
+  onChange: (sort: PostSort) => void;
+}
+
+export default function SortSelect({ value, onChange }: SortSelectProps) {
+  return (
+    <label className="flex items-center space-x-2 text-sm text-gray-600">
+      <ArrowUpDown className="w-4 h-4" />
+      <span className="sr-only">Sortează</span>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value as PostSort)}
+        className="px-3 py-2 bg-white border border-gray-200 rounded-lg text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+      >
+        {(Object.keys(SORT_LABELS) as PostSort[]).map((key) => (
+          <option key={key} value={key}>{SORT_LABELS[key]}</option>
+        ))}
+      </select>
+    </label>
+  );
+}
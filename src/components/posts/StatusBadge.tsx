@@ -0,0 +1,64 @@
+'use client';
+
+/**
+ * Status Badge Component
+ * Shows a post's status; renders nothing for active posts
+ */
+
+import React from 'react';
+import { CheckCircle, EyeOff, Clock, CalendarClock, Ban } from 'lucide-react';
+import { Post, POST_STATUS_LABELS } from '@/types';
+
+interface StatusBadgeProps {
+  status: Post['status'];
+  className?: string;
+}
+
+export default function StatusBadge({ status, className = '' }: StatusBadgeProps) {
+  if (status === 'sold') {
+    return (
+      <span className={`inline-flex items-center gap-1 px-2.5 py-1 bg-green-600 text-white text-xs font-bold uppercase tracking-wide rounded-full ${className}`}>
+        <CheckCircle className="w-3.5 h-3.5" />
+        {POST_STATUS_LABELS.sold}
+      </span>
+    );
+  }
+
+  if (status === 'inactive') {
+    return (
+      <span className={`inline-flex items-center gap-1 px-2.5 py-1 bg-gray-600 text-white text-xs font-bold uppercase tracking-wide rounded-full ${className}`}>
+        <EyeOff className="w-3.5 h-3.5" />
+        {POST_STATUS_LABELS.inactive}
+      </span>
+    );
+  }
+
+  if (status === 'expired') {
+    return (
+      <span className={`inline-flex items-center gap-1 px-2.5 py-1 bg-amber-500 text-white text-xs font-bold uppercase tracking-wide rounded-full ${className}`}>
+        <Clock className="w-3.5 h-3.5" />
+        {POST_STATUS_LABELS.expired}
+      </span>
+    );
+  }
+
+  if (status === 'scheduled') {
+    return (
+      <span className={`inline-flex items-center gap-1 px-2.5 py-1 bg-blue-600 text-white text-xs font-bold uppercase tracking-wide rounded-full ${className}`}>
+        <CalendarClock className="w-3.5 h-3.5" />
+        {POST_STATUS_LABELS.scheduled}
+      </span>
+    );
+  }
+
+  if (status === 'suspended') {
+    return (
+      <span className={`inline-flex items-center gap-1 px-2.5 py-1 bg-red-600 text-white text-xs font-bold uppercase tracking-wide rounded-full ${className}`}>
+        <Ban className="w-3.5 h-3.5" />
+        {POST_STATUS_LABELS.suspended}
+      </span>
+    );
+  }
+
+  return null;
+}
@@ -0,0 +1,123 @@
+'use client';
+
+/**
+ * Report Modal Component
+ * Sends a report about a post, comment or user to the admins
+ */
+
+import React, { useState } from 'react';
+import { X, AlertTriangle, Loader2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { submitReport } from '@/services/reportsService';
+import { reportReasonsFor } from '@/lib/reports';
+import { ReportReason, ReportTarget, ReportTargetType, REPORT_REASON_LABELS } from '@/types';
+
+const TITLES: Record<ReportTargetType, string> = {
+  post: 'Raportează postarea',
+  comment: 'Raportează comentariul',
+  user: 'Raportează utilizatorul',
+};
+
+interface ReportModalProps {
+  target: ReportTarget;
+  conversationId?: string;
+  onClose: () => void;
+  onSent: () => void;
+}
+
+export default function ReportModal({ target, conversationId, onClose, onSent }: ReportModalProps) {
+  const { user } = useAuth();
+  const [reason, setReason] = useState<ReportReason>('spam');
+  const [details, setDetails] = useState('');
+  const [isReporting, setIsReporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleReport = async () => {
+    if (!user || isReporting) return;
+
+    setIsReporting(true);
+    setError(null);
+    const result = await submitReport(user.uid, target, reason, details, conversationId);
+    if (result.success) {
+      onSent();
+    } else {
+      setError(result.error || 'Eroare la trimiterea raportului');
+      setIsReporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-black/50 transition-opacity" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div className="relative w-full max-w-md transform overflow-hidden rounded-2xl bg-white shadow-xl transition-all">
+          <button onClick={onClose} className="absolute right-4 top-4 text-gray-400 hover:text-gray-500">
+            <X className="h-5 w-5" />
+          </button>
+
+          <div className="p-6">
+            <div className="mx-auto flex h-14 w-14 items-center justify-center rounded-full bg-red-100 mb-4">
+              <AlertTriangle className="h-7 w-7 text-red-600" />
+            </div>
+
+            <h3 className="text-lg font-semibold text-gray-900 text-center mb-2">
+              {TITLES[target.type]}
+            </h3>
+            <p className="text-sm text-gray-500 text-center mb-4">
+              {conversationId
+                ? 'Raportul ajunge la administratori împreună cu această conversație.'
+                : 'Raportul ajunge la administratori, care vor verifica și vor lua măsuri.'}
+            </p>
+
+            <label className="block text-sm font-medium text-gray-700 mb-1">Motiv</label>
+            <select
+              value={reason}
+              onChange={(e) => setReason(e.target.value as ReportReason)}
+              className="w-full px-3 py-2 border border-gray-200 rounded-lg mb-3 text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {reportReasonsFor(target.type).map(option => (
+                <option key={option} value={option}>{REPORT_REASON_LABELS[option]}</option>
+              ))}
+            </select>
+
+            <label className="block text-sm font-medium text-gray-700 mb-1">Detalii (opțional)</label>
+            <textarea
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              rows={3}
+              maxLength={1000}
+              className="w-full px-3 py-2 border border-gray-200 rounded-lg mb-4 text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none"
+            />
+
+            {error && (
+              <div className="bg-red-50 text-red-700 text-sm rounded-lg p-3 mb-4">
+                {error}
+              </div>
+            )}
+
+            <div className="flex gap-3">
+              <button
+                onClick={onClose}
+                disabled={isReporting}
+                className="flex-1 px-4 py-2.5 text-gray-700 bg-gray-100 rounded-xl font-medium hover:bg-gray-200 transition-colors disabled:opacity-50"
+              >
+                Anulează
+              </button>
+              <button
+                onClick={handleReport}
+                disabled={isReporting}
+                className="flex-1 px-4 py-2.5 text-white bg-red-600 rounded-xl font-medium hover:bg-red-700 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+              >
+                {isReporting && <Loader2 className="w-4 h-4 animate-spin" />}
+                Trimite raportul
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
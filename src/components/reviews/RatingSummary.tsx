@@ -0,0 +1,32 @@
+'use client';
+
+/**
+ * Rating Summary Component
+ * A seller's average score and review count, e.g. "★ 4,5 (12 recenzii)"
+ */
+
+import React from 'react';
+import { Star } from 'lucide-react';
+import { User } from '@/types';
+import { averageRating, formatRating, reviewCountLabel } from '@/lib/reviews';
+
+interface RatingSummaryProps {
+  user: Pick<User, 'ratingCount' | 'ratingSum'>;
+  className?: string;
+}
+
+export default function RatingSummary({ user, className = '' }: RatingSummaryProps) {
+  const average = averageRating(user);
+
+  if (average === null) {
+    return <span className={`text-sm text-gray-400 ${className}`}>Fără recenzii</span>;
+  }
+
+  return (
+    <span className={`inline-flex items-center gap-1 text-sm ${className}`}>
+      <Star className="w-4 h-4 text-yellow-400 fill-current" />
+      <span className="font-semibold text-gray-900">{formatRating(average)}</span>
+      <span className="text-gray-500">({reviewCountLabel(user.ratingCount)})</span>
+    </span>
+  );
+}
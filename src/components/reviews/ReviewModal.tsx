@@ -0,0 +1,110 @@
+'use client';
+
+/**
+ * Review Modal Component
+ * Lets the buyer of a conversation rate the seller, once
+ */
+
+import React, { useState } from 'react';
+import { X, Star, Loader2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { submitReview } from '@/services/reviewsService';
+import { MAX_REVIEW_LENGTH } from '@/lib/reviews';
+import { Conversation, Review } from '@/types';
+import StarRating from '@/components/reviews/StarRating';
+
+interface ReviewModalProps {
+  conversation: Conversation;
+  sellerName: string;
+  onClose: () => void;
+  onSubmitted: (review: Review) => void;
+}
+
+export default function ReviewModal({ conversation, sellerName, onClose, onSubmitted }: ReviewModalProps) {
+  const { user } = useAuth();
+  const [rating, setRating] = useState(0);
+  const [text, setText] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async () => {
+    if (!user || isSubmitting) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    const result = await submitReview(conversation, user, rating, text);
+    if (result.success && result.review) {
+      onSubmitted(result.review);
+    } else {
+      setError(result.error || 'Eroare la trimiterea recenziei');
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-black/50 transition-opacity" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div className="relative w-full max-w-md transform overflow-hidden rounded-2xl bg-white shadow-xl transition-all">
+          <button onClick={onClose} className="absolute right-4 top-4 text-gray-400 hover:text-gray-500">
+            <X className="h-5 w-5" />
+          </button>
+
+          <div className="p-6">
+            <div className="mx-auto flex h-14 w-14 items-center justify-center rounded-full bg-yellow-100 mb-4">
+              <Star className="h-7 w-7 text-yellow-500" />
+            </div>
+
+            <h3 className="text-lg font-semibold text-gray-900 text-center mb-2">
+              Evaluează-l pe {sellerName}
+            </h3>
+            <p className="text-sm text-gray-500 text-center mb-4">
+              Recenzia apare public pe profilul vânzătorului. Poți lăsa una singură pentru această conversație.
+            </p>
+
+            <div className="flex justify-center mb-4">
+              <StarRating value={rating} onChange={setRating} className="w-8 h-8" />
+            </div>
+
+            <label className="block text-sm font-medium text-gray-700 mb-1">Recenzia ta</label>
+            <textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              rows={4}
+              maxLength={MAX_REVIEW_LENGTH}
+              placeholder="Cum a decurs tranzacția?"
+              className="w-full px-3 py-2 border border-gray-200 rounded-lg mb-4 text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none"
+            />
+
+            {error && (
+              <div className="bg-red-50 text-red-700 text-sm rounded-lg p-3 mb-4">
+                {error}
+              </div>
+            )}
+
+            <div className="flex gap-3">
+              <button
+                onClick={onClose}
+                disabled={isSubmitting}
+                className="flex-1 px-4 py-2.5 text-gray-700 bg-gray-100 rounded-xl font-medium hover:bg-gray-200 transition-colors disabled:opacity-50"
+              >
+                Anulează
+              </button>
+              <button
+                onClick={handleSubmit}
+                disabled={isSubmitting || rating === 0 || !text.trim()}
+                className="flex-1 px-4 py-2.5 text-white bg-blue-600 rounded-xl font-medium hover:bg-blue-700 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+              >
+                {isSubmitting && <Loader2 className="w-4 h-4 animate-spin" />}
+                Publică recenzia
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
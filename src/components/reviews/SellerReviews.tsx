@@ -0,0 +1,194 @@
+'use client';
+
+/**
+ * Seller Reviews Component
+ * The reviews on a profile, paged; the seller can answer each one publicly
+ */
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { QueryDocumentSnapshot } from 'firebase/firestore';
+import { CornerDownRight, Loader2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { fetchSellerReviews, replyToReview } from '@/services/reviewsService';
+import { MAX_REVIEW_LENGTH } from '@/lib/reviews';
+import { formatDate } from '@/lib/utils';
+import { Review, User } from '@/types';
+import StarRating from '@/components/reviews/StarRating';
+import RatingSummary from '@/components/reviews/RatingSummary';
+
+interface SellerReviewsProps {
+  seller: User;
+}
+
+export default function SellerReviews({ seller }: SellerReviewsProps) {
+  const { user } = useAuth();
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [lastDoc, setLastDoc] = useState<QueryDocumentSnapshot<Review> | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [replyText, setReplyText] = useState('');
+  const [isReplying, setIsReplying] = useState(false);
+  const [replyError, setReplyError] = useState<string | null>(null);
+
+  const isSeller = user?.uid === seller.id;
+
+  useEffect(() => {
+    const loadReviews = async () => {
+      const result = await fetchSellerReviews(seller.id);
+      setReviews(result.reviews);
+      setLastDoc(result.lastDoc);
+      setHasMore(result.hasMore);
+      setIsLoading(false);
+    };
+    loadReviews();
+  }, [seller.id]);
+
+  const handleLoadMore = async () => {
+    if (isLoadingMore || !lastDoc) return;
+    setIsLoadingMore(true);
+    const result = await fetchSellerReviews(seller.id, lastDoc);
+    setReviews(prev => [...prev, ...result.reviews]);
+    setLastDoc(result.lastDoc);
+    setHasMore(result.hasMore);
+    setIsLoadingMore(false);
+  };
+
+  const startReply = (review: Review) => {
+    setReplyingTo(review.id);
+    setReplyText(review.reply?.text || '');
+    setReplyError(null);
+  };
+
+  const handleReply = async (e: React.FormEvent, review: Review) => {
+    e.preventDefault();
+    if (!user || isReplying) return;
+
+    setIsReplying(true);
+    setReplyError(null);
+    const result = await replyToReview(review, user.uid, replyText);
+    if (result.success && result.reply) {
+      setReviews(prev => prev.map(r => r.id === review.id ? { ...r, reply: result.reply! } : r));
+      setReplyingTo(null);
+      setReplyText('');
+    } else {
+      setReplyError(result.error || 'Eroare la trimiterea răspunsului');
+    }
+    setIsReplying(false);
+  };
+
+  return (
+    <div id="recenzii" className="bg-white md:rounded-xl md:shadow-sm md:border md:border-gray-100 p-4 md:p-6 mb-2 md:mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-gray-900">Recenzii</h2>
+        <RatingSummary user={seller} />
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="w-6 h-6 text-blue-600 animate-spin" />
+        </div>
+      ) : reviews.length === 0 ? (
+        <p className="text-sm text-gray-500 py-4 text-center">
+          Niciun cumpărător nu a lăsat încă o recenzie.
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {reviews.map(review => (
+            <div key={review.id} className="border-b border-gray-100 pb-4 last:border-0 last:pb-0">
+              <div className="flex items-center gap-3">
+                <Link
+                  href={`/utilizator/${review.reviewerId}`}
+                  className="w-9 h-9 rounded-full bg-gradient-to-br from-blue-500 to-blue-600 overflow-hidden flex items-center justify-center flex-shrink-0"
+                >
+                  {review.reviewerImage ? (
+                    <img src={review.reviewerImage} alt="" className="w-full h-full object-cover" />
+                  ) : (
+                    <span className="text-white text-sm font-bold">{review.reviewerName.charAt(0).toUpperCase()}</span>
+                  )}
+                </Link>
+                <div className="flex-1 min-w-0">
+                  <Link href={`/utilizator/${review.reviewerId}`} className="font-medium text-gray-900 hover:text-blue-600">
+                    {review.reviewerName}
+                  </Link>
+                  <div className="flex items-center gap-2 text-xs text-gray-400">
+                    <StarRating value={review.rating} className="w-3.5 h-3.5" />
+                    <span>{formatDate(review.createdAt)}</span>
+                  </div>
+                </div>
+              </div>
+
+              <p className="text-sm text-gray-700 mt-2 whitespace-pre-wrap break-words">{review.text}</p>
+              {review.postTitle && (
+                <Link href={`/postare/${review.postId}`} className="text-xs text-blue-600 hover:underline">
+                  {review.postTitle}
+                </Link>
+              )}
+
+              {review.reply && replyingTo !== review.id && (
+                <div className="flex gap-2 mt-3 ml-4 p-3 bg-gray-50 rounded-lg">
+                  <CornerDownRight className="w-4 h-4 text-gray-400 flex-shrink-0 mt-0.5" />
+                  <div className="min-w-0">
+                    <p className="text-xs font-medium text-gray-900">Răspunsul vânzătorului</p>
+                    <p className="text-sm text-gray-700 whitespace-pre-wrap break-words">{review.reply.text}</p>
+                  </div>
+                </div>
+              )}
+
+              {isSeller && replyingTo !== review.id && (
+                <button
+                  onClick={() => startReply(review)}
+                  className="text-xs font-medium text-gray-500 hover:text-blue-600 mt-2"
+                >
+                  {review.reply ? 'Modifică răspunsul' : 'Răspunde'}
+                </button>
+              )}
+
+              {isSeller && replyingTo === review.id && (
+                <form onSubmit={(e) => handleReply(e, review)} className="mt-3 ml-4">
+                  <textarea
+                    value={replyText}
+                    onChange={(e) => setReplyText(e.target.value)}
+                    rows={2}
+                    maxLength={MAX_REVIEW_LENGTH}
+                    placeholder="Răspunde public la această recenzie..."
+                    className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none"
+                  />
+                  {replyError && <p className="text-xs text-red-600 mt-1">{replyError}</p>}
+                  <div className="flex justify-end gap-2 mt-2">
+                    <button
+                      type="button"
+                      onClick={() => setReplyingTo(null)}
+                      className="px-3 py-1.5 text-sm text-gray-600 hover:bg-gray-100 rounded-lg"
+                    >
+                      Anulează
+                    </button>
+                    <button
+                      type="submit"
+                      disabled={isReplying || !replyText.trim()}
+                      className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      {isReplying ? 'Se trimite...' : 'Publică'}
+                    </button>
+                  </div>
+                </form>
+              )}
+            </div>
+          ))}
+
+          {hasMore && (
+            <button
+              onClick={handleLoadMore}
+              disabled={isLoadingMore}
+              className="w-full py-2 text-sm font-medium text-blue-600 hover:bg-blue-50 rounded-lg transition-colors disabled:opacity-50"
+            >
+              {isLoadingMore ? 'Se încarcă...' : 'Mai multe recenzii'}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+'use client';
+
+/**
+ * Star Rating Component
+ * Shows a 1-5 score; with onChange it becomes a picker
+ */
+
+import React, { useState } from 'react';
+import { Star } from 'lucide-react';
+import { MAX_RATING } from '@/lib/reviews';
+
+interface StarRatingProps {
+  value: number;
+  onChange?: (rating: number) => void;
+  className?: string; // Star size, e.g. 'w-4 h-4'
+}
+
+export default function StarRating({ value, onChange, className = 'w-4 h-4' }: StarRatingProps) {
+  const [hovered, setHovered] = useState<number | null>(null);
+  const shown = hovered ?? value;
+
+  return (
+    <div className="inline-flex items-center gap-0.5" onMouseLeave={() => setHovered(null)}>
+      {Array.from({ length: MAX_RATING }, (_, i) => i + 1).map(star => {
+        // Averages round to the nearest whole star
+        const filled = star <= Math.round(shown);
+        const icon = (
+          <Star className={`${className} ${filled ? 'text-yellow-400 fill-current' : 'text-gray-300'}`} />
+        );
+
+        return onChange ? (
+          <button
+            key={star}
+            type="button"
+            onClick={() => onChange(star)}
+            onMouseEnter={() => setHovered(star)}
+            className="p-0.5"
+            aria-label={`${star} ${star === 1 ? 'stea' : 'stele'}`}
+          >
+            {icon}
+          </button>
+        ) : (
+          <span key={star}>{icon}</span>
+        );
+      })}
+    </div>
+  );
+}
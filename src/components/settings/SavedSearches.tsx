@@ -0,0 +1,193 @@
+'use client';
+
+/**
+ * Saved Searches Component
+ * Settings section listing the user's saved searches and the alerts they raised
+ */
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import Image from 'next/image';
+import { Bell, BellRing, Loader2, Trash2, Mail, ImageOff } from 'lucide-react';
+import {
+  checkSearchAlerts,
+  fetchSavedSearches,
+  fetchSearchAlerts,
+  setSavedSearchEmailDigest,
+  deleteSavedSearch,
+  markSearchAlertsRead,
+} from '@/services/savedSearchesService';
+import { describeSavedSearch, savedSearchHref } from '@/lib/searchAlerts';
+import { formatDate } from '@/lib/utils';
+import { SavedSearch, SearchAlert } from '@/types';
+
+interface SavedSearchesProps {
+  userId: string;
+}
+
+export default function SavedSearches({ userId }: SavedSearchesProps) {
+  const [searches, setSearches] = useState<SavedSearch[]>([]);
+  const [alerts, setAlerts] = useState<SearchAlert[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadSearches = async () => {
+      setIsLoading(true);
+      // Collect alerts for posts published since the last visit first
+      await checkSearchAlerts(userId);
+      const [savedSearches, searchAlerts] = await Promise.all([
+        fetchSavedSearches(userId),
+        fetchSearchAlerts(userId),
+      ]);
+      setSearches(savedSearches);
+      setAlerts(searchAlerts);
+      setIsLoading(false);
+    };
+    loadSearches();
+  }, [userId]);
+
+  const unreadCount = alerts.filter(alert => !alert.read).length;
+
+  const handleToggleEmail = async (search: SavedSearch) => {
+    setUpdatingId(search.id);
+    setError(null);
+    const result = await setSavedSearchEmailDigest(userId, search.id, !search.emailDigest);
+    if (result.success) {
+      setSearches(prev => prev.map(s => s.id === search.id ? { ...s, emailDigest: !s.emailDigest } : s));
+    } else {
+      setError(result.error || 'Eroare la actualizarea căutării salvate');
+    }
+    setUpdatingId(null);
+  };
+
+  const handleDelete = async (search: SavedSearch) => {
+    setUpdatingId(search.id);
+    setError(null);
+    const result = await deleteSavedSearch(userId, search.id);
+    if (result.success) {
+      setSearches(prev => prev.filter(s => s.id !== search.id));
+    } else {
+      setError(result.error || 'Eroare la ștergerea căutării salvate');
+    }
+    setUpdatingId(null);
+  };
+
+  const handleMarkRead = async () => {
+    const result = await markSearchAlertsRead(userId);
+    if (result.success) {
+      setAlerts(prev => prev.map(alert => ({ ...alert, read: true })));
+    }
+  };
+
+  return (
+    <div className="mb-6">
+      <h3 className="text-sm font-medium text-gray-500 uppercase tracking-wider mb-3 px-1 flex items-center gap-2">
+        <Bell className="w-4 h-4" />
+        Căutări salvate ({searches.length})
+      </h3>
+
+      {error && (
+        <div className="bg-red-50 text-red-700 text-sm rounded-lg p-3 mb-3">
+          {error}
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="w-6 h-6 text-blue-600 animate-spin" />
+          </div>
+        ) : searches.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-8 px-4">
+            Salvează o căutare dintr-o categorie sau din pagina de căutare ca să fii anunțat când apar postări noi.
+          </p>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {searches.map((search) => (
+              <div key={search.id} className="p-4 flex items-start gap-4">
+                <div className="flex-1 min-w-0">
+                  <Link href={savedSearchHref(search)} className="font-medium text-gray-900 hover:text-blue-600 truncate block">
+                    {search.name}
+                  </Link>
+                  {search.name !== describeSavedSearch(search) && (
+                    <p className="text-sm text-gray-500 truncate">{describeSavedSearch(search)}</p>
+                  )}
+                  <label className="inline-flex items-center gap-2 mt-2 text-xs text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={search.emailDigest}
+                      onChange={() => handleToggleEmail(search)}
+                      disabled={updatingId === search.id}
+                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    <Mail className="w-3.5 h-3.5" />
+                    <span>Rezumat pe email</span>
+                  </label>
+                </div>
+                <button
+                  onClick={() => handleDelete(search)}
+                  disabled={updatingId === search.id}
+                  className="flex-shrink-0 p-2 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
+                  title="Șterge căutarea salvată"
+                >
+                  {updatingId === search.id ? (
+                    <Loader2 className="w-5 h-5 animate-spin" />
+                  ) : (
+                    <Trash2 className="w-5 h-5" />
+                  )}
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Alerts */}
+      {alerts.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden mt-3">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100">
+            <span className="flex items-center gap-2 text-sm font-medium text-gray-900">
+              <BellRing className="w-4 h-4 text-blue-600" />
+              Anunțuri noi {unreadCount > 0 && `(${unreadCount} necitite)`}
+            </span>
+            {unreadCount > 0 && (
+              <button onClick={handleMarkRead} className="text-sm text-blue-600 hover:text-blue-700">
+                Marchează ca citite
+              </button>
+            )}
+          </div>
+          <div className="divide-y divide-gray-100 max-h-96 overflow-y-auto">
+            {alerts.map((alert) => (
+              <Link
+                key={alert.id}
+                href={`/postare/${alert.postId}`}
+                className={`flex items-center gap-3 px-4 py-3 hover:bg-gray-50 transition-colors ${alert.read ? '' : 'bg-blue-50/50'}`}
+              >
+                {alert.postImage ? (
+                  <div className="relative w-12 h-12 rounded-lg overflow-hidden bg-gray-100 flex-shrink-0">
+                    <Image src={alert.postImage} alt={alert.postTitle || 'Post image'} fill className="object-cover" />
+                  </div>
+                ) : (
+                  <div className="w-12 h-12 rounded-lg bg-gray-100 flex items-center justify-center flex-shrink-0">
+                    <ImageOff className="w-5 h-5 text-gray-300" />
+                  </div>
+                )}
+                <div className="flex-1 min-w-0">
+                  <p className={`text-sm truncate ${alert.read ? 'text-gray-700' : 'font-medium text-gray-900'}`}>
+                    {alert.postTitle || 'Fără titlu'}
+                  </p>
+                  <p className="text-xs text-gray-400 truncate">
+                    {alert.searchName} · {formatDate(alert.createdAt)}
+                  </p>
+                </div>
+                {!alert.read && <span className="w-2 h-2 bg-blue-600 rounded-full flex-shrink-0" />}
+              </Link>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,6 +3,7 @@
 /**
  * Authentication Context and Provider
  * Manages Firebase Auth state across the app
+ * A suspended user gets an explanation page in place of the app
  */
 
 import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
@@ -16,14 +17,18 @@ import {
 } from 'firebase/auth';
 import { doc, getDoc, setDoc, serverTimestamp } from 'firebase/firestore';
 import { auth, db, COLLECTIONS } from '@/lib/firebase';
-import { User } from '@/types';
-import { timestampToDate } from '@/lib/utils';
+import { User, UserSuspension } from '@/types';
+import { userDoc } from '@/lib/converters';
+import { isSuspensionActive, isSuspensionLapsed } from '@/lib/suspensions';
+import { endLapsedSuspension } from '@/services/suspensionsService';
+import SuspendedAccount from '@/components/auth/SuspendedAccount';
 
 interface AuthContextType {
   user: User | null;
   firebaseUser: FirebaseUser | null;
   loading: boolean;
   error: string | null;
+  suspension: UserSuspension | null; // Only while it is running
   signIn: (email: string, password: string) => Promise<{ success: boolean; error?: string }>;
   signUp: (email: string, password: string, userData: Partial<User>) => Promise<{ success: boolean; error?: string }>;
   signOut: () => Promise<void>;
@@ -52,26 +57,17 @@ export function AuthProvider({ children }: AuthProviderProps) {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  // Fetch user data from Firestore
+  // Fetch user data from Firestore; a suspension that ran out is cleared on the way
   const fetchUserData = async (uid: string): Promise<User | null> => {
     try {
-      const userDoc = await getDoc(doc(db, COLLECTIONS.USERS, uid));
-      if (userDoc.exists()) {
-        const data = userDoc.data();
-        return {
-          id: userDoc.id,
-          uid: data.uid || uid,
-          email: data.email || '',
-          fullName: data.fullName || '',
-          phone: data.phone || '',
-          city: data.city || '',
-          profileImage: data.profileImage || '',
-          coverImage: data.coverImage || '',
-          bio: data.bio || '',
-          role: data.role || 'user',
-          createdAt: timestampToDate(data.createdAt),
-          updatedAt: timestampToDate(data.updatedAt),
-        };
+      const userSnap = await getDoc(userDoc(uid));
+      if (userSnap.exists()) {
+        const userData = userSnap.data();
+        if (isSuspensionLapsed(userData.suspension)) {
+          const result = await endLapsedSuspension(userData);
+          if (result.success) return { ...userData, suspension: null };
+        }
+        return userData;
       }
       return null;
     } catch (err) {
@@ -184,11 +180,14 @@ export function AuthProvider({ children }: AuthProviderProps) {
     }
   };
 
+  const suspension = user?.suspension && isSuspensionActive(user.suspension) ? user.suspension : null;
+
   const value: AuthContextType = {
     user,
     firebaseUser,
     loading,
     error,
+    suspension,
     signIn,
     signUp,
     signOut,
@@ -197,7 +196,15 @@ export function AuthProvider({ children }: AuthProviderProps) {
     refreshUser,
   };
 
-  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+  return (
+    <AuthContext.Provider value={value}>
+      {suspension ? (
+        <SuspendedAccount email={user?.email || ''} suspension={suspension} onSignOut={signOut} />
+      ) : (
+        children
+      )}
+    </AuthContext.Provider>
+  );
 }
 
 // Helper to get readable error messages
@@ -0,0 +1,23 @@
+/**
+ * Comment Editing
+ * Authors can fix a comment for a short while after posting it; every replaced
+ * text is kept as a revision for moderators.
+ */
+
+import { Comment } from '@/types';
+
+export const COMMENT_EDIT_WINDOW_MINUTES = 15;
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Whether a user can still edit a comment
+ */
+export function canEditComment(
+  comment: Pick<Comment, 'userId' | 'createdAt'>,
+  userId: string | undefined,
+  now: number = Date.now()
+): boolean {
+  if (!userId || comment.userId !== userId || !comment.createdAt) return false;
+  return now - comment.createdAt.getTime() < COMMENT_EDIT_WINDOW_MINUTES * MINUTE_MS;
+}
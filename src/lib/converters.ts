@@ -0,0 +1,773 @@
+/**
+ * Firestore Converters
+ * Single place where raw Firestore documents are mapped to app models.
+ * Every service reads posts, users and comments through these converters,
+ * so a new or legacy field only has to be handled here.
+ */
+
+import {
+  collection,
+  collectionGroup,
+  doc,
+  DocumentData,
+  FirestoreDataConverter,
+  QueryDocumentSnapshot,
+  SnapshotOptions,
+  Timestamp,
+  WithFieldValue,
+} from 'firebase/firestore';
+import { db, COLLECTIONS } from '@/lib/firebase';
+import {
+  Post,
+  User,
+  Comment,
+  CommentRevision,
+  SavedSearch,
+  SearchAlert,
+  AppNotification,
+  Conversation,
+  Message,
+  Report,
+  ReportReason,
+  AdminLogEntry,
+  AdminLogComment,
+  Review,
+  SavedPost,
+  MediaItem,
+  CategoryKey,
+  CATEGORIES,
+  DEFAULT_CATEGORY,
+} from '@/types';
+import { timestampToDate } from '@/lib/utils';
+import { buildSearchTokens } from '@/lib/search';
+import { toNormalizedPrice } from '@/lib/currency';
+import { isPastExpiry } from '@/lib/expiry';
+import { isBeforePublish } from '@/lib/schedule';
+
+// ==================== Helpers ====================
+
+/**
+ * Check if a URL points to a video
+ * Legacy posts have no media type, so the URL is the only hint
+ */
+export function isVideoUrl(url: string): boolean {
+  const lowerUrl = url.toLowerCase();
+  return lowerUrl.includes('.mp4') ||
+         lowerUrl.includes('.webm') ||
+         lowerUrl.includes('.mov') ||
+         lowerUrl.includes('.avi') ||
+         lowerUrl.includes('video');
+}
+
+/**
+ * Collect every media URL stored on a post document, in any format
+ * Used when deleting a post so no Storage file is left behind
+ */
+export function collectMediaUrls(data: DocumentData): string[] {
+  const mediaUrls: string[] = [];
+
+  if (data.fileUrls && Array.isArray(data.fileUrls)) {
+    mediaUrls.push(...data.fileUrls);
+  }
+  if (data.fileUrl && typeof data.fileUrl === 'string') {
+    mediaUrls.push(data.fileUrl);
+  }
+  if (data.imageUrl && typeof data.imageUrl === 'string') {
+    mediaUrls.push(data.imageUrl);
+  }
+  if (data.images && Array.isArray(data.images)) {
+    mediaUrls.push(...data.images);
+  }
+  if (data.videos && Array.isArray(data.videos)) {
+    mediaUrls.push(...data.videos);
+  }
+
+  return Array.from(new Set(mediaUrls));
+}
+
+/**
+ * Check if a stored category is one of the known category keys
+ */
+export function isCategoryKey(value: unknown): value is CategoryKey {
+  return typeof value === 'string' && CATEGORIES.some((cat) => cat.key === value);
+}
+
+/**
+ * Drop app-only fields before writing a model back to Firestore
+ */
+function stripFields(model: object, fields: string[]): DocumentData {
+  const data: DocumentData = { ...model };
+  fields.forEach((field) => delete data[field]);
+  return data;
+}
+
+// ==================== Post ====================
+
+/**
+ * Status as the app sees it
+ * Active posts read as expired past their expiry date until the sweep writes it.
+ * Posts scheduled before the 'scheduled' status was stored are still 'active'
+ * with a future publishAt until normalizeLegacyPosts rewrites them.
+ */
+function derivePostStatus(
+  status: Post['status'] | undefined,
+  publishAt: Date | null,
+  expiresAt: Date | null
+): Post['status'] {
+  if (status && status !== 'active') return status;
+  if (isBeforePublish(publishAt)) return 'scheduled';
+  if (isPastExpiry(expiresAt)) return 'expired';
+  return 'active';
+}
+
+/**
+ * Convert raw post data to a Post object
+ * REAL FIELD MAPPING based on actual Firebase data:
+ * - name -> title
+ * - fileUrls / fileUrl / imageUrl -> images and videos
+ * - sellerId -> userId
+ * - sellerName -> userName
+ * - sellerProfilePic -> userImage
+ * - sellerCity -> location
+ * - likeCount -> saves
+ */
+export function dataToPost(id: string, data: DocumentData): Post {
+  // Check for images in multiple field formats (new and legacy)
+  const imageUrls: string[] = [];
+  const videoUrls: string[] = [];
+
+  // New format: images and videos arrays (only if they have content)
+  if (data.images && Array.isArray(data.images) && data.images.length > 0) {
+    imageUrls.push(...data.images);
+  }
+  if (data.videos && Array.isArray(data.videos) && data.videos.length > 0) {
+    videoUrls.push(...data.videos);
+  }
+
+  // Legacy format: fileUrls, fileUrl, imageUrl (only if no images/videos found)
+  if (imageUrls.length === 0 && videoUrls.length === 0) {
+    if (data.fileUrls && Array.isArray(data.fileUrls) && data.fileUrls.length > 0) {
+      // Separate videos and images based on URL or fileType
+      data.fileUrls.forEach((url: string) => {
+        if (data.fileType?.includes('video') || isVideoUrl(url)) {
+          videoUrls.push(url);
+        } else {
+          imageUrls.push(url);
+        }
+      });
+    } else if (data.fileUrl && typeof data.fileUrl === 'string') {
+      if (data.fileType?.includes('video') || isVideoUrl(data.fileUrl)) {
+        videoUrls.push(data.fileUrl);
+      } else {
+        imageUrls.push(data.fileUrl);
+      }
+    } else if (data.imageUrl && typeof data.imageUrl === 'string') {
+      imageUrls.push(data.imageUrl);
+    }
+  }
+
+  // Edited and new posts store the mixed order of their media;
+  // older ones show images first, then videos
+  const storedMedia: MediaItem[] = Array.isArray(data.media)
+    ? data.media
+        .filter((item: DocumentData) => typeof item?.url === 'string' && (item.type === 'image' || item.type === 'video'))
+        .map((item: DocumentData) => ({ url: item.url, type: item.type }))
+    : [];
+  const media: MediaItem[] = storedMedia.length > 0 ? storedMedia : [
+    ...imageUrls.map((url: string) => ({
+      url,
+      type: 'image' as const,
+    })),
+    ...videoUrls.map((url: string) => ({
+      url,
+      type: 'video' as const,
+    })),
+  ];
+
+  const expiresAt = timestampToDate(data.expiresAt);
+  const publishAt = timestampToDate(data.publishAt);
+
+  return {
+    id,
+    title: data.name || data.title || '', // REAL field is 'name'
+    description: data.description || '',
+    price: data.price,
+    currency: data.currency || 'RON',
+    location: data.sellerCity || data.location || '', // REAL field is 'sellerCity'
+    category: data.category,
+    images: imageUrls,
+    videos: videoUrls,
+    media,
+    userId: data.sellerId || data.userId, // REAL field is 'sellerId'
+    sellerId: data.sellerId,
+    userEmail: data.sellerEmail || data.userEmail || '',
+    userName: data.sellerName || data.userName || '', // REAL field is 'sellerName'
+    userImage: data.sellerProfilePic || data.userImage || '', // REAL field is 'sellerProfilePic'
+    status: derivePostStatus(data.status, publishAt, expiresAt),
+    views: data.views || 0,
+    saves: data.likeCount || data.saves || 0, // REAL field is 'likeCount'
+    likes: data.likes || [],
+    likesCount: data.likesCount || data.likes?.length || 0,
+    commentsCount: data.commentsCount || 0,
+    normalizedPrice: data.normalizedPrice,
+    expiresAt,
+    renewedAt: timestampToDate(data.renewedAt),
+    sortAt: timestampToDate(data.sortAt) || timestampToDate(data.createdAt),
+    publishAt,
+    createdAt: timestampToDate(data.createdAt),
+    updatedAt: timestampToDate(data.updatedAt),
+  };
+}
+
+export const postConverter: FirestoreDataConverter<Post> = {
+  toFirestore(post: WithFieldValue<Post>): DocumentData {
+    return stripFields(post, ['id']);
+  },
+  fromFirestore(snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): Post {
+    return dataToPost(snapshot.id, snapshot.data(options));
+  },
+};
+
+// Legacy post fields replaced by the canonical shape
+export const LEGACY_POST_FIELDS = [
+  'name',
+  'fileUrls',
+  'fileUrl',
+  'imageUrl',
+  'fileType',
+  'sellerName',
+  'sellerProfilePic',
+  'sellerCity',
+  'sellerEmail',
+  'likeCount',
+] as const;
+
+/**
+ * Build the canonical Firestore shape for a post document
+ * Used by the migration script to rewrite legacy documents once,
+ * so the fallbacks in dataToPost can eventually be removed
+ */
+export function toCanonicalPostData(id: string, data: DocumentData): DocumentData {
+  const post = dataToPost(id, data);
+  const createdAt = data.createdAt instanceof Timestamp
+    ? data.createdAt
+    : Timestamp.fromDate(post.createdAt || post.updatedAt || new Date());
+
+  const canonical: DocumentData = {
+    title: post.title,
+    description: post.description,
+    currency: post.currency,
+    location: post.location,
+    category: isCategoryKey(post.category) ? post.category : DEFAULT_CATEGORY,
+    images: post.images,
+    videos: post.videos,
+    media: post.media,
+    userId: post.userId || '',
+    sellerId: post.userId || '', // fetchUserPosts and adminDeleteUser still query sellerId
+    userEmail: post.userEmail,
+    userName: post.userName,
+    userImage: post.userImage,
+    status: post.status,
+    views: post.views,
+    saves: post.saves,
+    likesCount: post.likesCount,
+    commentsCount: post.commentsCount,
+    searchTokens: buildSearchTokens(post),
+    createdAt,
+    sortAt: data.sortAt instanceof Timestamp ? data.sortAt : createdAt,
+  };
+
+  // Firestore rejects undefined values
+  if (typeof post.price === 'number') {
+    canonical.price = post.price;
+    canonical.normalizedPrice = toNormalizedPrice(post.price, post.currency);
+  }
+
+  return canonical;
+}
+
+// ==================== User ====================
+
+/**
+ * Convert raw user data to a User object
+ */
+export function dataToUser(id: string, data: DocumentData): User {
+  return {
+    id,
+    uid: data.uid || id,
+    email: data.email || '',
+    fullName: data.fullName || '',
+    phone: data.phone || '',
+    city: data.city || '',
+    profileImage: data.profileImage || '',
+    coverImage: data.coverImage || '',
+    bio: data.bio || '',
+    role: data.role || 'user',
+    followersCount: data.followersCount || 0,
+    followingCount: data.followingCount || 0,
+    ratingCount: data.ratingCount || 0,
+    ratingSum: data.ratingSum || 0,
+    suspension: data.suspension
+      ? {
+          reason: data.suspension.reason || '',
+          until: timestampToDate(data.suspension.until),
+          suspendedBy: data.suspension.suspendedBy || '',
+          suspendedAt: timestampToDate(data.suspension.suspendedAt),
+        }
+      : null,
+    createdAt: timestampToDate(data.createdAt),
+    updatedAt: timestampToDate(data.updatedAt),
+  };
+}
+
+export const userConverter: FirestoreDataConverter<User> = {
+  toFirestore(user: WithFieldValue<User>): DocumentData {
+    return stripFields(user, ['id']);
+  },
+  fromFirestore(snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): User {
+    return dataToUser(snapshot.id, snapshot.data(options));
+  },
+};
+
+// ==================== Comment ====================
+
+/**
+ * Convert raw comment data to a Comment object
+ * postId falls back to the parent post when the field was never written
+ */
+export function dataToComment(id: string, data: DocumentData, parentPostId?: string): Comment {
+  return {
+    id,
+    postId: data.postId || parentPostId || '',
+    parentId: data.parentId || null,
+    userId: data.userId || '',
+    userName: data.userName || '',
+    userImage: data.userImage || '',
+    text: data.text || '',
+    mentions: Array.isArray(data.mentions) ? data.mentions : [],
+    repliesCount: data.repliesCount || 0,
+    createdAt: timestampToDate(data.createdAt),
+    editedAt: timestampToDate(data.editedAt),
+  };
+}
+
+export const commentConverter: FirestoreDataConverter<Comment> = {
+  toFirestore(comment: WithFieldValue<Comment>): DocumentData {
+    return stripFields(comment, ['id']);
+  },
+  fromFirestore(snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): Comment {
+    // Comments live at products/{postId}/comments/{commentId}, replies one level further down
+    const commentsRef = snapshot.ref.parent.id === 'replies'
+      ? snapshot.ref.parent.parent?.parent
+      : snapshot.ref.parent;
+    return dataToComment(snapshot.id, snapshot.data(options), commentsRef?.parent?.id);
+  },
+};
+
+export function dataToCommentRevision(id: string, data: DocumentData): CommentRevision {
+  return {
+    id,
+    text: data.text || '',
+    replacedAt: timestampToDate(data.replacedAt),
+  };
+}
+
+export const commentRevisionConverter: FirestoreDataConverter<CommentRevision> = {
+  toFirestore(revision: WithFieldValue<CommentRevision>): DocumentData {
+    return stripFields(revision, ['id']);
+  },
+  fromFirestore(snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): CommentRevision {
+    return dataToCommentRevision(snapshot.id, snapshot.data(options));
+  },
+};
+
+// ==================== Saved post ====================
+
+/**
+ * Convert raw bookmark data to a SavedPost
+ * The post itself is not stored on the bookmark, so 'post' is filled in by the service
+ */
+export function dataToSavedPost(id: string, data: DocumentData): SavedPost {
+  return {
+    postId: id,
+    title: data.title || '',
+    image: data.image || undefined,
+    savedAt: timestampToDate(data.savedAt),
+    post: null,
+  };
+}
+
+export const savedPostConverter: FirestoreDataConverter<SavedPost> = {
+  toFirestore(saved: WithFieldValue<SavedPost>): DocumentData {
+    return stripFields(saved, ['post']);
+  },
+  fromFirestore(snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): SavedPost {
+    return dataToSavedPost(snapshot.id, snapshot.data(options));
+  },
+};
+
+// ==================== Saved search ====================
+
+/**
+ * Convert raw saved search data to a SavedSearch object
+ * userId comes from the parent user document
+ */
+export function dataToSavedSearch(id: string, data: DocumentData, userId: string): SavedSearch {
+  return {
+    id,
+    userId,
+    name: data.name || '',
+    query: data.query || undefined,
+    category: isCategoryKey(data.category) ? data.category : undefined,
+    filters: data.filters || {},
+    emailDigest: !!data.emailDigest,
+    lastCheckedAt: timestampToDate(data.lastCheckedAt),
+    lastEmailedAt: timestampToDate(data.lastEmailedAt),
+    createdAt: timestampToDate(data.createdAt),
+  };
+}
+
+export const savedSearchConverter: FirestoreDataConverter<SavedSearch> = {
+  toFirestore(search: WithFieldValue<SavedSearch>): DocumentData {
+    return stripFields(search, ['id', 'userId']);
+  },
+  fromFirestore(snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): SavedSearch {
+    // Saved searches live at users/{uid}/savedSearches/{searchId}
+    return dataToSavedSearch(snapshot.id, snapshot.data(options), snapshot.ref.parent.parent?.id || '');
+  },
+};
+
+export function dataToSearchAlert(id: string, data: DocumentData): SearchAlert {
+  return {
+    id,
+    searchId: data.searchId || '',
+    searchName: data.searchName || '',
+    postId: data.postId || '',
+    postTitle: data.postTitle || '',
+    postImage: data.postImage || undefined,
+    read: !!data.read,
+    createdAt: timestampToDate(data.createdAt),
+  };
+}
+
+export const searchAlertConverter: FirestoreDataConverter<SearchAlert> = {
+  toFirestore(alert: WithFieldValue<SearchAlert>): DocumentData {
+    return stripFields(alert, ['id']);
+  },
+  fromFirestore(snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): SearchAlert {
+    return dataToSearchAlert(snapshot.id, snapshot.data(options));
+  },
+};
+
+// ==================== Notification ====================
+
+export function dataToNotification(id: string, data: DocumentData): AppNotification {
+  return {
+    id,
+    type: data.type || 'moderation',
+    actorId: data.actorId || undefined,
+    actorName: data.actorName || undefined,
+    actorImage: data.actorImage || undefined,
+    postId: data.postId || undefined,
+    postTitle: data.postTitle || undefined,
+    conversationId: data.conversationId || undefined,
+    searchId: data.searchId || undefined,
+    searchName: data.searchName || undefined,
+    profileId: data.profileId || undefined,
+    text: data.text || undefined,
+    read: !!data.read,
+    createdAt: timestampToDate(data.createdAt),
+  };
+}
+
+export const notificationConverter: FirestoreDataConverter<AppNotification> = {
+  toFirestore(notification: WithFieldValue<AppNotification>): DocumentData {
+    return stripFields(notification, ['id']);
+  },
+  fromFirestore(snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): AppNotification {
+    return dataToNotification(snapshot.id, snapshot.data(options));
+  },
+};
+
+// ==================== Review ====================
+
+/**
+ * Convert raw review data; sellerId falls back to the profile it is stored under
+ */
+export function dataToReview(id: string, data: DocumentData, parentSellerId?: string): Review {
+  return {
+    id,
+    sellerId: data.sellerId || parentSellerId || '',
+    reviewerId: data.reviewerId || '',
+    reviewerName: data.reviewerName || '',
+    reviewerImage: data.reviewerImage || '',
+    postId: data.postId || '',
+    postTitle: data.postTitle || '',
+    rating: data.rating || 0,
+    text: data.text || '',
+    reply: data.reply?.text
+      ? { text: data.reply.text, createdAt: timestampToDate(data.reply.createdAt) }
+      : null,
+    hidden: !!data.hidden,
+    createdAt: timestampToDate(data.createdAt),
+  };
+}
+
+export const reviewConverter: FirestoreDataConverter<Review> = {
+  toFirestore(review: WithFieldValue<Review>): DocumentData {
+    return stripFields(review, ['id']);
+  },
+  fromFirestore(snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): Review {
+    // Reviews live at users/{sellerId}/reviews/{conversationId}
+    return dataToReview(snapshot.id, snapshot.data(options), snapshot.ref.parent.parent?.id);
+  },
+};
+
+// ==================== Conversation ====================
+
+export function dataToConversation(id: string, data: DocumentData): Conversation {
+  return {
+    id,
+    postId: data.postId || '',
+    postTitle: data.postTitle || '',
+    postImage: data.postImage || undefined,
+    buyerId: data.buyerId || '',
+    sellerId: data.sellerId || '',
+    participants: data.participants || [],
+    participantNames: data.participantNames || {},
+    participantImages: data.participantImages || {},
+    lastMessage: data.lastMessage || '',
+    lastSenderId: data.lastSenderId || '',
+    unread: data.unread || {},
+    createdAt: timestampToDate(data.createdAt),
+    updatedAt: timestampToDate(data.updatedAt),
+  };
+}
+
+export const conversationConverter: FirestoreDataConverter<Conversation> = {
+  toFirestore(conversation: WithFieldValue<Conversation>): DocumentData {
+    return stripFields(conversation, ['id']);
+  },
+  fromFirestore(snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): Conversation {
+    return dataToConversation(snapshot.id, snapshot.data(options));
+  },
+};
+
+/**
+ * Convert raw message data to a Message object
+ * conversationId comes from the parent conversation document
+ */
+export function dataToMessage(id: string, data: DocumentData, conversationId: string): Message {
+  return {
+    id,
+    conversationId,
+    senderId: data.senderId || '',
+    text: data.text || '',
+    imageUrl: data.imageUrl || undefined,
+    createdAt: timestampToDate(data.createdAt),
+  };
+}
+
+export const messageConverter: FirestoreDataConverter<Message> = {
+  toFirestore(message: WithFieldValue<Message>): DocumentData {
+    return stripFields(message, ['id', 'conversationId']);
+  },
+  fromFirestore(snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): Message {
+    // Messages live at conversations/{conversationId}/messages/{messageId}
+    return dataToMessage(snapshot.id, snapshot.data(options), snapshot.ref.parent.parent?.id || '');
+  },
+};
+
+// ==================== Report ====================
+
+// Reasons used before the taxonomy covered posts and comments
+const LEGACY_REPORT_REASONS: Record<string, ReportReason> = {
+  scam: 'fraud',
+  abuse: 'offensive',
+};
+
+export function dataToReport(id: string, data: DocumentData): Report {
+  const targetType = data.targetType || 'user';
+  return {
+    id,
+    targetType,
+    targetId: data.targetId || '',
+    postId: data.postId || undefined,
+    parentId: data.parentId || null,
+    targetLabel: data.targetLabel || '',
+    // Early reports were all about users, who own themselves
+    targetOwnerId: data.targetOwnerId || (targetType === 'user' ? data.targetId || '' : ''),
+    reporterId: data.reporterId || '',
+    reason: LEGACY_REPORT_REASONS[data.reason] || data.reason || 'other',
+    details: data.details || '',
+    conversationId: data.conversationId || undefined,
+    status: data.status || 'open',
+    createdAt: timestampToDate(data.createdAt),
+    closedAt: timestampToDate(data.closedAt),
+  };
+}
+
+export const reportConverter: FirestoreDataConverter<Report> = {
+  toFirestore(report: WithFieldValue<Report>): DocumentData {
+    return stripFields(report, ['id']);
+  },
+  fromFirestore(snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): Report {
+    return dataToReport(snapshot.id, snapshot.data(options));
+  },
+};
+
+// ==================== Admin log ====================
+
+// Snapshots keep Firestore timestamps at any depth; read them back as dates
+function snapshotValue(value: unknown): unknown {
+  if (value instanceof Timestamp) return value.toDate();
+  if (Array.isArray(value)) return value.map(snapshotValue);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, snapshotValue(item)]));
+  }
+  return value;
+}
+
+export function dataToAdminLogEntry(id: string, data: DocumentData): AdminLogEntry {
+  return {
+    id,
+    action: data.action,
+    actorId: data.actorId || '',
+    actorName: data.actorName || '',
+    targetType: data.targetType,
+    targetId: data.targetId || '',
+    targetLabel: data.targetLabel || '',
+    targetOwnerId: data.targetOwnerId || '',
+    postId: data.postId || undefined,
+    reason: data.reason || '',
+    snapshot: data.snapshot ? (snapshotValue(data.snapshot) as Record<string, unknown>) : null,
+    snapshotCommentsCount: data.snapshotCommentsCount || 0,
+    createdAt: timestampToDate(data.createdAt),
+  };
+}
+
+export function dataToAdminLogComment(id: string, data: DocumentData): AdminLogComment {
+  return { id, ...(snapshotValue(data) as AdminLogComment) };
+}
+
+export const adminLogConverter: FirestoreDataConverter<AdminLogEntry> = {
+  toFirestore(entry: WithFieldValue<AdminLogEntry>): DocumentData {
+    return stripFields(entry, ['id']);
+  },
+  fromFirestore(snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): AdminLogEntry {
+    return dataToAdminLogEntry(snapshot.id, snapshot.data(options));
+  },
+};
+
+export const adminLogCommentConverter: FirestoreDataConverter<AdminLogComment> = {
+  toFirestore(comment: WithFieldValue<AdminLogComment>): DocumentData {
+    return stripFields(comment, ['id']);
+  },
+  fromFirestore(snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): AdminLogComment {
+    return dataToAdminLogComment(snapshot.id, snapshot.data(options));
+  },
+};
+
+// ==================== Typed references ====================
+
+export function postsCollection() {
+  return collection(db, COLLECTIONS.PRODUCTS).withConverter(postConverter);
+}
+
+export function postDoc(postId: string) {
+  return doc(db, COLLECTIONS.PRODUCTS, postId).withConverter(postConverter);
+}
+
+export function usersCollection() {
+  return collection(db, COLLECTIONS.USERS).withConverter(userConverter);
+}
+
+export function userDoc(userId: string) {
+  return doc(db, COLLECTIONS.USERS, userId).withConverter(userConverter);
+}
+
+export function commentsCollection(postId: string) {
+  return collection(db, COLLECTIONS.PRODUCTS, postId, 'comments').withConverter(commentConverter);
+}
+
+export function allCommentsGroup() {
+  return collectionGroup(db, 'comments').withConverter(commentConverter);
+}
+
+export function repliesCollection(postId: string, parentId: string) {
+  return collection(db, COLLECTIONS.PRODUCTS, postId, 'comments', parentId, 'replies').withConverter(commentConverter);
+}
+
+export function allRepliesGroup() {
+  return collectionGroup(db, 'replies').withConverter(commentConverter);
+}
+
+/**
+ * A comment or reply document, by where it lives
+ */
+export function commentDocRef(postId: string, commentId: string, parentId?: string | null) {
+  return parentId
+    ? doc(repliesCollection(postId, parentId), commentId)
+    : doc(commentsCollection(postId), commentId);
+}
+
+export function commentRevisionsCollection(postId: string, commentId: string, parentId?: string | null) {
+  return collection(commentDocRef(postId, commentId, parentId), 'revisions').withConverter(commentRevisionConverter);
+}
+
+// Follows are stored on both sides: users/{follower}/following/{target} and users/{target}/followers/{follower}
+export function followingCollection(userId: string) {
+  return collection(db, COLLECTIONS.USERS, userId, 'following');
+}
+
+export function followersCollection(userId: string) {
+  return collection(db, COLLECTIONS.USERS, userId, 'followers');
+}
+
+export function reviewsCollection(sellerId: string) {
+  return collection(db, COLLECTIONS.USERS, sellerId, 'reviews').withConverter(reviewConverter);
+}
+
+export function allReviewsGroup() {
+  return collectionGroup(db, 'reviews').withConverter(reviewConverter);
+}
+
+export function savedPostsCollection(userId: string) {
+  return collection(db, COLLECTIONS.USERS, userId, 'saved').withConverter(savedPostConverter);
+}
+
+export function savedSearchesCollection(userId: string) {
+  return collection(db, COLLECTIONS.USERS, userId, 'savedSearches').withConverter(savedSearchConverter);
+}
+
+export function searchAlertsCollection(userId: string) {
+  return collection(db, COLLECTIONS.USERS, userId, 'searchAlerts').withConverter(searchAlertConverter);
+}
+
+export function notificationsCollection(userId: string) {
+  return collection(db, COLLECTIONS.USERS, userId, 'notifications').withConverter(notificationConverter);
+}
+
+export function conversationsCollection() {
+  return collection(db, COLLECTIONS.CONVERSATIONS).withConverter(conversationConverter);
+}
+
+export function conversationDoc(conversationId: string) {
+  return doc(db, COLLECTIONS.CONVERSATIONS, conversationId).withConverter(conversationConverter);
+}
+
+export function messagesCollection(conversationId: string) {
+  return collection(db, COLLECTIONS.CONVERSATIONS, conversationId, 'messages').withConverter(messageConverter);
+}
+
+export function reportsCollection() {
+  return collection(db, COLLECTIONS.REPORTS).withConverter(reportConverter);
+}
+
+export function adminLogCollection() {
+  return collection(db, COLLECTIONS.ADMIN_LOG).withConverter(adminLogConverter);
+}
+
+export function adminLogCommentsCollection(entryId: string) {
+  return collection(db, COLLECTIONS.ADMIN_LOG, entryId, 'comments').withConverter(adminLogCommentConverter);
+}
@@ -0,0 +1,26 @@
+/**
+ * Currency Helpers
+ * Posts are priced in RON, EUR or USD. For sorting by price every post also
+ * stores 'normalizedPrice', its price converted to RON with the rates below.
+ */
+
+export const BASE_CURRENCY = 'RON';
+
+export const SUPPORTED_CURRENCIES = ['RON', 'EUR', 'USD'] as const;
+
+// Approximate rates; they only need to keep mixed-currency sorting sensible
+export const RATES_TO_BASE: Record<string, number> = {
+  RON: 1,
+  EUR: 4.97,
+  USD: 4.6,
+};
+
+/**
+ * Convert a price to RON for sorting
+ * Returns null when the post has no price, so the field can be left unset
+ */
+export function toNormalizedPrice(price: unknown, currency?: string): number | null {
+  if (typeof price !== 'number' || !Number.isFinite(price)) return null;
+  const rate = RATES_TO_BASE[currency || BASE_CURRENCY] ?? 1;
+  return Math.round(price * rate * 100) / 100;
+}
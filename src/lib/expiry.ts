@@ -0,0 +1,49 @@
+/**
+ * Listing Expiry
+ * Every post expires a number of days after it was published or renewed.
+ * The durations per category are an admin setting (settingsService);
+ * these defaults apply until an admin saves their own.
+ */
+
+import { CategoryKey, DEFAULT_CATEGORY } from '@/types';
+
+export type ExpiryDays = Record<CategoryKey, number>;
+
+export const DEFAULT_EXPIRY_DAYS: ExpiryDays = {
+  construction: 60,
+  auto: 45,
+  imobiliare: 60,
+  bazar: 30,
+  contabilitate: 90,
+  agropiata: 30,
+};
+
+// Authors can renew an active post this many days before it expires
+export const RENEW_WINDOW_DAYS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Expiry date for a post published (or renewed) at 'from'
+ */
+export function computeExpiresAt(
+  category: CategoryKey | string | undefined,
+  expiryDays: ExpiryDays,
+  from: Date = new Date()
+): Date {
+  const days = expiryDays[category as CategoryKey] ?? expiryDays[DEFAULT_CATEGORY];
+  return new Date(from.getTime() + days * DAY_MS);
+}
+
+export function isPastExpiry(expiresAt: Date | null | undefined, now: number = Date.now()): boolean {
+  return !!expiresAt && expiresAt.getTime() <= now;
+}
+
+/**
+ * Whether the author may renew the post now
+ */
+export function canRenew(post: { status: string; expiresAt?: Date | null }, now: number = Date.now()): boolean {
+  if (post.status === 'expired') return true;
+  if (post.status !== 'active' || !post.expiresAt) return false;
+  return post.expiresAt.getTime() - now <= RENEW_WINDOW_DAYS * DAY_MS;
+}
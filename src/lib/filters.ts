@@ -0,0 +1,183 @@
+/**
+ * Feed Filters
+ * Maps PostFilters to and from the URL query string, and checks the filters
+ * Firestore can't evaluate (price, city, media) against a post.
+ *
+ * URL format: ?pret_min=100&pret_max=500&moneda=EUR&oras=cluj&media=foto,video&publicat=7z&stare=vandut
+ * Sort order is a separate ?sortare= parameter, see parseSort.
+ */
+
+import { Post, PostFilters, PostAvailability, DatePostedFilter, PostSort } from '@/types';
+import { normalizeText } from '@/lib/search';
+import { BASE_CURRENCY, toNormalizedPrice } from '@/lib/currency';
+
+export const DEFAULT_SORT: PostSort = 'newest';
+
+export const DATE_POSTED_MS: Record<DatePostedFilter, number> = {
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+  '30d': 30 * 24 * 60 * 60 * 1000,
+};
+
+export const DATE_POSTED_LABELS: Record<DatePostedFilter, string> = {
+  '24h': 'Ultimele 24 de ore',
+  '7d': 'Ultimele 7 zile',
+  '30d': 'Ultimele 30 de zile',
+};
+
+export const AVAILABILITY_LABELS: Record<PostAvailability, string> = {
+  available: 'Disponibile',
+  sold: 'Vândute',
+  all: 'Toate',
+};
+
+export const SORT_LABELS: Record<PostSort, string> = {
+  newest: 'Cele mai noi',
+  oldest: 'Cele mai vechi',
+  price_asc: 'Preț crescător',
+  price_desc: 'Preț descrescător',
+  most_liked: 'Cele mai apreciate',
+  most_commented: 'Cele mai comentate',
+};
+
+// Romanian values used in the URL
+const SORT_PARAM: Record<PostSort, string> = {
+  newest: 'noi',
+  oldest: 'vechi',
+  price_asc: 'pret_crescator',
+  price_desc: 'pret_descrescator',
+  most_liked: 'apreciate',
+  most_commented: 'comentate',
+};
+const POSTED_PARAM: Record<DatePostedFilter, string> = { '24h': '24h', '7d': '7z', '30d': '30z' };
+const AVAILABILITY_PARAM: Record<PostAvailability, string> = { available: 'disponibil', sold: 'vandut', all: 'toate' };
+
+function findKey<K extends string>(map: Record<K, string>, value: string | null): K | undefined {
+  return (Object.keys(map) as K[]).find((key) => map[key] === value);
+}
+
+function parsePrice(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const price = Number(value);
+  return Number.isFinite(price) && price >= 0 ? price : undefined;
+}
+
+/**
+ * Read filters from the URL query string, ignoring invalid values
+ */
+export function parseFilters(params: URLSearchParams): PostFilters {
+  const media = (params.get('media') || '').split(',');
+
+  const filters: PostFilters = {
+    minPrice: parsePrice(params.get('pret_min')),
+    maxPrice: parsePrice(params.get('pret_max')),
+    currency: params.get('moneda') || undefined,
+    location: params.get('oras')?.trim() || undefined,
+    hasPhotos: media.includes('foto') || undefined,
+    hasVideos: media.includes('video') || undefined,
+    postedWithin: findKey(POSTED_PARAM, params.get('publicat')),
+    availability: findKey(AVAILABILITY_PARAM, params.get('stare')),
+  };
+
+  // Drop unset keys so the object can be compared and serialized
+  (Object.keys(filters) as (keyof PostFilters)[]).forEach((key) => {
+    if (filters[key] === undefined) delete filters[key];
+  });
+
+  return filters;
+}
+
+/**
+ * Read the sort order from the URL query string
+ */
+export function parseSort(params: URLSearchParams): PostSort {
+  return findKey(SORT_PARAM, params.get('sortare')) || DEFAULT_SORT;
+}
+
+/**
+ * Write the sort order into existing query params (newest is the default and omitted)
+ */
+export function applySortParam(params: URLSearchParams, sort: PostSort): URLSearchParams {
+  if (sort === DEFAULT_SORT) {
+    params.delete('sortare');
+  } else {
+    params.set('sortare', SORT_PARAM[sort]);
+  }
+  return params;
+}
+
+/**
+ * Check the date posted filter on a post
+ * Used when the query is sorted on another field and can't filter createdAt itself
+ */
+export function isPostedWithin(post: Post, postedWithin: DatePostedFilter, now: number = Date.now()): boolean {
+  if (!post.createdAt) return false;
+  return post.createdAt.getTime() >= now - DATE_POSTED_MS[postedWithin];
+}
+
+/**
+ * Write filters to a query string (without the leading '?')
+ */
+export function filtersToQueryString(filters: PostFilters): string {
+  const params = new URLSearchParams();
+  const hasPriceBound = filters.minPrice !== undefined || filters.maxPrice !== undefined;
+
+  if (filters.minPrice !== undefined) params.set('pret_min', String(filters.minPrice));
+  if (filters.maxPrice !== undefined) params.set('pret_max', String(filters.maxPrice));
+  if (hasPriceBound && filters.currency && filters.currency !== BASE_CURRENCY) {
+    params.set('moneda', filters.currency);
+  }
+  if (filters.location) params.set('oras', filters.location);
+
+  const media = [filters.hasPhotos && 'foto', filters.hasVideos && 'video'].filter(Boolean);
+  if (media.length > 0) params.set('media', media.join(','));
+
+  if (filters.postedWithin) params.set('publicat', POSTED_PARAM[filters.postedWithin]);
+  if (filters.availability && filters.availability !== 'available') {
+    params.set('stare', AVAILABILITY_PARAM[filters.availability]);
+  }
+
+  return params.toString();
+}
+
+export function hasActiveFilters(filters: PostFilters): boolean {
+  return filtersToQueryString(filters) !== '';
+}
+
+/**
+ * Whether the filters include checks that run after the Firestore query
+ */
+export function hasClientSideFilters(filters: PostFilters): boolean {
+  return filters.minPrice !== undefined ||
+         filters.maxPrice !== undefined ||
+         !!filters.location ||
+         !!filters.hasPhotos ||
+         !!filters.hasVideos;
+}
+
+/**
+ * Check a post against the price, city and media filters
+ * Status and date posted are part of the Firestore query
+ */
+export function matchesFilters(post: Post, filters: PostFilters): boolean {
+  if (filters.minPrice !== undefined || filters.maxPrice !== undefined) {
+    // Both sides are converted to RON, so posts priced in any currency can match
+    const price = post.normalizedPrice ?? toNormalizedPrice(post.price, post.currency);
+    if (price === null) return false;
+    const currency = filters.currency || BASE_CURRENCY;
+    const minPrice = toNormalizedPrice(filters.minPrice, currency);
+    const maxPrice = toNormalizedPrice(filters.maxPrice, currency);
+    if (minPrice !== null && price < minPrice) return false;
+    if (maxPrice !== null && price > maxPrice) return false;
+  }
+
+  if (filters.location) {
+    const location = normalizeText(post.location || '');
+    if (!location.includes(normalizeText(filters.location).trim())) return false;
+  }
+
+  if (filters.hasPhotos && !(post.images && post.images.length > 0)) return false;
+  if (filters.hasVideos && !(post.videos && post.videos.length > 0)) return false;
+
+  return true;
+}
@@ -23,6 +23,10 @@ const firebaseConfig = {
 export const COLLECTIONS = {
   USERS: 'users',
   PRODUCTS: 'products', // Posts are stored in 'products' collection
+  SETTINGS: 'settings', // App-wide settings edited from the admin panel
+  CONVERSATIONS: 'conversations',
+  REPORTS: 'reports',
+  ADMIN_LOG: 'adminLog', // Append-only record of admin actions
 } as const;
 
 // Initialize Firebase
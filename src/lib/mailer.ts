@@ -0,0 +1,180 @@
+/**
+ * Mailer
+ * Pluggable outgoing email for scripts (e.g. the saved search digest); never import it in the browser.
+ *
+ * Transports, chosen with MAIL_TRANSPORT:
+ *   smtp (default)  plain SMTP without auth or TLS; pointed at the local stand-in
+ *                   (npm run dev:smtp) or any relay reachable the same way
+ *   log             prints messages instead of sending them
+ * Other providers plug in with registerMailer().
+ *
+ * Settings: SMTP_HOST (localhost), SMTP_PORT (1025), MAIL_FROM (no-reply@lucrusiafaceri.ro)
+ */
+
+import { createConnection, Socket } from 'net';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+const DEFAULT_FROM = 'no-reply@lucrusiafaceri.ro';
+const SMTP_TIMEOUT_MS = 10000;
+
+const transports: Record<string, () => Mailer> = {
+  smtp: () => createSmtpMailer({
+    host: process.env.SMTP_HOST || 'localhost',
+    port: Number(process.env.SMTP_PORT || 1025),
+    from: process.env.MAIL_FROM || DEFAULT_FROM,
+  }),
+  log: () => createLogMailer(),
+};
+
+/**
+ * Add (or replace) a transport, e.g. an HTTP email API in production
+ */
+export function registerMailer(name: string, factory: () => Mailer) {
+  transports[name] = factory;
+}
+
+export function getMailer(transport: string = process.env.MAIL_TRANSPORT || 'smtp'): Mailer {
+  const factory = transports[transport];
+  if (!factory) {
+    throw new Error(`Unknown mail transport "${transport}" (available: ${Object.keys(transports).join(', ')})`);
+  }
+  return factory();
+}
+
+export function createLogMailer(): Mailer {
+  return {
+    async send(message) {
+      console.log(`\n--- Email to ${message.to}: ${message.subject} ---\n${message.text}\n`);
+    },
+  };
+}
+
+// ==================== SMTP ====================
+
+/**
+ * Encode a header value so diacritics survive
+ */
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+}
+
+function encodeBody(text: string): string {
+  return Buffer.from(text).toString('base64').replace(/.{76}/g, '$&\r\n');
+}
+
+/**
+ * Build the RFC 5322 message, with a plain text and an optional HTML part
+ */
+function formatMessage(from: string, message: MailMessage): string {
+  const headers = [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    'MIME-Version: 1.0',
+  ];
+
+  if (!message.html) {
+    return [
+      ...headers,
+      'Content-Type: text/plain; charset=UTF-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      encodeBody(message.text),
+    ].join('\r\n');
+  }
+
+  const boundary = `----=_Part_${Date.now().toString(36)}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.html),
+    `--${boundary}--`,
+  ].join('\r\n');
+}
+
+/**
+ * Minimal SMTP dialogue: reads one (possibly multi-line) reply per command
+ */
+function openSmtpSession(socket: Socket) {
+  let buffer = '';
+  const waiting: ((reply: { code: number; text: string }) => void)[] = [];
+  const replies: { code: number; text: string }[] = [];
+
+  socket.setEncoding('utf8');
+  socket.on('data', (chunk: string) => {
+    buffer += chunk;
+    // A reply ends with a line whose code is followed by a space ("250 OK", not "250-...")
+    let match: RegExpMatchArray | null;
+    while ((match = buffer.match(/^((?:\d{3}-[^\r\n]*\r\n)*)(\d{3})( [^\r\n]*)?\r\n/))) {
+      buffer = buffer.slice(match[0].length);
+      const reply = { code: Number(match[2]), text: match[0].trim() };
+      const resolve = waiting.shift();
+      if (resolve) resolve(reply); else replies.push(reply);
+    }
+  });
+
+  const nextReply = () => new Promise<{ code: number; text: string }>((resolve) => {
+    const reply = replies.shift();
+    if (reply) resolve(reply); else waiting.push(resolve);
+  });
+
+  return {
+    async expect(code: number, command?: string) {
+      if (command !== undefined) socket.write(`${command}\r\n`);
+      const reply = await nextReply();
+      if (reply.code !== code) {
+        throw new Error(`SMTP ${command?.split(' ')[0] || 'greeting'} failed: ${reply.text}`);
+      }
+    },
+  };
+}
+
+export function createSmtpMailer({ host, port, from }: { host: string; port: number; from: string }): Mailer {
+  return {
+    async send(message) {
+      const socket = createConnection({ host, port });
+      socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error(`SMTP timeout (${host}:${port})`)));
+
+      const failed = new Promise<never>((_, reject) => socket.once('error', reject));
+      const session = openSmtpSession(socket);
+
+      // Lines starting with a dot are doubled so they can't end the DATA block
+      const data = formatMessage(from, message).replace(/^\./gm, '..');
+
+      try {
+        await Promise.race([failed, (async () => {
+          await session.expect(220);
+          await session.expect(250, 'EHLO localhost');
+          await session.expect(250, `MAIL FROM:<${from}>`);
+          await session.expect(250, `RCPT TO:<${message.to}>`);
+          await session.expect(354, 'DATA');
+          await session.expect(250, `${data}\r\n.`);
+          await session.expect(221, 'QUIT');
+        })()]);
+      } finally {
+        socket.destroy();
+      }
+    },
+  };
+}
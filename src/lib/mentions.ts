@@ -0,0 +1,106 @@
+/**
+ * @mentions in comments
+ * The text keeps a plain "@Nume Prenume"; the comment stores who that refers to,
+ * so renames don't break links and names with spaces need no escaping.
+ */
+
+import { CommentMention } from '@/types';
+import { normalizeText } from '@/lib/search';
+
+export const MAX_MENTIONS = 10;
+const MAX_SUGGESTIONS = 6;
+
+export interface MentionCandidate extends CommentMention {
+  image?: string;
+}
+
+/**
+ * The "@query" being typed at the caret, if any
+ * A query may contain spaces ("@Ion Po") but ends at a line break or a second "@"
+ */
+export function findMentionQuery(text: string, caret: number): { start: number; query: string } | null {
+  const before = text.slice(0, caret);
+  const start = before.lastIndexOf('@');
+  if (start === -1) return null;
+
+  // "@" must start a word, so e-mail addresses don't trigger suggestions
+  if (start > 0 && !/\s/.test(before[start - 1])) return null;
+
+  const query = before.slice(start + 1);
+  if (query.length > 30 || /[\n@]/.test(query) || query.startsWith(' ')) return null;
+  return { start, query };
+}
+
+/**
+ * Candidates whose name starts with, or has a word starting with, the query
+ */
+export function suggestMentions(candidates: MentionCandidate[], query: string): MentionCandidate[] {
+  const q = normalizeText(query.trim());
+  return candidates
+    .filter(candidate => {
+      const name = normalizeText(candidate.name);
+      return !q || name.startsWith(q) || name.split(/\s+/).some(word => word.startsWith(q));
+    })
+    .slice(0, MAX_SUGGESTIONS);
+}
+
+/**
+ * Replace the "@query" at the caret with the full mention
+ */
+export function insertMention(
+  text: string,
+  start: number,
+  caret: number,
+  name: string
+): { text: string; caret: number } {
+  const rest = text.slice(caret);
+  const inserted = rest.startsWith(' ') ? `@${name}` : `@${name} `;
+  return {
+    text: text.slice(0, start) + inserted + rest,
+    caret: start + inserted.length + (rest.startsWith(' ') ? 1 : 0),
+  };
+}
+
+/**
+ * The candidates actually mentioned in a text, in order of appearance
+ */
+export function resolveMentions(text: string, candidates: CommentMention[]): CommentMention[] {
+  const byId = new Map<string, CommentMention>();
+  splitMentions(text, candidates).forEach(segment => {
+    if (segment.userId && !byId.has(segment.userId)) {
+      byId.set(segment.userId, { userId: segment.userId, name: segment.text.slice(1) });
+    }
+  });
+  return Array.from(byId.values()).slice(0, MAX_MENTIONS);
+}
+
+export type TextSegment = { text: string; userId?: string };
+
+/**
+ * Split a comment into plain text and mention segments for rendering
+ * Longer names win, so "@Ion Popescu" isn't cut at "@Ion"
+ */
+export function splitMentions(text: string, mentions: CommentMention[]): TextSegment[] {
+  if (mentions.length === 0) return [{ text }];
+
+  const byLength = [...mentions].sort((a, b) => b.name.length - a.name.length);
+  const segments: TextSegment[] = [];
+  let plain = '';
+  let i = 0;
+
+  while (i < text.length) {
+    const mention = text[i] === '@' ? byLength.find(m => text.startsWith(`@${m.name}`, i)) : undefined;
+    if (mention) {
+      if (plain) segments.push({ text: plain });
+      plain = '';
+      segments.push({ text: `@${mention.name}`, userId: mention.userId });
+      i += mention.name.length + 1;
+    } else {
+      plain += text[i];
+      i++;
+    }
+  }
+  if (plain) segments.push({ text: plain });
+
+  return segments;
+}
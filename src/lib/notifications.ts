@@ -0,0 +1,146 @@
+/**
+ * Notification grouping
+ * Folds related notifications into one entry on the notifications page,
+ * e.g. every like on a post becomes "5 persoane au apreciat…"
+ */
+
+import { AppNotification } from '@/types';
+
+export interface NotificationGroup {
+  key: string;
+  type: AppNotification['type'];
+  notifications: AppNotification[]; // Newest first
+  latest: AppNotification;
+  actorNames: string[]; // Distinct, most recent first
+  unread: boolean;
+}
+
+function groupKey(notification: AppNotification): string {
+  switch (notification.type) {
+    case 'like':
+    case 'comment':
+    case 'reply':
+    case 'mention':
+      return `${notification.type}:${notification.postId}`;
+    case 'message':
+      return `message:${notification.conversationId}`;
+    case 'search_match':
+      return `search_match:${notification.searchId}`;
+    default:
+      return notification.id;
+  }
+}
+
+/**
+ * Group notifications (newest first) by post, conversation or saved search
+ * Groups are ordered by their most recent notification
+ */
+export function groupNotifications(notifications: AppNotification[]): NotificationGroup[] {
+  const groups = new Map<string, NotificationGroup>();
+
+  for (const notification of notifications) {
+    const key = groupKey(notification);
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        key,
+        type: notification.type,
+        notifications: [],
+        latest: notification,
+        actorNames: [],
+        unread: false,
+      };
+      groups.set(key, group);
+    }
+
+    group.notifications.push(notification);
+    group.unread = group.unread || !notification.read;
+    const name = notification.actorName;
+    if (name && !group.actorNames.includes(name)) {
+      group.actorNames.push(name);
+    }
+  }
+
+  return Array.from(groups.values());
+}
+
+// "1 persoană", "5 persoane", "20 de persoane"
+function countPhrase(count: number, singular: string, plural: string): string {
+  if (count === 1) return `1 ${singular}`;
+  const lastTwo = count % 100;
+  return lastTwo === 0 || lastTwo >= 20 ? `${count} de ${plural}` : `${count} ${plural}`;
+}
+
+function actorsPhrase(names: string[]): { subject: string; isPlural: boolean } {
+  if (names.length === 0) return { subject: 'Cineva', isPlural: false };
+  if (names.length === 1) return { subject: names[0], isPlural: false };
+  if (names.length === 2) return { subject: `${names[0]} și ${names[1]}`, isPlural: true };
+  return { subject: countPhrase(names.length, 'persoană', 'persoane'), isPlural: true };
+}
+
+/**
+ * One-line summary of a group, in Romanian
+ */
+export function describeNotificationGroup(group: NotificationGroup): string {
+  const { latest } = group;
+  const postTitle = `„${latest.postTitle || 'Anunț'}”`;
+
+  switch (group.type) {
+    case 'like': {
+      const { subject, isPlural } = actorsPhrase(group.actorNames);
+      return `${subject} ${isPlural ? 'au apreciat' : 'a apreciat'} anunțul ${postTitle}`;
+    }
+    case 'comment': {
+      const { subject, isPlural } = actorsPhrase(group.actorNames);
+      return `${subject} ${isPlural ? 'au comentat' : 'a comentat'} la anunțul ${postTitle}`;
+    }
+    case 'reply': {
+      const { subject, isPlural } = actorsPhrase(group.actorNames);
+      return `${subject} ${isPlural ? 'au răspuns' : 'a răspuns'} la comentariul tău de la anunțul ${postTitle}`;
+    }
+    case 'mention': {
+      const { subject, isPlural } = actorsPhrase(group.actorNames);
+      const where = latest.postTitle ? ` la anunțul ${postTitle}` : '';
+      return `${subject} ${isPlural ? 'te-au menționat' : 'te-a menționat'} într-un comentariu${where}`;
+    }
+    case 'message':
+      return `${latest.actorName || 'Cineva'} ți-a trimis un mesaj despre ${postTitle}`;
+    case 'review':
+      return `${latest.actorName || 'Cineva'} ți-a lăsat o recenzie pentru anunțul ${postTitle}`;
+    case 'review_reply':
+      return `${latest.actorName || 'Vânzătorul'} a răspuns la recenzia ta pentru anunțul ${postTitle}`;
+    case 'search_match': {
+      const searchName = `„${latest.searchName || 'căutare salvată'}”`;
+      return group.notifications.length === 1
+        ? `Anunț nou pentru căutarea ${searchName}: ${postTitle}`
+        : `${countPhrase(group.notifications.length, 'anunț nou', 'anunțuri noi')} pentru căutarea ${searchName}`;
+    }
+    default:
+      return latest.text || 'Notificare de la administratori';
+  }
+}
+
+/**
+ * Where clicking a group leads, if anywhere
+ */
+export function notificationGroupHref(group: NotificationGroup): string | undefined {
+  const { latest } = group;
+
+  switch (group.type) {
+    case 'like':
+    case 'comment':
+    case 'reply':
+    case 'mention':
+      return latest.postId ? `/postare/${latest.postId}` : undefined;
+    case 'message':
+      return latest.conversationId ? `/mesaje/${latest.conversationId}` : undefined;
+    case 'review':
+    case 'review_reply':
+      return latest.profileId ? `/utilizator/${latest.profileId}#recenzii` : undefined;
+    case 'search_match':
+      // Several matches are listed with the search's alerts in settings
+      return group.notifications.length === 1 && latest.postId ? `/postare/${latest.postId}` : '/setari';
+    default:
+      return undefined;
+  }
+}
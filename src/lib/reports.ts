@@ -0,0 +1,90 @@
+/**
+ * Reports
+ * Posts, comments and users can be reported; the admin queue folds every report
+ * about the same target into one entry.
+ */
+
+import { Report, ReportReason, ReportTarget, ReportTargetType, REPORT_REASON_LABELS } from '@/types';
+
+export const REPORT_TARGET_LABELS: Record<ReportTargetType, string> = {
+  post: 'Postare',
+  comment: 'Comentariu',
+  user: 'Utilizator',
+};
+
+/**
+ * Reasons offered for a target; only posts can sit in the wrong category
+ */
+export function reportReasonsFor(type: ReportTargetType): ReportReason[] {
+  return (Object.keys(REPORT_REASON_LABELS) as ReportReason[])
+    .filter(reason => reason !== 'wrong_category' || type === 'post');
+}
+
+// Replies are only unique within their post
+export function reportTargetKey(target: Pick<ReportTarget, 'type' | 'id' | 'postId'>): string {
+  return target.type === 'comment' ? `comment_${target.postId}_${target.id}` : `${target.type}_${target.id}`;
+}
+
+export interface ReportGroup {
+  key: string;
+  target: ReportTarget;
+  reports: Report[]; // Newest first
+  reasonCounts: Partial<Record<ReportReason, number>>;
+  latestAt: Date | null;
+}
+
+/**
+ * Group reports (newest first) by target
+ * Groups with the most reports come first, then the most recently reported
+ */
+export function groupReports(reports: Report[]): ReportGroup[] {
+  const groups = new Map<string, ReportGroup>();
+
+  for (const report of reports) {
+    const target: ReportTarget = {
+      type: report.targetType,
+      id: report.targetId,
+      postId: report.postId,
+      parentId: report.parentId,
+      label: report.targetLabel,
+      ownerId: report.targetOwnerId,
+    };
+    const key = reportTargetKey(target);
+    let group = groups.get(key);
+    if (!group) {
+      group = { key, target, reports: [], reasonCounts: {}, latestAt: report.createdAt };
+      groups.set(key, group);
+    }
+
+    group.reports.push(report);
+    group.reasonCounts[report.reason] = (group.reasonCounts[report.reason] || 0) + 1;
+  }
+
+  return Array.from(groups.values()).sort((a, b) =>
+    b.reports.length - a.reports.length ||
+    (b.latestAt?.getTime() || 0) - (a.latestAt?.getTime() || 0)
+  );
+}
+
+/**
+ * "Spam (2), Categorie greșită (1)"
+ */
+export function describeReportReasons(group: ReportGroup): string {
+  return (Object.keys(group.reasonCounts) as ReportReason[])
+    .map(reason => `${REPORT_REASON_LABELS[reason]} (${group.reasonCounts[reason]})`)
+    .join(', ');
+}
+
+/**
+ * Where the reported content can be seen
+ */
+export function reportTargetHref(target: ReportTarget): string {
+  switch (target.type) {
+    case 'post':
+      return `/postare/${target.id}`;
+    case 'comment':
+      return `/postare/${target.postId}`;
+    default:
+      return `/utilizator/${target.id}`;
+  }
+}
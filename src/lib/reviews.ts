@@ -0,0 +1,46 @@
+/**
+ * Seller Reviews
+ * Buyers rate a seller once per conversation; a seller's score is the average of
+ * their visible reviews, kept as a running sum and count on the user document.
+ */
+
+import { Conversation, User } from '@/types';
+
+export const MIN_RATING = 1;
+export const MAX_RATING = 5;
+export const MAX_REVIEW_LENGTH = 1000;
+
+export function isValidRating(rating: number): boolean {
+  return Number.isInteger(rating) && rating >= MIN_RATING && rating <= MAX_RATING;
+}
+
+/**
+ * Average score, or null for sellers without reviews
+ */
+export function averageRating(user: Pick<User, 'ratingCount' | 'ratingSum'>): number | null {
+  return user.ratingCount > 0 ? user.ratingSum / user.ratingCount : null;
+}
+
+// "4,5" - Romanian decimal comma, one decimal
+export function formatRating(average: number): string {
+  return average.toFixed(1).replace('.', ',');
+}
+
+// "1 recenzie", "5 recenzii", "20 de recenzii"
+export function reviewCountLabel(count: number): string {
+  if (count === 1) return '1 recenzie';
+  const lastTwo = count % 100;
+  return lastTwo === 0 || lastTwo >= 20 ? `${count} de recenzii` : `${count} recenzii`;
+}
+
+/**
+ * Whether a user may review the seller of a conversation
+ * Only the buyer can, and only once the seller has answered
+ */
+export function canReviewConversation(
+  conversation: Pick<Conversation, 'buyerId' | 'sellerId'>,
+  userId: string | undefined,
+  sellerHasReplied: boolean
+): boolean {
+  return !!userId && conversation.buyerId === userId && conversation.sellerId !== userId && sellerHasReplied;
+}
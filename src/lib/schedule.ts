@@ -0,0 +1,88 @@
+/**
+ * Scheduled Publishing
+ * A scheduled post is stored with the 'scheduled' status and a future publishAt, so feed
+ * queries on 'active' never see it. publishDuePosts is the step that makes it active once
+ * its time has come; the publish script runs it on a schedule and the admin sweep runs it too.
+ */
+
+import {
+  Firestore,
+  collection,
+  query,
+  where,
+  limit,
+  getDocs,
+  writeBatch,
+  deleteField,
+  serverTimestamp,
+  Timestamp,
+} from 'firebase/firestore';
+import { COLLECTIONS } from '@/lib/firebase';
+
+export const MAX_SCHEDULE_DAYS = 90;
+
+const PUBLISH_BATCH_SIZE = 400; // Under Firestore's 500 writes per batch
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isBeforePublish(publishAt: Date | null | undefined, now: number = Date.now()): boolean {
+  return !!publishAt && publishAt.getTime() > now;
+}
+
+/**
+ * Check a chosen publish date; returns an error message or null
+ */
+export function validatePublishAt(publishAt: Date, now: number = Date.now()): string | null {
+  if (isNaN(publishAt.getTime())) return 'Data publicării nu este validă';
+  if (publishAt.getTime() <= now) return 'Data publicării trebuie să fie în viitor';
+  if (publishAt.getTime() > now + MAX_SCHEDULE_DAYS * DAY_MS) {
+    return `Poți programa o postare cu cel mult ${MAX_SCHEDULE_DAYS} de zile înainte`;
+  }
+  return null;
+}
+
+/**
+ * Publish every scheduled post whose time has come; returns how many were published
+ * createdAt and sortAt become the moment it actually went live, so saved search
+ * alerts that already checked past publishAt still pick it up.
+ * Takes the Firestore instance so the publish script can share it.
+ */
+export async function publishDuePosts(db: Firestore, now: Date = new Date()): Promise<number> {
+  let published = 0;
+
+  while (true) {
+    const snapshot = await getDocs(query(
+      collection(db, COLLECTIONS.PRODUCTS),
+      where('status', '==', 'scheduled'),
+      where('publishAt', '<=', Timestamp.fromDate(now)),
+      limit(PUBLISH_BATCH_SIZE)
+    ));
+    if (snapshot.empty) break;
+
+    // Published posts drop out of the query, so every page starts from the top
+    const batch = writeBatch(db);
+    snapshot.docs.forEach((snap) => {
+      batch.update(snap.ref, {
+        status: 'active',
+        publishAt: deleteField(),
+        createdAt: serverTimestamp(),
+        sortAt: serverTimestamp(),
+        updatedAt: serverTimestamp(),
+      });
+    });
+    await batch.commit();
+
+    published += snapshot.docs.length;
+    if (snapshot.docs.length < PUBLISH_BATCH_SIZE) break;
+  }
+
+  return published;
+}
+
+/**
+ * Format a date for an <input type="datetime-local"> (local time, minute precision)
+ */
+export function toDateTimeLocalValue(date: Date): string {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000);
+  return local.toISOString().slice(0, 16);
+}
@@ -0,0 +1,182 @@
+/**
+ * Search Indexing
+ * Turns post text into normalized tokens and ranks posts against a query.
+ *
+ * - Diacritics are folded (ș/ş -> s, ț/ţ -> t, ă/â -> a, î -> i)
+ * - Words are reduced with a light Romanian suffix stemmer
+ * - Typos are tolerated through single-deletion variants (stored for title,
+ *   location and category) and an edit-distance check when ranking
+ */
+
+import { Post, CategoryKey, CATEGORY_LABELS } from '@/types';
+
+// Firestore allows at most 30 values in an array-contains-any filter
+export const MAX_QUERY_TOKENS = 30;
+
+const MIN_FUZZY_LENGTH = 4;
+const MIN_STEM_LENGTH = 3;
+
+const STOP_WORDS = new Set([
+  'si', 'sau', 'de', 'la', 'in', 'din', 'cu', 'pe', 'pentru', 'prin', 'spre',
+  'un', 'o', 'al', 'ale', 'ai', 'lui', 'este', 'sunt', 'care', 'ce', 'se',
+  'nu', 'mai', 'foarte', 'fara', 'dar', 'iar', 'the', 'and',
+]);
+
+// Longest suffixes first so 'urilor' wins over 'lor'
+const SUFFIXES = [
+  'urilor', 'urile', 'ilor', 'elor', 'ului', 'uri', 'ele', 'ile', 'iei',
+  'lor', 'lui', 'ul', 'ui', 'le', 'ii', 'ei', 'ea', 'ie', 'a', 'e', 'i', 'u',
+];
+
+/**
+ * Lowercase and strip diacritics, including the cedilla forms ş/ţ
+ */
+export function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '');
+}
+
+/**
+ * Reduce a normalized Romanian word to its stem
+ */
+export function stemWord(word: string): string {
+  for (const suffix of SUFFIXES) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= MIN_STEM_LENGTH) {
+      return word.slice(0, -suffix.length);
+    }
+  }
+  return word;
+}
+
+/**
+ * Split text into unique stems, without stop words
+ */
+export function tokenize(text: string): string[] {
+  const words = normalizeText(text).split(/[^a-z0-9]+/);
+  const stems = words
+    .filter((word) => word.length >= 2 && !STOP_WORDS.has(word))
+    .map(stemWord);
+  return Array.from(new Set(stems));
+}
+
+/**
+ * Single-character deletions of a stem, used for typo tolerance
+ */
+function deletionVariants(stem: string): string[] {
+  if (stem.length < MIN_FUZZY_LENGTH) return [];
+  const variants = new Set<string>();
+  for (let i = 0; i < stem.length; i++) {
+    variants.add(stem.slice(0, i) + stem.slice(i + 1));
+  }
+  return Array.from(variants);
+}
+
+/**
+ * Optimal string alignment distance (Levenshtein plus adjacent transpositions)
+ */
+function editDistance(a: string, b: string): number {
+  if (Math.abs(a.length - b.length) > 2) return 3;
+
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i]);
+  for (let j = 1; j <= b.length; j++) d[0][j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return d[a.length][b.length];
+}
+
+/**
+ * How many typos a query stem may contain
+ */
+function allowedTypos(stem: string): number {
+  if (stem.length >= 8) return 2;
+  if (stem.length >= MIN_FUZZY_LENGTH) return 1;
+  return 0;
+}
+
+function categoryLabel(post: Pick<Post, 'category'>): string {
+  return CATEGORY_LABELS[post.category as CategoryKey] || '';
+}
+
+/**
+ * Build the tokens stored on a post in the 'searchTokens' field
+ */
+export function buildSearchTokens(
+  post: Pick<Post, 'title' | 'description' | 'location' | 'category'>
+): string[] {
+  const keyStems = tokenize(`${post.title || ''} ${post.location || ''} ${categoryLabel(post)}`);
+  const descriptionStems = tokenize(post.description || '');
+
+  const tokens = new Set<string>([...keyStems, ...descriptionStems]);
+  keyStems.forEach((stem) => deletionVariants(stem).forEach((variant) => tokens.add(variant)));
+
+  return Array.from(tokens);
+}
+
+/**
+ * Build the values for the array-contains-any query
+ * Exact stems come first so they survive the Firestore limit
+ */
+export function buildQueryTokens(queryText: string): string[] {
+  const stems = tokenize(queryText);
+  const tokens = new Set<string>(stems);
+  stems.forEach((stem) => deletionVariants(stem).forEach((variant) => tokens.add(variant)));
+  return Array.from(tokens).slice(0, MAX_QUERY_TOKENS);
+}
+
+/**
+ * Score how well a single query stem matches a list of field stems
+ * 1 = exact, 0.8 = prefix, 0.6 = within the typo budget, 0 = no match
+ */
+function matchStrength(queryStem: string, fieldStems: string[]): number {
+  let best = 0;
+  for (const stem of fieldStems) {
+    if (stem === queryStem) return 1;
+    if (queryStem.length >= MIN_STEM_LENGTH && stem.startsWith(queryStem)) {
+      best = Math.max(best, 0.8);
+    } else if (editDistance(queryStem, stem) <= allowedTypos(queryStem)) {
+      best = Math.max(best, 0.6);
+    }
+  }
+  return best;
+}
+
+/**
+ * Relevance of a post for a query; 0 means the post does not match
+ */
+export function scorePost(post: Post, queryText: string): number {
+  const queryStems = tokenize(queryText);
+  if (queryStems.length === 0) return 0;
+
+  const fields = [
+    { stems: tokenize(post.title || ''), weight: 10 },
+    { stems: tokenize(`${post.location || ''} ${categoryLabel(post)}`), weight: 5 },
+    { stems: tokenize(post.description || ''), weight: 3 },
+  ];
+
+  let score = 0;
+  let matchedTerms = 0;
+
+  queryStems.forEach((queryStem) => {
+    const termScore = Math.max(
+      ...fields.map((field) => matchStrength(queryStem, field.stems) * field.weight)
+    );
+    if (termScore > 0) matchedTerms++;
+    score += termScore;
+  });
+
+  if (matchedTerms === 0) return 0;
+
+  // Posts matching every term rank above partial matches
+  return matchedTerms === queryStems.length ? score * 2 : score;
+}
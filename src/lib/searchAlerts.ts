@@ -0,0 +1,159 @@
+/**
+ * Saved Search Alerts
+ * Matches new posts against a saved search. Shared by the in-app check
+ * (savedSearchesService) and the email digest script, so it takes the
+ * Firestore instance instead of using the browser one.
+ */
+
+import {
+  Firestore,
+  QueryConstraint,
+  collection,
+  query,
+  where,
+  orderBy,
+  limit,
+  getDocs,
+  Timestamp,
+} from 'firebase/firestore';
+import { COLLECTIONS } from '@/lib/firebase';
+import { dataToPost } from '@/lib/converters';
+import { buildQueryTokens, scorePost } from '@/lib/search';
+import { matchesFilters, filtersToQueryString } from '@/lib/filters';
+import { formatPrice } from '@/lib/utils';
+import { BASE_CURRENCY } from '@/lib/currency';
+import { Post, PostFilters, SavedSearch, CATEGORY_LABELS } from '@/types';
+
+// Posts looked at per page, and pages per search on each check
+export const ALERT_SCAN_LIMIT = 50;
+const ALERT_SCAN_MAX_PAGES = 4;
+
+// Date posted and availability make no sense for alerts about new posts
+const ALERT_FILTER_KEYS: (keyof PostFilters)[] = [
+  'minPrice',
+  'maxPrice',
+  'currency',
+  'location',
+  'hasPhotos',
+  'hasVideos',
+];
+
+type SearchCriteria = Pick<SavedSearch, 'query' | 'category' | 'filters'>;
+
+/**
+ * Keep only the filters a saved search alerts on
+ */
+export function toAlertFilters(filters: PostFilters): PostFilters {
+  const alertFilters: PostFilters = {};
+  ALERT_FILTER_KEYS.forEach((key) => {
+    if (filters[key] !== undefined) {
+      Object.assign(alertFilters, { [key]: filters[key] });
+    }
+  });
+  return alertFilters;
+}
+
+/**
+ * A saved search needs keywords or a category; filters alone would match the whole site
+ */
+export function hasSearchCriteria(search: Pick<SavedSearch, 'query' | 'category'>): boolean {
+  return !!search.query?.trim() || !!search.category;
+}
+
+export function matchesSavedSearch(post: Post, search: SearchCriteria): boolean {
+  if (post.status !== 'active') return false;
+  if (search.category && post.category !== search.category) return false;
+  if (search.query && scorePost(post, search.query) === 0) return false;
+  return matchesFilters(post, search.filters);
+}
+
+/**
+ * Short summary, e.g. „bmw x5” · Auto · 5.000 € – 20.000 € · Cluj
+ */
+export function describeSavedSearch(search: SearchCriteria): string {
+  const { filters } = search;
+  const parts: string[] = [];
+
+  if (search.query) parts.push(`„${search.query}”`);
+  if (search.category) parts.push(CATEGORY_LABELS[search.category]);
+
+  const currency = filters.currency || BASE_CURRENCY;
+  if (filters.minPrice !== undefined && filters.maxPrice !== undefined) {
+    parts.push(`${formatPrice(filters.minPrice, currency)} – ${formatPrice(filters.maxPrice, currency)}`);
+  } else if (filters.minPrice !== undefined) {
+    parts.push(`de la ${formatPrice(filters.minPrice, currency)}`);
+  } else if (filters.maxPrice !== undefined) {
+    parts.push(`până la ${formatPrice(filters.maxPrice, currency)}`);
+  }
+
+  if (filters.location) parts.push(filters.location);
+  if (filters.hasPhotos) parts.push('cu fotografii');
+  if (filters.hasVideos) parts.push('cu video');
+
+  return parts.join(' · ');
+}
+
+/**
+ * Page showing the current results of a saved search
+ */
+export function savedSearchHref(search: SearchCriteria): string {
+  if (search.query) {
+    return `/cautare?q=${encodeURIComponent(search.query)}`;
+  }
+  const queryString = filtersToQueryString(search.filters);
+  return `/categorie/${search.category}${queryString ? `?${queryString}` : ''}`;
+}
+
+// One alert per search and post, so running a check twice can't duplicate it
+export function searchAlertId(searchId: string, postId: string): string {
+  return `${searchId}_${postId}`;
+}
+
+/**
+ * Active posts published in (since, until] that match the search, newest first
+ * The window is read oldest first, a page at a time. When the page cap is hit,
+ * checkedUntil stops at the last post looked at, so the next check carries on
+ * from there instead of skipping the rest. Otherwise it is 'until'.
+ * Scheduled posts get their createdAt when they are published, so they are found then
+ */
+export async function findNewMatches(
+  db: Firestore,
+  search: SearchCriteria,
+  since: Date,
+  until: Date
+): Promise<{ posts: Post[]; checkedUntil: Date }> {
+  const constraints: QueryConstraint[] = [where('status', '==', 'active')];
+
+  // Reuses the search and feed indexes; the category is checked per post for keyword searches
+  const tokens = search.query ? buildQueryTokens(search.query) : [];
+  if (tokens.length > 0) {
+    constraints.push(where('searchTokens', 'array-contains-any', tokens));
+  } else if (search.category) {
+    constraints.push(where('category', '==', search.category));
+  }
+
+  constraints.push(
+    where('createdAt', '<=', Timestamp.fromDate(until)),
+    orderBy('createdAt', 'asc'),
+    limit(ALERT_SCAN_LIMIT)
+  );
+
+  const matches: Post[] = [];
+  let checkedFrom = since;
+  for (let page = 0; page < ALERT_SCAN_MAX_PAGES; page++) {
+    const snapshot = await getDocs(query(
+      collection(db, COLLECTIONS.PRODUCTS),
+      where('createdAt', '>', Timestamp.fromDate(checkedFrom)),
+      ...constraints
+    ));
+    const posts = snapshot.docs.map((snap) => dataToPost(snap.id, snap.data()));
+    matches.push(...posts.filter((post) => matchesSavedSearch(post, search)));
+
+    if (posts.length < ALERT_SCAN_LIMIT) {
+      return { posts: matches.reverse(), checkedUntil: until };
+    }
+    checkedFrom = posts[posts.length - 1].createdAt || until;
+  }
+
+  return { posts: matches.reverse(), checkedUntil: checkedFrom };
+}
@@ -0,0 +1,52 @@
+/**
+ * User Suspensions
+ * An admin suspends a user for a number of days or for good. While it lasts
+ * the user sees an explanation page instead of the app, and their listings are hidden.
+ */
+
+import { UserSuspension } from '@/types';
+
+export const MAX_SUSPENSION_REASON_LENGTH = 500;
+
+// Choices in the admin's suspend dialog; null is a permanent ban
+export const SUSPENSION_DURATIONS: { days: number | null; label: string }[] = [
+  { days: 1, label: '1 zi' },
+  { days: 7, label: '7 zile' },
+  { days: 30, label: '30 de zile' },
+  { days: 90, label: '90 de zile' },
+  { days: null, label: 'Permanent' },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * End of a suspension starting at 'from'
+ */
+export function suspensionEnd(days: number | null, from: Date = new Date()): Date | null {
+  return days === null ? null : new Date(from.getTime() + days * DAY_MS);
+}
+
+export function isSuspensionActive(
+  suspension: UserSuspension | null | undefined,
+  now: number = Date.now()
+): boolean {
+  return !!suspension && (!suspension.until || suspension.until.getTime() > now);
+}
+
+/**
+ * Whether a suspension ran out and its hidden listings can come back
+ */
+export function isSuspensionLapsed(
+  suspension: UserSuspension | null | undefined,
+  now: number = Date.now()
+): boolean {
+  return !!suspension && !isSuspensionActive(suspension, now);
+}
+
+/**
+ * "permanent" or "până pe 12.03.2026, 14:00"
+ */
+export function describeSuspensionEnd(suspension: Pick<UserSuspension, 'until'>): string {
+  if (!suspension.until) return 'permanent';
+  return `până pe ${suspension.until.toLocaleString('ro-RO', { dateStyle: 'short', timeStyle: 'short' })}`;
+}
@@ -0,0 +1,153 @@
+'use client';
+
+/**
+ * Admin Log Service
+ * Every admin action is appended to adminLog: who did it, to what, why, and for
+ * deletions a snapshot of the content as it was. Entries are only ever added, and
+ * are written before or together with the action, never after it.
+ * Comments deleted along with the target are kept one per document under the entry
+ * (adminLog/{id}/comments), so a long thread can't push the entry past Firestore's size limit.
+ */
+
+import {
+  doc,
+  setDoc,
+  writeBatch,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  limit,
+  startAfter,
+  serverTimestamp,
+  DocumentData,
+  QueryConstraint,
+  QueryDocumentSnapshot,
+  DocumentReference,
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { adminLogCollection, adminLogCommentsCollection, usersCollection } from '@/lib/converters';
+import { AdminLogComment, AdminLogEntry, AdminLogFilters, User } from '@/types';
+
+const LOG_PER_PAGE = 30;
+const COMMENTS_BATCH_SIZE = 400; // Under Firestore's 500 writes per batch
+
+// Large derived fields that don't help anyone reading a snapshot
+const SNAPSHOT_SKIPPED_FIELDS = ['searchTokens'];
+
+export type AdminLogInput = Pick<AdminLogEntry, 'action' | 'targetType' | 'targetId' | 'targetLabel'> & {
+  targetOwnerId?: string;
+  postId?: string;
+  reason?: string;
+  snapshot?: DocumentData | null;
+  snapshotComments?: DocumentData[]; // Deleted with the target, see the header
+};
+
+// The part of a Transaction or WriteBatch the log needs
+interface AdminLogWriter {
+  set(documentRef: DocumentReference<DocumentData, DocumentData>, data: DocumentData): unknown;
+}
+
+function adminLogData(admin: User, input: AdminLogInput): DocumentData {
+  const snapshot = input.snapshot
+    ? Object.fromEntries(Object.entries(input.snapshot).filter(([field]) => !SNAPSHOT_SKIPPED_FIELDS.includes(field)))
+    : null;
+
+  return {
+    action: input.action,
+    actorId: admin.id,
+    actorName: admin.fullName || admin.email,
+    targetType: input.targetType,
+    targetId: input.targetId,
+    targetLabel: input.targetLabel.slice(0, 200),
+    targetOwnerId: input.targetOwnerId || '',
+    ...(input.postId && { postId: input.postId }),
+    reason: (input.reason || '').trim(),
+    snapshot,
+    ...(input.snapshotComments && { snapshotCommentsCount: input.snapshotComments.length }),
+    createdAt: serverTimestamp(),
+  };
+}
+
+/**
+ * Record an admin action before carrying it out
+ * A failed write throws, so nothing is deleted or changed without an entry.
+ * The comments go first: if the entry itself then fails they are never shown.
+ */
+export async function logAdminAction(admin: User, input: AdminLogInput): Promise<void> {
+  const entryRef = doc(adminLogCollection().withConverter(null));
+  const comments = input.snapshotComments || [];
+
+  for (let i = 0; i < comments.length; i += COMMENTS_BATCH_SIZE) {
+    const batch = writeBatch(db);
+    comments.slice(i, i + COMMENTS_BATCH_SIZE).forEach((comment) => {
+      batch.set(doc(adminLogCommentsCollection(entryRef.id).withConverter(null)), comment);
+    });
+    await batch.commit();
+  }
+
+  await setDoc(entryRef, adminLogData(admin, input));
+}
+
+/**
+ * Record an admin action in the transaction or batch that performs it,
+ * so the entry exists exactly when the action was committed
+ */
+export function logAdminActionIn(writer: AdminLogWriter, admin: User, input: AdminLogInput): void {
+  writer.set(doc(adminLogCollection().withConverter(null)), adminLogData(admin, input));
+}
+
+/**
+ * A page of the admin log, newest first
+ */
+export async function fetchAdminLog(
+  filters: AdminLogFilters = {},
+  lastDoc?: QueryDocumentSnapshot<AdminLogEntry> | null
+): Promise<{ entries: AdminLogEntry[]; lastDoc: QueryDocumentSnapshot<AdminLogEntry> | null; hasMore: boolean }> {
+  try {
+    const constraints: QueryConstraint[] = [];
+    if (filters.action) constraints.push(where('action', '==', filters.action));
+    if (filters.actorId) constraints.push(where('actorId', '==', filters.actorId));
+    if (filters.targetOwnerId) constraints.push(where('targetOwnerId', '==', filters.targetOwnerId));
+    constraints.push(orderBy('createdAt', 'desc'), limit(LOG_PER_PAGE));
+    if (lastDoc) constraints.push(startAfter(lastDoc));
+
+    const snapshot = await getDocs(query(adminLogCollection(), ...constraints));
+    return {
+      entries: snapshot.docs.map(snap => snap.data()),
+      lastDoc: snapshot.docs[snapshot.docs.length - 1] || null,
+      hasMore: snapshot.docs.length === LOG_PER_PAGE,
+    };
+  } catch (error) {
+    console.error('Error fetching admin log:', error);
+    return { entries: [], lastDoc: null, hasMore: false };
+  }
+}
+
+/**
+ * Comments kept with a log entry, oldest first
+ * Sorted client-side, since legacy comments may lack createdAt
+ */
+export async function fetchAdminLogComments(entryId: string): Promise<AdminLogComment[]> {
+  try {
+    const snapshot = await getDocs(adminLogCommentsCollection(entryId));
+    const time = (comment: AdminLogComment) => (comment.createdAt instanceof Date ? comment.createdAt.getTime() : 0);
+    return snapshot.docs.map(snap => snap.data()).sort((a, b) => time(a) - time(b));
+  } catch (error) {
+    console.error('Error fetching admin log comments:', error);
+    return [];
+  }
+}
+
+/**
+ * Everyone with the admin role, for the log's "who" filter
+ */
+export async function fetchAdmins(): Promise<User[]> {
+  try {
+    const snapshot = await getDocs(query(usersCollection(), where('role', '==', 'admin')));
+    return snapshot.docs.map(snap => snap.data());
+  } catch (error) {
+    console.error('Error fetching admins:', error);
+    return [];
+  }
+}
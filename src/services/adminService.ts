@@ -3,6 +3,7 @@
 /**
  * Admin Service
  * Handles admin-specific operations for managing posts, comments, and users
+ * Each action takes the acting admin and is recorded in the admin log (adminLogService)
  */
 
 import {
@@ -19,88 +20,53 @@ import {
   where,
   increment,
   updateDoc,
-  collectionGroup,
+  documentId,
+  writeBatch,
+  Timestamp,
+  DocumentData,
+  DocumentReference,
+  DocumentSnapshot,
+  serverTimestamp,
+  deleteField,
+  runTransaction,
 } from 'firebase/firestore';
 import { ref, deleteObject } from 'firebase/storage';
 import { db, storage, COLLECTIONS } from '@/lib/firebase';
-import { Post, User, Comment } from '@/types';
+import { Post, User, Comment, CommentRevision, Review, Report, DEFAULT_CATEGORY } from '@/types';
 import { timestampToDate } from '@/lib/utils';
 import { postsCache } from '@/lib/cache';
+import {
+  postsCollection,
+  usersCollection,
+  userDoc,
+  allCommentsGroup,
+  allRepliesGroup,
+  commentDocRef,
+  commentRevisionsCollection,
+  reviewsCollection,
+  allReviewsGroup,
+  reportsCollection,
+  postDoc,
+  collectMediaUrls,
+  isCategoryKey,
+  dataToPost,
+} from '@/lib/converters';
+import { buildSearchTokens } from '@/lib/search';
+import { toNormalizedPrice } from '@/lib/currency';
+import { computeExpiresAt, ExpiryDays } from '@/lib/expiry';
+import { isBeforePublish, publishDuePosts } from '@/lib/schedule';
+import { ReportGroup, describeReportReasons } from '@/lib/reports';
+import { suspensionEnd, describeSuspensionEnd, MAX_SUSPENSION_REASON_LENGTH } from '@/lib/suspensions';
+import { getExpiryDays } from '@/services/settingsService';
+import { notify } from '@/services/notificationsService';
+import { deleteComment, deletePostCounters } from '@/services/postsService';
+import { migrateLegacyLikes } from '@/services/likesService';
+import { hideSellerPosts, restoreSellerPosts, endLapsedSuspensions } from '@/services/suspensionsService';
+import { clearUserCache } from '@/services/usersService';
+import { logAdminAction, logAdminActionIn } from '@/services/adminLogService';
 
 const ITEMS_PER_PAGE = 20;
-
-/**
- * Convert Firestore document to Post object (simplified for admin)
- */
-function docToPost(docSnap: QueryDocumentSnapshot): Post {
-  const data = docSnap.data();
-  
-  const imageUrls: string[] = [];
-  const videoUrls: string[] = [];
-  
-  if (data.images && Array.isArray(data.images)) {
-    imageUrls.push(...data.images);
-  }
-  if (data.videos && Array.isArray(data.videos)) {
-    videoUrls.push(...data.videos);
-  }
-  if (data.fileUrls && Array.isArray(data.fileUrls)) {
-    data.fileUrls.forEach((url: string) => {
-      if (url.toLowerCase().includes('video')) {
-        videoUrls.push(url);
-      } else {
-        imageUrls.push(url);
-      }
-    });
-  }
-
-  return {
-    id: docSnap.id,
-    title: data.name || data.title || '',
-    description: data.description || '',
-    price: data.price,
-    currency: data.currency || 'RON',
-    location: data.sellerCity || data.location || '',
-    category: data.category,
-    images: imageUrls,
-    videos: videoUrls,
-    media: [],
-    userId: data.sellerId || data.userId,
-    sellerId: data.sellerId,
-    userEmail: data.sellerEmail || data.userEmail || '',
-    userName: data.sellerName || data.userName || '',
-    userImage: data.sellerProfilePic || data.userImage || '',
-    status: data.status || 'active',
-    views: data.views || 0,
-    saves: data.likeCount || data.saves || 0,
-    likes: data.likes || [],
-    likesCount: data.likesCount || 0,
-    commentsCount: data.commentsCount || 0,
-    createdAt: timestampToDate(data.createdAt),
-    updatedAt: timestampToDate(data.updatedAt),
-  };
-}
-
-/**
- * Convert Firestore document to User object
- */
-function docToUser(docSnap: QueryDocumentSnapshot): User {
-  const data = docSnap.data();
-  return {
-    id: docSnap.id,
-    uid: data.uid || docSnap.id,
-    email: data.email || '',
-    fullName: data.fullName || '',
-    phone: data.phone || '',
-    city: data.city || '',
-    profileImage: data.profileImage || '',
-    coverImage: data.coverImage || '',
-    bio: data.bio || '',
-    role: data.role || 'user',
-    createdAt: timestampToDate(data.createdAt),
-    updatedAt: timestampToDate(data.updatedAt),
-  };
-}
+const NORMALIZE_BATCH_SIZE = 200;
 
 /**
  * Fetch all posts for admin (including inactive)
@@ -110,14 +76,14 @@ export async function fetchAllPostsAdmin(
 ): Promise<{ posts: Post[]; lastDoc: QueryDocumentSnapshot | null; hasMore: boolean }> {
   try {
     let postsQuery = query(
-      collection(db, COLLECTIONS.PRODUCTS),
+      postsCollection(),
       orderBy('createdAt', 'desc'),
       limit(ITEMS_PER_PAGE)
     );
 
     if (lastDoc) {
       postsQuery = query(
-        collection(db, COLLECTIONS.PRODUCTS),
+        postsCollection(),
         orderBy('createdAt', 'desc'),
         startAfter(lastDoc),
         limit(ITEMS_PER_PAGE)
@@ -125,7 +91,7 @@ export async function fetchAllPostsAdmin(
     }
 
     const snapshot = await getDocs(postsQuery);
-    const posts = snapshot.docs.map(docToPost);
+    const posts = snapshot.docs.map((postSnap) => postSnap.data());
     const newLastDoc = snapshot.docs[snapshot.docs.length - 1] || null;
 
     return {
@@ -147,14 +113,14 @@ export async function fetchAllUsersAdmin(
 ): Promise<{ users: User[]; lastDoc: QueryDocumentSnapshot | null; hasMore: boolean }> {
   try {
     let usersQuery = query(
-      collection(db, COLLECTIONS.USERS),
+      usersCollection(),
       orderBy('createdAt', 'desc'),
       limit(ITEMS_PER_PAGE)
     );
 
     if (lastDoc) {
       usersQuery = query(
-        collection(db, COLLECTIONS.USERS),
+        usersCollection(),
         orderBy('createdAt', 'desc'),
         startAfter(lastDoc),
         limit(ITEMS_PER_PAGE)
@@ -162,7 +128,7 @@ export async function fetchAllUsersAdmin(
     }
 
     const snapshot = await getDocs(usersQuery);
-    const users = snapshot.docs.map(docToUser);
+    const users = snapshot.docs.map((userSnap) => userSnap.data());
     const newLastDoc = snapshot.docs[snapshot.docs.length - 1] || null;
 
     return {
@@ -186,32 +152,19 @@ export async function fetchAllCommentsAdmin(): Promise<{ comments: (Comment & {
     // Use collectionGroup to fetch all comments from all posts in a single query
     // No orderBy to avoid requiring a Firestore index
     const commentsQuery = query(
-      collectionGroup(db, 'comments'),
+      allCommentsGroup(),
       limit(200) // Fetch more since we'll sort client-side
     );
+    const repliesQuery = query(allRepliesGroup(), limit(200));
     
-    const commentsSnapshot = await getDocs(commentsQuery);
+    const [commentsSnapshot, repliesSnapshot] = await Promise.all([
+      getDocs(commentsQuery),
+      getDocs(repliesQuery),
+    ]);
+    const comments = [...commentsSnapshot.docs, ...repliesSnapshot.docs].map((commentSnap) => commentSnap.data());
     
     // Collect unique post IDs
-    const postIds = new Set<string>();
-    const commentsData: Array<{
-      id: string;
-      postId: string;
-      data: Record<string, unknown>;
-    }> = [];
-    
-    commentsSnapshot.docs.forEach((commentDoc) => {
-      // Extract postId from the document path: products/{postId}/comments/{commentId}
-      const pathParts = commentDoc.ref.path.split('/');
-      const postId = pathParts[1]; // products/{postId}/comments/{commentId}
-      
-      postIds.add(postId);
-      commentsData.push({
-        id: commentDoc.id,
-        postId,
-        data: commentDoc.data() as Record<string, unknown>,
-      });
-    });
+    const postIds = new Set<string>(comments.map((comment) => comment.postId));
     
     // Fetch post titles in parallel (batch of 10 for Firestore 'in' query limit)
     const postTitles: Record<string, string> = {};
@@ -226,26 +179,19 @@ export async function fetchAllCommentsAdmin(): Promise<{ comments: (Comment & {
     
     await Promise.all(batches.map(async (batch) => {
       const postsQuery = query(
-        collection(db, COLLECTIONS.PRODUCTS),
-        where('__name__', 'in', batch)
+        postsCollection(),
+        where(documentId(), 'in', batch)
       );
       const postsSnapshot = await getDocs(postsQuery);
-      postsSnapshot.docs.forEach((postDoc) => {
-        const data = postDoc.data();
-        postTitles[postDoc.id] = data.name || data.title || 'Postare fără titlu';
+      postsSnapshot.docs.forEach((postSnap) => {
+        postTitles[postSnap.id] = postSnap.data().title || 'Postare fără titlu';
       });
     }));
     
     // Build comments array with post titles
-    const allComments: (Comment & { postTitle?: string })[] = commentsData.map((comment) => ({
-      id: comment.id,
-      postId: comment.postId,
+    const allComments: (Comment & { postTitle?: string })[] = comments.map((comment) => ({
+      ...comment,
       postTitle: postTitles[comment.postId] || 'Postare fără titlu',
-      userId: comment.data.userId as string,
-      userName: comment.data.userName as string,
-      userImage: comment.data.userImage as string | undefined,
-      text: comment.data.text as string,
-      createdAt: timestampToDate(comment.data.createdAt),
     }));
     
     // Sort by createdAt descending (newest first) - client-side to avoid index requirement
@@ -263,11 +209,50 @@ export async function fetchAllCommentsAdmin(): Promise<{ comments: (Comment & {
   }
 }
 
+/**
+ * Text a comment had before each edit, oldest first
+ */
+async function snapshotRevisions(commentRef: DocumentReference): Promise<DocumentData[]> {
+  const snapshot = await getDocs(query(collection(commentRef, 'revisions'), orderBy('replacedAt', 'asc')));
+  return snapshot.docs.map(revisionSnap => revisionSnap.data());
+}
+
+/**
+ * A comment as the admin log keeps it, with its edit history
+ * Read before deleting, since all of it goes
+ */
+async function snapshotComment(commentSnap: DocumentSnapshot): Promise<DocumentData> {
+  const data = commentSnap.data() || {};
+  const revisions = data.editedAt ? await snapshotRevisions(commentSnap.ref) : [];
+
+  return {
+    commentId: commentSnap.id,
+    ...data,
+    ...(revisions.length > 0 && { revisions }),
+  };
+}
+
+/**
+ * Every reply to a top-level comment, for the log entry's comments
+ */
+async function snapshotReplies(commentSnap: DocumentSnapshot): Promise<DocumentData[]> {
+  const repliesSnapshot = await getDocs(collection(commentSnap.ref, 'replies'));
+  const replies: DocumentData[] = [];
+  for (const replySnap of repliesSnapshot.docs) {
+    replies.push(await snapshotComment(replySnap));
+  }
+  return replies;
+}
+
 /**
  * Delete a post completely (hard delete) - Admin version
- * Removes post, all media, and all comments
+ * Removes post, all media, all comments, likes and view counts, then tells the author
  */
-export async function adminDeletePost(postId: string): Promise<{ success: boolean; error?: string }> {
+export async function adminDeletePost(
+  admin: User,
+  postId: string,
+  reason: string = ''
+): Promise<{ success: boolean; error?: string }> {
   try {
     const docRef = doc(db, COLLECTIONS.PRODUCTS, postId);
     const docSnap = await getDoc(docRef);
@@ -276,26 +261,27 @@ export async function adminDeletePost(postId: string): Promise<{ success: boolea
       return { success: false, error: 'Postarea nu a fost găsită' };
     }
 
-    const data = docSnap.data();
-    
-    // Collect all media URLs
-    const mediaUrls: string[] = [];
-    
-    if (data.fileUrls && Array.isArray(data.fileUrls)) {
-      mediaUrls.push(...data.fileUrls);
-    }
-    if (data.fileUrl && typeof data.fileUrl === 'string') {
-      mediaUrls.push(data.fileUrl);
-    }
-    if (data.imageUrl && typeof data.imageUrl === 'string') {
-      mediaUrls.push(data.imageUrl);
-    }
-    if (data.images && Array.isArray(data.images)) {
-      mediaUrls.push(...data.images);
-    }
-    if (data.videos && Array.isArray(data.videos)) {
-      mediaUrls.push(...data.videos);
+    const { userId, sellerId, title } = docSnap.data();
+    const commentsRef = collection(db, COLLECTIONS.PRODUCTS, postId, 'comments');
+    const commentsSnapshot = await getDocs(commentsRef);
+
+    const comments: DocumentData[] = [];
+    for (const commentDoc of commentsSnapshot.docs) {
+      comments.push(await snapshotComment(commentDoc), ...(await snapshotReplies(commentDoc)));
     }
+    await logAdminAction(admin, {
+      action: 'delete_post',
+      targetType: 'post',
+      targetId: postId,
+      targetLabel: title || '',
+      targetOwnerId: userId || sellerId,
+      reason,
+      snapshot: docSnap.data(),
+      snapshotComments: comments,
+    });
+
+    // Collect all media URLs
+    const mediaUrls = collectMediaUrls(docSnap.data());
 
     // Delete media files from Firebase Storage
     for (const url of mediaUrls) {
@@ -312,20 +298,35 @@ export async function adminDeletePost(postId: string): Promise<{ success: boolea
       }
     }
 
-    // Delete all comments in the subcollection
-    const commentsRef = collection(db, COLLECTIONS.PRODUCTS, postId, 'comments');
-    const commentsSnapshot = await getDocs(commentsRef);
-    
+    // Delete all comments in the subcollection, with their replies and edit history
     for (const commentDoc of commentsSnapshot.docs) {
-      await deleteDoc(commentDoc.ref);
+      const repliesSnapshot = await getDocs(collection(commentDoc.ref, 'replies'));
+      for (const threadDoc of [...repliesSnapshot.docs, commentDoc]) {
+        if (threadDoc.data().editedAt) {
+          const revisionsSnapshot = await getDocs(collection(threadDoc.ref, 'revisions'));
+          for (const revisionDoc of revisionsSnapshot.docs) {
+            await deleteDoc(revisionDoc.ref);
+          }
+        }
+        await deleteDoc(threadDoc.ref);
+      }
     }
 
+    // Likes and view shards, which would otherwise outlive the post
+    await deletePostCounters(postId);
+
     // Delete the post document
     await deleteDoc(docRef);
 
     // Invalidate cache
     postsCache.clear();
 
+    await notify(userId || sellerId || '', {
+      type: 'moderation',
+      postTitle: title,
+      text: `Anunțul „${title || 'Fără titlu'}” a fost șters de un administrator.`,
+    });
+
     return { success: true };
   } catch (error) {
     console.error('Error deleting post (admin):', error);
@@ -334,21 +335,62 @@ export async function adminDeletePost(postId: string): Promise<{ success: boolea
 }
 
 /**
- * Delete a comment - Admin version
+ * What a comment said before each edit, oldest first
+ */
+export async function fetchCommentRevisions(comment: Comment): Promise<CommentRevision[]> {
+  try {
+    const snapshot = await getDocs(query(
+      commentRevisionsCollection(comment.postId, comment.id, comment.parentId),
+      orderBy('replacedAt', 'asc')
+    ));
+    return snapshot.docs.map(snap => snap.data());
+  } catch (error) {
+    console.error('Error fetching comment revisions:', error);
+    return [];
+  }
+}
+
+/**
+ * Delete a comment or reply - Admin version
+ * A top-level comment goes with its thread; the author is told which post it was on
  */
 export async function adminDeleteComment(
+  admin: User,
   postId: string,
-  commentId: string
+  commentId: string,
+  parentId?: string | null,
+  reason: string = ''
 ): Promise<{ success: boolean; error?: string }> {
   try {
-    const commentRef = doc(db, COLLECTIONS.PRODUCTS, postId, 'comments', commentId);
-    await deleteDoc(commentRef);
+    const commentSnap = await getDoc(commentDocRef(postId, commentId, parentId).withConverter(null));
+    let postTitle = '';
+    if (commentSnap.exists()) {
+      const postSnap = await getDoc(postDoc(postId));
+      postTitle = postSnap.exists() ? postSnap.data().title : '';
+      await logAdminAction(admin, {
+        action: 'delete_comment',
+        targetType: 'comment',
+        targetId: commentId,
+        targetLabel: commentSnap.data().text,
+        targetOwnerId: commentSnap.data().userId,
+        postId,
+        reason,
+        snapshot: { ...(await snapshotComment(commentSnap)), postTitle },
+        ...(!parentId && { snapshotComments: await snapshotReplies(commentSnap) }),
+      });
+    }
 
-    // Update comments count on post
-    const postRef = doc(db, COLLECTIONS.PRODUCTS, postId);
-    await updateDoc(postRef, {
-      commentsCount: increment(-1),
-    });
+    const result = await deleteComment(postId, commentId, parentId);
+    if (!result.success) return result;
+
+    if (commentSnap.exists()) {
+      await notify(commentSnap.data().userId, {
+        type: 'moderation',
+        postId,
+        postTitle,
+        text: `Comentariul tău la anunțul „${postTitle || 'Fără titlu'}” a fost șters de un administrator.`,
+      });
+    }
 
     return { success: true };
   } catch (error) {
@@ -357,14 +399,259 @@ export async function adminDeleteComment(
   }
 }
 
+/**
+ * Fetch the most recent reviews across all sellers for admin, hidden ones included
+ * Sorted client-side like comments, so no collection group index is needed
+ */
+export async function fetchAllReviewsAdmin(): Promise<{ reviews: Review[] }> {
+  try {
+    const snapshot = await getDocs(query(allReviewsGroup(), limit(200)));
+    const reviews = snapshot.docs.map((reviewSnap) => reviewSnap.data());
+    reviews.sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0));
+    return { reviews: reviews.slice(0, 100) };
+  } catch (error) {
+    console.error('Error fetching all reviews for admin:', error);
+    return { reviews: [] };
+  }
+}
+
+/**
+ * Hide or show a review - Admin version
+ * Hidden reviews leave the public list and the seller's score, but are kept
+ */
+export async function adminSetReviewHidden(
+  admin: User,
+  review: Review,
+  hidden: boolean
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const reviewRef = doc(reviewsCollection(review.sellerId), review.id);
+    const changed = await runTransaction(db, async (transaction) => {
+      const reviewSnap = await transaction.get(reviewRef);
+      if (!reviewSnap.exists()) throw new Error('Review not found');
+      const current = reviewSnap.data();
+      if (current.hidden === hidden) return false;
+
+      const sign = hidden ? -1 : 1;
+      transaction.update(reviewRef.withConverter(null), { hidden });
+      transaction.update(userDoc(review.sellerId).withConverter(null), {
+        ratingSum: increment(sign * current.rating),
+        ratingCount: increment(sign),
+      });
+      logAdminActionIn(transaction, admin, {
+        action: hidden ? 'hide_review' : 'show_review',
+        targetType: 'review',
+        targetId: review.id,
+        targetLabel: review.text,
+        targetOwnerId: review.reviewerId,
+        postId: review.postId,
+      });
+      return true;
+    });
+    if (changed && hidden) {
+      await notify(review.reviewerId, {
+        type: 'moderation',
+        profileId: review.sellerId,
+        text: `Recenzia ta pentru anunțul „${review.postTitle || 'Fără titlu'}” a fost ascunsă de un administrator.`,
+      });
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error updating review visibility (admin):', error);
+    return { success: false, error: hidden ? 'Eroare la ascunderea recenziei' : 'Eroare la afișarea recenziei' };
+  }
+}
+
+/**
+ * Delete a review - Admin version
+ * A visible review also comes off the seller's score
+ */
+export async function adminDeleteReview(
+  admin: User,
+  review: Review,
+  reason: string = ''
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const reviewRef = doc(reviewsCollection(review.sellerId), review.id);
+    const deleted = await runTransaction(db, async (transaction) => {
+      const reviewSnap = await transaction.get(reviewRef);
+      if (!reviewSnap.exists()) return false;
+      const current = reviewSnap.data();
+
+      transaction.delete(reviewRef);
+      if (!current.hidden) {
+        transaction.update(userDoc(review.sellerId).withConverter(null), {
+          ratingSum: increment(-current.rating),
+          ratingCount: increment(-1),
+        });
+      }
+      logAdminActionIn(transaction, admin, {
+        action: 'delete_review',
+        targetType: 'review',
+        targetId: review.id,
+        targetLabel: review.text,
+        targetOwnerId: review.reviewerId,
+        postId: review.postId,
+        reason,
+        snapshot: { ...current },
+      });
+      return true;
+    });
+
+    if (deleted) {
+      await notify(review.reviewerId, {
+        type: 'moderation',
+        profileId: review.sellerId,
+        text: `Recenzia ta pentru anunțul „${review.postTitle || 'Fără titlu'}” a fost ștearsă de un administrator.`,
+      });
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error deleting review (admin):', error);
+    return { success: false, error: 'Eroare la ștergerea recenziei' };
+  }
+}
+
+/**
+ * Open reports for the moderation queue, newest first
+ * Sorted client-side like comments, so only the status filter hits Firestore
+ */
+export async function fetchOpenReportsAdmin(): Promise<{ reports: Report[] }> {
+  try {
+    const snapshot = await getDocs(query(reportsCollection(), where('status', '==', 'open'), limit(500)));
+    const reports = snapshot.docs.map((reportSnap) => reportSnap.data());
+    reports.sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0));
+    return { reports };
+  } catch (error) {
+    console.error('Error fetching reports for admin:', error);
+    return { reports: [] };
+  }
+}
+
+/**
+ * Close every report about a target, logging it in the same batch
+ * The reports themselves go in the snapshot, so a dispute can see who reported what
+ */
+async function closeReports(
+  admin: User,
+  group: ReportGroup,
+  status: 'resolved' | 'dismissed'
+): Promise<void> {
+  const batch = writeBatch(db);
+  group.reports.forEach((report) => {
+    batch.update(doc(reportsCollection(), report.id).withConverter(null), {
+      status,
+      closedAt: serverTimestamp(),
+    });
+  });
+  logAdminActionIn(batch, admin, {
+    action: status === 'resolved' ? 'resolve_reports' : 'dismiss_reports',
+    targetType: 'report',
+    targetId: group.target.id,
+    targetLabel: group.target.label,
+    targetOwnerId: group.target.ownerId,
+    postId: group.target.postId,
+    reason: describeReportReasons(group),
+    snapshot: {
+      targetType: group.target.type,
+      reports: group.reports.map(({ reporterId, reason, details, conversationId }) => ({
+        reporterId,
+        reason,
+        details,
+        ...(conversationId && { conversationId }),
+      })),
+    },
+  });
+  await batch.commit();
+}
+
+/**
+ * Act on a reported target and close its reports
+ * Posts and comments are deleted, users are suspended with the given terms;
+ * a target that is already gone just closes the reports.
+ */
+export async function adminResolveReportGroup(
+  admin: User,
+  group: ReportGroup,
+  suspension?: { reason: string; days: number | null }
+): Promise<{ success: boolean; error?: string }> {
+  const { target } = group;
+  const reportReasons = `Raportat: ${describeReportReasons(group)}`;
+  if (target.type === 'user' && !suspension) {
+    return { success: false, error: 'Alege durata suspendării' };
+  }
+
+  try {
+    let result: { success: boolean; error?: string } = { success: true };
+    switch (target.type) {
+      case 'post':
+        if ((await getDoc(postDoc(target.id))).exists()) {
+          result = await adminDeletePost(admin, target.id, reportReasons);
+        }
+        break;
+      case 'comment':
+        if (target.postId && (await getDoc(commentDocRef(target.postId, target.id, target.parentId))).exists()) {
+          result = await adminDeleteComment(admin, target.postId, target.id, target.parentId, reportReasons);
+        }
+        break;
+      case 'user':
+        if (suspension && (await getDoc(userDoc(target.id))).exists()) {
+          result = await adminSuspendUser(admin, target.id, suspension.reason, suspension.days);
+        }
+        break;
+    }
+    if (!result.success) return result;
+
+    await closeReports(admin, group, 'resolved');
+    return { success: true };
+  } catch (error) {
+    console.error('Error resolving reports:', error);
+    return { success: false, error: 'Eroare la rezolvarea raportărilor' };
+  }
+}
+
+/**
+ * Close a target's reports without acting on it
+ */
+export async function adminDismissReportGroup(
+  admin: User,
+  group: ReportGroup
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    await closeReports(admin, group, 'dismissed');
+    return { success: true };
+  } catch (error) {
+    console.error('Error dismissing reports:', error);
+    return { success: false, error: 'Eroare la respingerea raportărilor' };
+  }
+}
+
 /**
  * Delete a user and optionally their posts and media
  */
 export async function adminDeleteUser(
+  admin: User,
   userId: string,
-  deleteUserPosts: boolean = false
+  deleteUserPosts: boolean = false,
+  reason: string = ''
 ): Promise<{ success: boolean; error?: string }> {
   try {
+    const userSnap = await getDoc(userDoc(userId).withConverter(null));
+    const userName = userSnap.exists() ? userSnap.data().fullName || userSnap.data().email || '' : '';
+    if (userSnap.exists()) {
+      await logAdminAction(admin, {
+        action: 'delete_user',
+        targetType: 'user',
+        targetId: userId,
+        targetLabel: userName,
+        targetOwnerId: userId,
+        reason,
+        snapshot: userSnap.data(),
+      });
+    }
+
     // Optionally delete user's posts
     if (deleteUserPosts) {
       // Find all posts by this user
@@ -389,7 +676,7 @@ export async function adminDeleteUser(
 
       // Delete each post
       for (const postId of postIds) {
-        await adminDeletePost(postId);
+        await adminDeletePost(admin, postId, `Ștergerea contului „${userName}”`);
       }
     }
 
@@ -404,14 +691,244 @@ export async function adminDeleteUser(
   }
 }
 
+/**
+ * Suspend a user for a number of days, or for good when days is null
+ * Their public listings are hidden until the suspension is lifted or runs out
+ */
+export async function adminSuspendUser(
+  admin: User,
+  userId: string,
+  reason: string,
+  days: number | null
+): Promise<{ success: boolean; error?: string }> {
+  const trimmed = reason.trim().slice(0, MAX_SUSPENSION_REASON_LENGTH);
+  if (!trimmed) {
+    return { success: false, error: 'Scrie motivul suspendării' };
+  }
+
+  try {
+    const until = suspensionEnd(days);
+    const userSnap = await getDoc(userDoc(userId));
+    const batch = writeBatch(db);
+    batch.update(userDoc(userId).withConverter(null), {
+      suspension: {
+        reason: trimmed,
+        until: until ? Timestamp.fromDate(until) : null,
+        suspendedBy: admin.id,
+        suspendedAt: serverTimestamp(),
+      },
+    });
+    logAdminActionIn(batch, admin, {
+      action: 'suspend_user',
+      targetType: 'user',
+      targetId: userId,
+      targetLabel: userSnap.exists() ? userSnap.data().fullName || userSnap.data().email : '',
+      targetOwnerId: userId,
+      reason: `${trimmed} (${describeSuspensionEnd({ until })})`,
+    });
+    await batch.commit();
+
+    await hideSellerPosts(userId);
+    clearUserCache(userId);
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error suspending user (admin):', error);
+    return { success: false, error: 'Eroare la suspendarea utilizatorului' };
+  }
+}
+
+/**
+ * Lift a user's suspension and bring their listings back
+ */
+export async function adminLiftSuspension(admin: User, userId: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const userSnap = await getDoc(userDoc(userId));
+    const previous = userSnap.exists() ? userSnap.data() : null;
+    await logAdminAction(admin, {
+      action: 'lift_suspension',
+      targetType: 'user',
+      targetId: userId,
+      targetLabel: previous ? previous.fullName || previous.email : '',
+      targetOwnerId: userId,
+      snapshot: previous?.suspension ? { suspension: previous.suspension } : null,
+    });
+
+    await restoreSellerPosts(userId);
+    await updateDoc(userDoc(userId).withConverter(null), { suspension: deleteField() });
+    clearUserCache(userId);
+
+    await notify(userId, {
+      type: 'moderation',
+      text: 'Suspendarea contului tău a fost ridicată. Anunțurile tale sunt din nou vizibile.',
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error lifting suspension (admin):', error);
+    return { success: false, error: 'Eroare la ridicarea suspendării' };
+  }
+}
+
+/**
+ * Build the field updates a legacy post needs to show up in feed queries
+ * Returns null when the document already has every field the feed, sort and search queries use
+ */
+function getLegacyPostFixes(
+  id: string,
+  data: DocumentData,
+  expiryDays: ExpiryDays
+): Record<string, unknown> | null {
+  const fixes: Record<string, unknown> = {};
+
+  if (!data.status) {
+    fixes.status = 'active';
+  }
+
+  // Scheduled posts used to be stored as 'active' and only read as scheduled
+  if (data.status === 'active' && isBeforePublish(timestampToDate(data.publishAt))) {
+    fixes.status = 'scheduled';
+  }
+
+  // Posts without a known category were always listed under construction
+  if (!isCategoryKey(data.category)) {
+    fixes.category = DEFAULT_CATEGORY;
+  }
+
+  const post = dataToPost(id, data);
+
+  // Posts without search tokens never show up in /cautare
+  if (!Array.isArray(data.searchTokens)) {
+    fixes.searchTokens = buildSearchTokens(post);
+  }
+
+  // Sorted feeds only list documents that have the sort field
+  if (typeof data.likesCount !== 'number') {
+    fixes.likesCount = post.likesCount || 0;
+  }
+  if (typeof data.commentsCount !== 'number') {
+    fixes.commentsCount = post.commentsCount || 0;
+  }
+  const normalizedPrice = toNormalizedPrice(post.price, post.currency);
+  if (normalizedPrice !== null && data.normalizedPrice !== normalizedPrice) {
+    fixes.normalizedPrice = normalizedPrice;
+  }
+
+  // orderBy('createdAt') skips missing values and sorts strings/numbers apart from timestamps
+  if (!(data.createdAt instanceof Timestamp)) {
+    const createdAt = timestampToDate(data.createdAt) || timestampToDate(data.updatedAt);
+    fixes.createdAt = createdAt ? Timestamp.fromDate(createdAt) : Timestamp.now();
+  }
+
+  // Newest-first feeds order by sortAt, which starts out as the publish date
+  if (!(data.sortAt instanceof Timestamp)) {
+    fixes.sortAt = fixes.createdAt || data.createdAt;
+  }
+
+  // Posts published before expiry existed expire as if they had it from the start
+  if (!(data.expiresAt instanceof Timestamp)) {
+    const publishedAt = (fixes.createdAt as Timestamp | undefined)?.toDate() || data.createdAt.toDate();
+    fixes.expiresAt = Timestamp.fromDate(computeExpiresAt(post.category, expiryDays, publishedAt));
+  }
+
+  return Object.keys(fixes).length > 0 ? fixes : null;
+}
+
+/**
+ * Normalize legacy posts so the server-side feed queries can find them
+ * Scans the whole collection in pages and fills in missing status, category, sort fields,
+ * search tokens, createdAt, sortAt and expiresAt, and stores the status of scheduled posts
+ */
+export async function normalizeLegacyPosts(admin: User): Promise<{
+  success: boolean;
+  scanned: number;
+  updated: number;
+  error?: string;
+}> {
+  let scanned = 0;
+  let updated = 0;
+
+  try {
+    await logAdminAction(admin, {
+      action: 'normalize_posts',
+      targetType: 'post',
+      targetId: '',
+      targetLabel: 'Postările în format vechi',
+    });
+
+    const expiryDays = await getExpiryDays();
+    let lastDoc: QueryDocumentSnapshot | null = null;
+
+    while (true) {
+      let pageQuery = query(
+        collection(db, COLLECTIONS.PRODUCTS),
+        orderBy(documentId()),
+        limit(NORMALIZE_BATCH_SIZE)
+      );
+
+      if (lastDoc) {
+        pageQuery = query(
+          collection(db, COLLECTIONS.PRODUCTS),
+          orderBy(documentId()),
+          startAfter(lastDoc),
+          limit(NORMALIZE_BATCH_SIZE)
+        );
+      }
+
+      const snapshot = await getDocs(pageQuery);
+      if (snapshot.empty) break;
+
+      const batch = writeBatch(db);
+      let batchUpdates = 0;
+
+      for (const postDoc of snapshot.docs) {
+        const data = postDoc.data();
+        let fixes = getLegacyPostFixes(postDoc.id, data, expiryDays);
+
+        // Likes now live in products/{id}/likes; move the old array over before dropping it
+        if (Array.isArray(data.likes)) {
+          const likers = data.likes.filter((uid: unknown): uid is string => typeof uid === 'string' && !!uid);
+          await migrateLegacyLikes(postDoc.id, likers, timestampToDate(data.createdAt));
+          fixes = { ...fixes, likes: deleteField() };
+        }
+
+        if (fixes) {
+          batch.update(postDoc.ref, fixes);
+          batchUpdates++;
+        }
+      }
+
+      if (batchUpdates > 0) {
+        await batch.commit();
+      }
+
+      scanned += snapshot.docs.length;
+      updated += batchUpdates;
+      lastDoc = snapshot.docs[snapshot.docs.length - 1];
+
+      if (snapshot.docs.length < NORMALIZE_BATCH_SIZE) break;
+    }
+
+    // Invalidate cache
+    if (updated > 0) {
+      postsCache.clear();
+    }
+
+    return { success: true, scanned, updated };
+  } catch (error) {
+    console.error('Error normalizing legacy posts:', error);
+    return { success: false, scanned, updated, error: 'Eroare la normalizarea postărilor vechi' };
+  }
+}
+
 /**
  * Check if a user is an admin
  */
 export async function isUserAdmin(userId: string): Promise<boolean> {
   try {
-    const userDoc = await getDoc(doc(db, COLLECTIONS.USERS, userId));
-    if (userDoc.exists()) {
-      return userDoc.data().role === 'admin';
+    const userSnap = await getDoc(userDoc(userId));
+    if (userSnap.exists()) {
+      return userSnap.data().role === 'admin';
     }
     return false;
   } catch (error) {
@@ -419,3 +936,62 @@ export async function isUserAdmin(userId: string): Promise<boolean> {
     return false;
   }
 }
+
+/**
+ * Write the 'expired' status on active posts past their expiry date
+ * Reads already treat them as expired; this makes feed queries skip them too.
+ * Also publishes scheduled posts that are due and ends temporary suspensions that
+ * ran out, bringing those listings back.
+ */
+export async function expireOverduePosts(
+  admin: User
+): Promise<{ success: boolean; expired: number; published: number; liftedSuspensions: number; error?: string }> {
+  let expired = 0;
+  let published = 0;
+  let liftedSuspensions = 0;
+
+  try {
+    await logAdminAction(admin, {
+      action: 'expire_posts',
+      targetType: 'post',
+      targetId: '',
+      targetLabel: 'Postările expirate, programate și suspendările terminate',
+    });
+
+    while (true) {
+      const snapshot = await getDocs(query(
+        collection(db, COLLECTIONS.PRODUCTS),
+        where('status', '==', 'active'),
+        where('expiresAt', '<=', Timestamp.now()),
+        limit(NORMALIZE_BATCH_SIZE)
+      ));
+      if (snapshot.empty) break;
+
+      // Updated documents drop out of the query, so every page starts from the top
+      const batch = writeBatch(db);
+      snapshot.docs.forEach((postDoc) => {
+        batch.update(postDoc.ref, { status: 'expired', updatedAt: serverTimestamp() });
+      });
+      await batch.commit();
+
+      expired += snapshot.docs.length;
+      if (snapshot.docs.length < NORMALIZE_BATCH_SIZE) break;
+    }
+
+    if (expired > 0) {
+      postsCache.clear();
+    }
+
+    published = await publishDuePosts(db);
+    if (published > 0) {
+      postsCache.clear();
+    }
+
+    liftedSuspensions = await endLapsedSuspensions();
+
+    return { success: true, expired, published, liftedSuspensions };
+  } catch (error) {
+    console.error('Error expiring posts:', error);
+    return { success: false, expired, published, liftedSuspensions, error: 'Eroare la expirarea postărilor' };
+  }
+}
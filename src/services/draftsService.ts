@@ -0,0 +1,98 @@
+'use client';
+
+/**
+ * Drafts Service
+ * Autosaved post drafts, kept in IndexedDB so the picked files survive a closed tab
+ * or a failed upload. Drafts never leave the browser.
+ */
+
+import { PostDraft } from '@/types';
+
+const DB_NAME = 'sociala';
+const DB_VERSION = 1;
+const DRAFTS_STORE = 'postDrafts';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(DRAFTS_STORE, { keyPath: 'id' });
+        store.createIndex('userId', 'userId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function runRequest<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(DRAFTS_STORE, mode).objectStore(DRAFTS_STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function createDraftId(): string {
+  return crypto.randomUUID();
+}
+
+/**
+ * Save (or overwrite) a draft
+ */
+export async function saveDraft(draft: PostDraft): Promise<{ success: boolean; error?: string }> {
+  try {
+    await runRequest('readwrite', store => store.put(draft));
+    return { success: true };
+  } catch (error) {
+    console.error('Error saving draft:', error);
+    return { success: false, error: 'Eroare la salvarea ciornei' };
+  }
+}
+
+/**
+ * Get one of the user's drafts
+ */
+export async function getDraft(draftId: string, userId: string): Promise<PostDraft | null> {
+  try {
+    const draft = await runRequest<PostDraft | undefined>('readonly', store => store.get(draftId));
+    return draft && draft.userId === userId ? draft : null;
+  } catch (error) {
+    console.error('Error fetching draft:', error);
+    return null;
+  }
+}
+
+/**
+ * All drafts of a user, most recently edited first
+ */
+export async function fetchUserDrafts(userId: string): Promise<PostDraft[]> {
+  try {
+    const drafts = await runRequest<PostDraft[]>('readonly', store => store.index('userId').getAll(userId));
+    return drafts.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  } catch (error) {
+    console.error('Error fetching drafts:', error);
+    return [];
+  }
+}
+
+/**
+ * Delete a draft (after publishing, or when the user discards it)
+ */
+export async function deleteDraft(draftId: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    await runRequest('readwrite', store => store.delete(draftId));
+    return { success: true };
+  } catch (error) {
+    console.error('Error deleting draft:', error);
+    return { success: false, error: 'Eroare la ștergerea ciornei' };
+  }
+}
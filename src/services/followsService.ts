@@ -0,0 +1,104 @@
+'use client';
+
+/**
+ * Follows Service
+ * A follow is written on both sides (users/{follower}/following/{target} and
+ * users/{target}/followers/{follower}) together with both users' counters, in one
+ * transaction. Asking for the state two users are already in changes nothing.
+ */
+
+import {
+  doc,
+  getDoc,
+  getDocs,
+  runTransaction,
+  serverTimestamp,
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { userDoc, followingCollection, followersCollection } from '@/lib/converters';
+import { clearUserCache } from '@/services/usersService';
+import { clearFollowingFeedCache } from '@/services/postsService';
+
+/**
+ * Follow (follow = true) or unfollow a user; returns the target's follower count
+ */
+export async function setFollowing(
+  followerId: string,
+  targetId: string,
+  follow: boolean
+): Promise<{ success: boolean; following?: boolean; followersCount?: number; error?: string }> {
+  if (followerId === targetId) {
+    return { success: false, error: 'Nu te poți urmări pe tine însuți' };
+  }
+
+  try {
+    const followingRef = doc(followingCollection(followerId), targetId);
+    const followerRef = doc(followersCollection(targetId), followerId);
+
+    const followersCount = await runTransaction(db, async (transaction) => {
+      const [followingSnap, followerSnap, targetSnap] = await Promise.all([
+        transaction.get(followingRef),
+        transaction.get(userDoc(followerId)),
+        transaction.get(userDoc(targetId)),
+      ]);
+      if (!targetSnap.exists()) throw new Error('User not found');
+
+      const current = targetSnap.data().followersCount;
+      if (followingSnap.exists() === follow) return current;
+
+      const delta = follow ? 1 : -1;
+      const createdAt = serverTimestamp();
+      if (follow) {
+        transaction.set(followingRef, { userId: targetId, createdAt });
+        transaction.set(followerRef, { userId: followerId, createdAt });
+      } else {
+        transaction.delete(followingRef);
+        transaction.delete(followerRef);
+      }
+
+      const nextFollowers = Math.max(0, current + delta);
+      transaction.update(userDoc(targetId).withConverter(null), { followersCount: nextFollowers });
+      if (followerSnap.exists()) {
+        transaction.update(userDoc(followerId).withConverter(null), {
+          followingCount: Math.max(0, followerSnap.data().followingCount + delta),
+        });
+      }
+      return nextFollowers;
+    });
+
+    clearUserCache(followerId);
+    clearUserCache(targetId);
+    clearFollowingFeedCache(followerId);
+
+    return { success: true, following: follow, followersCount };
+  } catch (error) {
+    console.error('Error updating follow:', error);
+    return { success: false, error: follow ? 'Eroare la urmărire' : 'Eroare la anularea urmăririi' };
+  }
+}
+
+/**
+ * Whether followerId follows targetId
+ */
+export async function isFollowing(followerId: string, targetId: string): Promise<boolean> {
+  try {
+    const snap = await getDoc(doc(followingCollection(followerId), targetId));
+    return snap.exists();
+  } catch (error) {
+    console.error('Error checking follow status:', error);
+    return false;
+  }
+}
+
+/**
+ * IDs of every user a user follows
+ */
+export async function getFollowingIds(userId: string): Promise<string[]> {
+  try {
+    const snapshot = await getDocs(followingCollection(userId));
+    return snapshot.docs.map(snap => snap.id);
+  } catch (error) {
+    console.error('Error fetching followed users:', error);
+    return [];
+  }
+}
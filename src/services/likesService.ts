@@ -0,0 +1,168 @@
+'use client';
+
+/**
+ * Likes Service
+ * One document per like at products/{postId}/likes/{uid}. Liking and unliking run in a
+ * transaction with the post's likesCount, and asking for the state a post is already
+ * in changes nothing, so double-clicks and retries can't skew the count.
+ * Posts liked before this may still list the user in the legacy 'likes' array
+ * until normalizeLegacyPosts moves it over.
+ */
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  orderBy,
+  limit,
+  startAfter,
+  runTransaction,
+  serverTimestamp,
+  arrayRemove,
+  writeBatch,
+  Timestamp,
+  QueryConstraint,
+  QueryDocumentSnapshot,
+} from 'firebase/firestore';
+import { db, COLLECTIONS } from '@/lib/firebase';
+import { postDoc } from '@/lib/converters';
+import { timestampToDate } from '@/lib/utils';
+import { Post, User, PostLiker } from '@/types';
+import { getUserProfiles } from '@/services/usersService';
+import { notify, likeNotificationId } from '@/services/notificationsService';
+
+const LIKERS_PER_PAGE = 20;
+const MIGRATE_BATCH_SIZE = 400;
+
+function likesCollection(postId: string) {
+  return collection(db, COLLECTIONS.PRODUCTS, postId, 'likes');
+}
+
+function likeDoc(postId: string, userId: string) {
+  return doc(db, COLLECTIONS.PRODUCTS, postId, 'likes', userId);
+}
+
+/**
+ * Like (liked = true) or unlike a post; returns the resulting count
+ * The author is notified when a like is added
+ */
+export async function setPostLiked(
+  post: Post,
+  user: User,
+  liked: boolean
+): Promise<{ success: boolean; liked?: boolean; likesCount?: number; error?: string }> {
+  try {
+    const result = await runTransaction(db, async (transaction) => {
+      const [likeSnap, postSnap] = await Promise.all([
+        transaction.get(likeDoc(post.id, user.uid)),
+        transaction.get(postDoc(post.id)),
+      ]);
+      if (!postSnap.exists()) throw new Error('Post not found');
+
+      const current = postSnap.data();
+      const inLegacyArray = !!current.likes?.includes(user.uid);
+      const wasLiked = likeSnap.exists() || inLegacyArray;
+      const likesCount = current.likesCount || 0;
+      if (wasLiked === liked) return { changed: false, likesCount };
+
+      if (liked) {
+        transaction.set(likeDoc(post.id, user.uid), { userId: user.uid, createdAt: serverTimestamp() });
+      } else {
+        transaction.delete(likeDoc(post.id, user.uid));
+      }
+
+      const nextCount = Math.max(0, likesCount + (liked ? 1 : -1));
+      transaction.update(doc(db, COLLECTIONS.PRODUCTS, post.id), {
+        likesCount: nextCount,
+        ...(inLegacyArray && { likes: arrayRemove(user.uid) }),
+      });
+      return { changed: true, likesCount: nextCount };
+    });
+
+    if (result.changed && liked) {
+      await notify(post.userId || post.sellerId || '', {
+        type: 'like',
+        actorId: user.uid,
+        actorName: user.fullName || 'Anonim',
+        actorImage: user.profileImage,
+        postId: post.id,
+        postTitle: post.title,
+      }, likeNotificationId(post.id, user.uid));
+    }
+
+    return { success: true, liked, likesCount: result.likesCount };
+  } catch (error) {
+    console.error('Error updating like:', error);
+    return { success: false, error: liked ? 'Eroare la apreciere' : 'Eroare la eliminarea aprecierii' };
+  }
+}
+
+/**
+ * Whether a user has liked a post
+ */
+export async function hasUserLikedPost(post: Post, userId: string): Promise<boolean> {
+  if (post.likes?.includes(userId)) return true;
+
+  try {
+    const snap = await getDoc(likeDoc(post.id, userId));
+    return snap.exists();
+  } catch (error) {
+    console.error('Error checking like status:', error);
+    return false;
+  }
+}
+
+/**
+ * A page of the people who liked a post, most recent first
+ */
+export async function fetchPostLikers(
+  postId: string,
+  lastDoc?: QueryDocumentSnapshot | null
+): Promise<{ likers: PostLiker[]; lastDoc: QueryDocumentSnapshot | null; hasMore: boolean }> {
+  try {
+    const constraints: QueryConstraint[] = [orderBy('createdAt', 'desc'), limit(LIKERS_PER_PAGE)];
+    if (lastDoc) constraints.push(startAfter(lastDoc));
+    const snapshot = await getDocs(query(likesCollection(postId), ...constraints));
+
+    const profiles = await getUserProfiles(snapshot.docs.map(snap => snap.id));
+    const likers = snapshot.docs.map(snap => {
+      const profile = profiles[snap.id];
+      return {
+        userId: snap.id,
+        fullName: profile?.fullName || 'Utilizator',
+        profileImage: profile?.profileImage,
+        likedAt: timestampToDate(snap.data().createdAt),
+      };
+    });
+
+    return {
+      likers,
+      lastDoc: snapshot.docs[snapshot.docs.length - 1] || null,
+      hasMore: snapshot.docs.length === LIKERS_PER_PAGE,
+    };
+  } catch (error) {
+    console.error('Error fetching likers:', error);
+    return { likers: [], lastDoc: null, hasMore: false };
+  }
+}
+
+/**
+ * Copy a post's legacy 'likes' array into like documents, dated to the post
+ * Used by normalizeLegacyPosts before it drops the array
+ */
+export async function migrateLegacyLikes(
+  postId: string,
+  userIds: string[],
+  likedAt: Date | null
+): Promise<void> {
+  const createdAt = likedAt ? Timestamp.fromDate(likedAt) : serverTimestamp();
+  for (let i = 0; i < userIds.length; i += MIGRATE_BATCH_SIZE) {
+    const batch = writeBatch(db);
+    userIds.slice(i, i + MIGRATE_BATCH_SIZE).forEach(userId => {
+      batch.set(likeDoc(postId, userId), { userId, createdAt });
+    });
+    await batch.commit();
+  }
+}
@@ -0,0 +1,272 @@
+'use client';
+
+/**
+ * Messages Service
+ * Conversations between a buyer and a seller about a post, at conversations/{postId}_{buyerId}
+ * with the messages in a subcollection. Either side can block the other
+ * (users/{uid}/blockedUsers/{otherUid}), which stops new messages both ways.
+ */
+
+import {
+  doc,
+  getDoc,
+  setDoc,
+  deleteDoc,
+  updateDoc,
+  query,
+  where,
+  orderBy,
+  limitToLast,
+  onSnapshot,
+  writeBatch,
+  increment,
+  serverTimestamp,
+  Unsubscribe,
+} from 'firebase/firestore';
+import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
+import { db, storage, COLLECTIONS } from '@/lib/firebase';
+import { conversationsCollection, conversationDoc, messagesCollection } from '@/lib/converters';
+import { queueNotification, markMessageNotificationRead, messageNotificationId } from '@/services/notificationsService';
+import { Conversation, Message, Post, User } from '@/types';
+
+const MESSAGES_LIMIT = 200;
+const MAX_MESSAGE_LENGTH = 2000;
+const MAX_IMAGE_SIZE = 10 * 1024 * 1024;
+
+function blockedUserDoc(userId: string, blockedId: string) {
+  return doc(db, COLLECTIONS.USERS, userId, 'blockedUsers', blockedId);
+}
+
+export function conversationIdFor(postId: string, buyerId: string): string {
+  return `${postId}_${buyerId}`;
+}
+
+/**
+ * The participant on the other side of a conversation
+ */
+export function otherParticipant(conversation: Conversation, userId: string): string {
+  return conversation.buyerId === userId ? conversation.sellerId : conversation.buyerId;
+}
+
+/**
+ * Open the buyer's conversation about a post, creating it on first contact
+ */
+export async function startConversation(
+  post: Post,
+  buyer: User
+): Promise<{ success: boolean; conversationId?: string; error?: string }> {
+  const sellerId = post.userId || post.sellerId;
+  if (!sellerId) {
+    return { success: false, error: 'Vânzătorul nu poate fi contactat' };
+  }
+  if (sellerId === buyer.uid) {
+    return { success: false, error: 'Nu îți poți trimite mesaje ție' };
+  }
+
+  const conversationId = conversationIdFor(post.id, buyer.uid);
+
+  try {
+    const existing = await getDoc(conversationDoc(conversationId));
+    if (!existing.exists()) {
+      await setDoc(doc(db, COLLECTIONS.CONVERSATIONS, conversationId), {
+        postId: post.id,
+        postTitle: post.title || '',
+        postImage: post.images?.[0] || '',
+        buyerId: buyer.uid,
+        sellerId,
+        participants: [buyer.uid, sellerId],
+        participantNames: {
+          [buyer.uid]: buyer.fullName || buyer.email,
+          [sellerId]: post.userName || 'Vânzător',
+        },
+        participantImages: {
+          [buyer.uid]: buyer.profileImage || '',
+          [sellerId]: post.userImage || '',
+        },
+        lastMessage: '',
+        lastSenderId: '',
+        unread: { [buyer.uid]: 0, [sellerId]: 0 },
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp(),
+      });
+    }
+
+    return { success: true, conversationId };
+  } catch (error) {
+    console.error('Error starting conversation:', error);
+    return { success: false, error: 'Eroare la deschiderea conversației' };
+  }
+}
+
+/**
+ * Listen to a user's conversations, most recent first
+ */
+export function subscribeToConversations(
+  userId: string,
+  onChange: (conversations: Conversation[]) => void
+): Unsubscribe {
+  return onSnapshot(
+    query(conversationsCollection(), where('participants', 'array-contains', userId), orderBy('updatedAt', 'desc')),
+    snapshot => onChange(snapshot.docs.map(snap => snap.data())),
+    error => console.error('Error listening to conversations:', error)
+  );
+}
+
+/**
+ * Listen to the total of a user's unread messages
+ */
+export function subscribeToUnreadCount(userId: string, onChange: (count: number) => void): Unsubscribe {
+  return subscribeToConversations(userId, conversations => {
+    onChange(conversations.reduce((sum, conversation) => sum + (conversation.unread[userId] || 0), 0));
+  });
+}
+
+/**
+ * Listen to a conversation; null when it doesn't exist
+ */
+export function subscribeToConversation(
+  conversationId: string,
+  onChange: (conversation: Conversation | null) => void
+): Unsubscribe {
+  return onSnapshot(
+    conversationDoc(conversationId),
+    snapshot => onChange(snapshot.exists() ? snapshot.data() : null),
+    error => {
+      console.error('Error listening to conversation:', error);
+      onChange(null);
+    }
+  );
+}
+
+/**
+ * Listen to the latest messages of a conversation, oldest first
+ */
+export function subscribeToMessages(
+  conversationId: string,
+  onChange: (messages: Message[]) => void
+): Unsubscribe {
+  return onSnapshot(
+    query(messagesCollection(conversationId), orderBy('createdAt', 'asc'), limitToLast(MESSAGES_LIMIT)),
+    snapshot => onChange(snapshot.docs.map(snap => snap.data())),
+    error => console.error('Error listening to messages:', error)
+  );
+}
+
+/**
+ * Whether either user has blocked the other
+ */
+export async function getBlockState(
+  userId: string,
+  otherId: string
+): Promise<{ blockedByMe: boolean; blockedMe: boolean }> {
+  try {
+    const [mine, theirs] = await Promise.all([
+      getDoc(blockedUserDoc(userId, otherId)),
+      getDoc(blockedUserDoc(otherId, userId)),
+    ]);
+    return { blockedByMe: mine.exists(), blockedMe: theirs.exists() };
+  } catch (error) {
+    console.error('Error checking block state:', error);
+    return { blockedByMe: false, blockedMe: false };
+  }
+}
+
+export async function blockUser(userId: string, blockedId: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    await setDoc(blockedUserDoc(userId, blockedId), { createdAt: serverTimestamp() });
+    return { success: true };
+  } catch (error) {
+    console.error('Error blocking user:', error);
+    return { success: false, error: 'Eroare la blocarea utilizatorului' };
+  }
+}
+
+export async function unblockUser(userId: string, blockedId: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    await deleteDoc(blockedUserDoc(userId, blockedId));
+    return { success: true };
+  } catch (error) {
+    console.error('Error unblocking user:', error);
+    return { success: false, error: 'Eroare la deblocarea utilizatorului' };
+  }
+}
+
+/**
+ * Send a text message and/or an image
+ * The recipient's unread count goes up in the same write
+ */
+export async function sendMessage(
+  conversation: Conversation,
+  senderId: string,
+  text: string,
+  image?: File
+): Promise<{ success: boolean; error?: string }> {
+  const trimmed = text.trim().slice(0, MAX_MESSAGE_LENGTH);
+  if (!trimmed && !image) {
+    return { success: false, error: 'Mesajul este gol' };
+  }
+  if (image && (!image.type.startsWith('image/') || image.size > MAX_IMAGE_SIZE)) {
+    return { success: false, error: 'Poți atașa doar imagini de cel mult 10MB' };
+  }
+
+  const recipientId = otherParticipant(conversation, senderId);
+
+  try {
+    const { blockedByMe, blockedMe } = await getBlockState(senderId, recipientId);
+    if (blockedByMe || blockedMe) {
+      return { success: false, error: 'Nu poți trimite mesaje în această conversație' };
+    }
+
+    let imageUrl: string | undefined;
+    if (image) {
+      const ext = image.name.split('.').pop() || 'jpg';
+      const imageRef = ref(storage, `messages/${conversation.id}/${senderId}_${Date.now()}.${ext}`);
+      await uploadBytes(imageRef, image);
+      imageUrl = await getDownloadURL(imageRef);
+    }
+
+    const batch = writeBatch(db);
+    batch.set(doc(messagesCollection(conversation.id).withConverter(null)), {
+      senderId,
+      text: trimmed,
+      ...(imageUrl && { imageUrl }),
+      createdAt: serverTimestamp(),
+    });
+    batch.update(doc(db, COLLECTIONS.CONVERSATIONS, conversation.id), {
+      lastMessage: trimmed || '📷 Imagine',
+      lastSenderId: senderId,
+      [`unread.${recipientId}`]: increment(1),
+      updatedAt: serverTimestamp(),
+    });
+    queueNotification(batch, recipientId, {
+      type: 'message',
+      actorId: senderId,
+      actorName: conversation.participantNames[senderId],
+      actorImage: conversation.participantImages[senderId],
+      postId: conversation.postId,
+      postTitle: conversation.postTitle,
+      conversationId: conversation.id,
+      text: trimmed || 'Imagine',
+    }, messageNotificationId(conversation.id));
+    await batch.commit();
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error sending message:', error);
+    return { success: false, error: 'Eroare la trimiterea mesajului' };
+  }
+}
+
+/**
+ * Reset a participant's unread count, along with the conversation's notification
+ */
+export async function markConversationRead(conversationId: string, userId: string): Promise<void> {
+  try {
+    await updateDoc(doc(db, COLLECTIONS.CONVERSATIONS, conversationId), {
+      [`unread.${userId}`]: 0,
+    });
+    await markMessageNotificationRead(userId, conversationId);
+  } catch (error) {
+    console.error('Error marking conversation read:', error);
+  }
+}
@@ -0,0 +1,171 @@
+'use client';
+
+/**
+ * Notifications Service
+ * In-app notifications in users/{uid}/notifications, written by the services that
+ * trigger them (likes, comments, messages, admin actions, saved search matches).
+ * Sending one never fails the action that triggered it.
+ */
+
+import {
+  doc,
+  getDoc,
+  updateDoc,
+  query,
+  where,
+  orderBy,
+  limit,
+  getDocs,
+  onSnapshot,
+  writeBatch,
+  setDoc,
+  serverTimestamp,
+  Unsubscribe,
+  WriteBatch,
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { notificationsCollection } from '@/lib/converters';
+import { AppNotification } from '@/types';
+
+const NOTIFICATIONS_LIMIT = 100;
+const MAX_TEXT_LENGTH = 200;
+const UPDATE_BATCH_SIZE = 400; // Under Firestore's 500 writes per batch
+
+export type NotificationInput = Omit<AppNotification, 'id' | 'read' | 'createdAt'>;
+
+// Deterministic ids: liking twice or a busy conversation refreshes one notification
+export function likeNotificationId(postId: string, actorId: string): string {
+  return `like_${postId}_${actorId}`;
+}
+
+export function messageNotificationId(conversationId: string): string {
+  return `message_${conversationId}`;
+}
+
+export function searchMatchNotificationId(alertId: string): string {
+  return `search_${alertId}`;
+}
+
+function notificationRef(recipientId: string, id?: string) {
+  const collectionRef = notificationsCollection(recipientId).withConverter(null);
+  return id ? doc(collectionRef, id) : doc(collectionRef);
+}
+
+function toNotificationData(notification: NotificationInput) {
+  const data: Record<string, unknown> = { read: false, createdAt: serverTimestamp() };
+  Object.entries(notification).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') data[key] = value;
+  });
+  if (typeof data.text === 'string') {
+    data.text = data.text.slice(0, MAX_TEXT_LENGTH);
+  }
+  return data;
+}
+
+/**
+ * Nobody is notified about their own actions
+ */
+function isSelfNotification(recipientId: string, notification: NotificationInput): boolean {
+  return !recipientId || notification.actorId === recipientId;
+}
+
+/**
+ * Notify a user; errors are logged, not returned
+ */
+export async function notify(recipientId: string, notification: NotificationInput, id?: string): Promise<void> {
+  if (isSelfNotification(recipientId, notification)) return;
+
+  try {
+    await setDoc(notificationRef(recipientId, id), toNotificationData(notification));
+  } catch (error) {
+    console.error('Error sending notification:', error);
+  }
+}
+
+/**
+ * Add a notification to a batch the caller commits
+ */
+export function queueNotification(
+  batch: WriteBatch,
+  recipientId: string,
+  notification: NotificationInput,
+  id?: string
+): void {
+  if (isSelfNotification(recipientId, notification)) return;
+  batch.set(notificationRef(recipientId, id), toNotificationData(notification));
+}
+
+/**
+ * Listen to a user's most recent notifications, newest first
+ */
+export function subscribeToNotifications(
+  userId: string,
+  onChange: (notifications: AppNotification[]) => void
+): Unsubscribe {
+  return onSnapshot(
+    query(notificationsCollection(userId), orderBy('createdAt', 'desc'), limit(NOTIFICATIONS_LIMIT)),
+    snapshot => onChange(snapshot.docs.map(snap => snap.data())),
+    error => console.error('Error listening to notifications:', error)
+  );
+}
+
+/**
+ * Listen to the number of unread notifications (capped at NOTIFICATIONS_LIMIT)
+ */
+export function subscribeToUnreadNotificationCount(userId: string, onChange: (count: number) => void): Unsubscribe {
+  return onSnapshot(
+    query(notificationsCollection(userId), where('read', '==', false), limit(NOTIFICATIONS_LIMIT)),
+    snapshot => onChange(snapshot.size),
+    error => console.error('Error listening to unread notifications:', error)
+  );
+}
+
+/**
+ * Mark some notifications as read, e.g. a group on the notifications page
+ */
+export async function markNotificationsRead(userId: string, ids: string[]): Promise<{ success: boolean; error?: string }> {
+  if (ids.length === 0) return { success: true };
+
+  try {
+    const batch = writeBatch(db);
+    ids.forEach(id => batch.update(notificationRef(userId, id), { read: true }));
+    await batch.commit();
+    return { success: true };
+  } catch (error) {
+    console.error('Error marking notifications read:', error);
+    return { success: false, error: 'Eroare la actualizarea notificărilor' };
+  }
+}
+
+/**
+ * Mark a conversation's message notification as read, if there is an unread one
+ * Conversations opened before any message arrived have none
+ */
+export async function markMessageNotificationRead(userId: string, conversationId: string): Promise<void> {
+  const ref = notificationRef(userId, messageNotificationId(conversationId));
+  const snap = await getDoc(ref);
+  if (snap.exists() && !snap.data().read) {
+    await updateDoc(ref, { read: true });
+  }
+}
+
+/**
+ * Mark every unread notification of a user as read, in chunks that fit a batch
+ */
+export async function markAllNotificationsRead(userId: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const snapshot = await getDocs(query(notificationsCollection(userId), where('read', '==', false)));
+    if (snapshot.empty) return { success: true };
+
+    for (let i = 0; i < snapshot.docs.length; i += UPDATE_BATCH_SIZE) {
+      const batch = writeBatch(db);
+      snapshot.docs.slice(i, i + UPDATE_BATCH_SIZE).forEach(snap => batch.update(snap.ref, { read: true }));
+      await batch.commit();
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error marking all notifications read:', error);
+    return { success: false, error: 'Eroare la actualizarea notificărilor' };
+  }
+}
@@ -17,21 +17,63 @@ import {
   updateDoc,
   deleteDoc,
   serverTimestamp,
-  DocumentSnapshot,
   startAfter,
   QueryDocumentSnapshot,
-  arrayUnion,
-  arrayRemove,
+  DocumentReference,
   increment,
   orderBy,
+  QueryConstraint,
+  OrderByDirection,
+  Timestamp,
+  deleteField,
+  writeBatch,
+  runTransaction,
 } from 'firebase/firestore';
 import { ref, uploadBytes, getDownloadURL, deleteObject } from 'firebase/storage';
 import { db, storage, COLLECTIONS } from '@/lib/firebase';
-import { Post, MediaItem, CategoryKey, CreatePostData, Comment } from '@/types';
-import { timestampToDate, getTimestampValue } from '@/lib/utils';
+import { Post, CategoryKey, CreatePostData, Comment, CommentMention, PostFilters, PostSort, MediaDraft, MediaItem, DEFAULT_CATEGORY } from '@/types';
+import { getTimestampValue } from '@/lib/utils';
 import { postsCache } from '@/lib/cache';
+import {
+  postsCollection,
+  postDoc,
+  commentsCollection,
+  repliesCollection,
+  commentDocRef,
+  commentRevisionsCollection,
+  followingCollection,
+  collectMediaUrls,
+} from '@/lib/converters';
+import { buildSearchTokens } from '@/lib/search';
+import {
+  DATE_POSTED_MS,
+  hasActiveFilters,
+  hasClientSideFilters,
+  matchesFilters,
+  isPostedWithin,
+} from '@/lib/filters';
+import { toNormalizedPrice } from '@/lib/currency';
+import { computeExpiresAt, canRenew } from '@/lib/expiry';
+import { validatePublishAt } from '@/lib/schedule';
+import { canEditComment, COMMENT_EDIT_WINDOW_MINUTES } from '@/lib/comments';
+import { resolveMentions } from '@/lib/mentions';
+import { getExpiryDays } from '@/services/settingsService';
+import { notify } from '@/services/notificationsService';
+import { getActiveSuspension } from '@/services/suspensionsService';
 
 const POSTS_PER_PAGE = 15;
+const COMMENTS_PER_PAGE = 20;
+const REPLIES_PER_PAGE = 10;
+const DELETE_BATCH_SIZE = 400; // Under Firestore's 500 writes per batch, with room for the counter
+const FOLLOWING_IN_LIMIT = 30; // Firestore's cap on values in an 'in' filter
+const FILTER_SCAN_BATCH = 50; // Documents read per page when filtering client-side
+const FILTER_SCAN_MAX_PAGES = 4;
+const SEARCH_INDEXED_FIELDS: (keyof Post)[] = ['title', 'description', 'location', 'category'];
+const PRICE_FIELDS: (keyof Post)[] = ['price', 'currency'];
+const LEGACY_MEDIA_FIELDS = ['fileUrls', 'fileUrl', 'imageUrl', 'fileType'];
+const POST_COUNTER_SUBCOLLECTIONS = ['likes', 'viewShards']; // See likesService and viewsService
+// Legacy names that reads prefer over the current field (see dataToPost)
+const LEGACY_TEXT_FIELDS: Partial<Record<keyof Post, string>> = { title: 'name', location: 'sellerCity' };
 
 // Export function to manually clear cache if needed
 export function clearPostsCache() {
@@ -39,102 +81,57 @@ export function clearPostsCache() {
 }
 
 /**
- * Convert Firestore document to Post object
- * REAL FIELD MAPPING based on actual Firebase data:
- * - name -> title
- * - fileUrls -> images (array of full URLs)
- * - sellerId -> userId
- * - sellerName -> userName
- * - sellerProfilePic -> userImage
- * - sellerCity -> location
+ * Cache key for the first page of a user's "Urmăriți" feed
  */
-function docToPost(doc: QueryDocumentSnapshot | DocumentSnapshot): Post {
-  const data = doc.data();
-  if (!data) {
-    throw new Error('Document data is undefined');
-  }
+function followingFeedCacheKey(userId: string): string {
+  return `following:${userId}`;
+}
 
-  // Check for images in multiple field formats (new and legacy)
-  const imageUrls: string[] = [];
-  const videoUrls: string[] = [];
-  
-  // Helper to check if URL is a video
-  const isVideoUrl = (url: string) => {
-    const lowerUrl = url.toLowerCase();
-    return lowerUrl.includes('.mp4') || 
-           lowerUrl.includes('.webm') || 
-           lowerUrl.includes('.mov') ||
-           lowerUrl.includes('.avi') ||
-           lowerUrl.includes('video');
-  };
-  
-  // New format: images and videos arrays (only if they have content)
-  if (data.images && Array.isArray(data.images) && data.images.length > 0) {
-    imageUrls.push(...data.images);
-  }
-  if (data.videos && Array.isArray(data.videos) && data.videos.length > 0) {
-    videoUrls.push(...data.videos);
-  }
-  
-  // Legacy format: fileUrls, fileUrl, imageUrl (only if no images/videos found)
-  if (imageUrls.length === 0 && videoUrls.length === 0) {
-    if (data.fileUrls && Array.isArray(data.fileUrls) && data.fileUrls.length > 0) {
-      // Separate videos and images based on URL or fileType
-      data.fileUrls.forEach((url: string) => {
-        if (data.fileType?.includes('video') || isVideoUrl(url)) {
-          videoUrls.push(url);
-        } else {
-          imageUrls.push(url);
-        }
-      });
-    } else if (data.fileUrl && typeof data.fileUrl === 'string') {
-      if (data.fileType?.includes('video') || isVideoUrl(data.fileUrl)) {
-        videoUrls.push(data.fileUrl);
-      } else {
-        imageUrls.push(data.fileUrl);
-      }
-    } else if (data.imageUrl && typeof data.imageUrl === 'string') {
-      imageUrls.push(data.imageUrl);
-    }
-  }
-  
-  // Build media array from images and videos
-  const media: MediaItem[] = [
-    ...imageUrls.map((url: string) => ({
-      url,
-      type: 'image' as const,
-    })),
-    ...videoUrls.map((url: string) => ({
-      url,
-      type: 'video' as const,
-    })),
-  ];
-
-  return {
-    id: doc.id,
-    title: data.name || data.title || '', // REAL field is 'name'
-    description: data.description || '',
-    price: data.price,
-    currency: data.currency || 'RON',
-    location: data.sellerCity || data.location || '', // REAL field is 'sellerCity'
-    category: data.category,
-    images: imageUrls, // Use extracted image URLs
-    videos: videoUrls, // Use extracted video URLs
-    media,
-    userId: data.sellerId || data.userId, // REAL field is 'sellerId'
-    sellerId: data.sellerId,
-    userEmail: data.sellerEmail || data.userEmail || '',
-    userName: data.sellerName || data.userName || '', // REAL field is 'sellerName'
-    userImage: data.sellerProfilePic || data.userImage || '', // REAL field is 'sellerProfilePic'
-    status: data.status || 'active',
-    views: data.views || 0,
-    saves: data.likeCount || data.saves || 0, // REAL field is 'likeCount'
-    likes: data.likes || [],
-    likesCount: data.likesCount || data.likes?.length || 0,
-    commentsCount: data.commentsCount || 0,
-    createdAt: timestampToDate(data.createdAt),
-    updatedAt: timestampToDate(data.updatedAt),
-  };
+// Called after a follow or unfollow so the feed doesn't keep serving the old authors
+export function clearFollowingFeedCache(userId: string) {
+  postsCache.invalidate(followingFeedCacheKey(userId));
+}
+
+/**
+ * Firestore ordering for each feed sort
+ * Newest first follows sortAt, so renewed posts move up; createdAt never changes
+ * and is the tie-breaker everywhere else so cursors stay stable
+ */
+const SORT_ORDERS: Record<PostSort, { field: string; direction: OrderByDirection }> = {
+  newest: { field: 'sortAt', direction: 'desc' },
+  oldest: { field: 'createdAt', direction: 'asc' },
+  price_asc: { field: 'normalizedPrice', direction: 'asc' },
+  price_desc: { field: 'normalizedPrice', direction: 'desc' },
+  most_liked: { field: 'likesCount', direction: 'desc' },
+  most_commented: { field: 'commentsCount', direction: 'desc' },
+};
+
+/**
+ * Cache key for the first page of a feed
+ * Every sort gets its own entry so switching sort never serves another order
+ */
+function feedCacheKey(category: CategoryKey | string | null | undefined, sort: PostSort): string {
+  const base = String(category || 'all');
+  return sort === 'newest' ? base : `${base}:${sort}`;
+}
+
+/**
+ * Drop every cached sort of a feed
+ */
+function invalidateFeedCache(category: CategoryKey | string | null | undefined) {
+  (Object.keys(SORT_ORDERS) as PostSort[]).forEach(sort => {
+    postsCache.invalidate(feedCacheKey(category, sort));
+  });
+}
+
+/**
+ * Whether a post returned by a feed query should be listed
+ * Expired posts are still stored as 'active' until the sweep, and so are posts scheduled
+ * before the status was stored, see dataToPost. Feeds scan past them (scanFilteredPosts)
+ * instead of dropping them from a fetched page.
+ */
+function isListedInFeed(post: Post): boolean {
+  return post.status !== 'expired' && post.status !== 'scheduled';
 }
 
 /**
@@ -143,9 +140,16 @@ function docToPost(doc: QueryDocumentSnapshot | DocumentSnapshot): Post {
  */
 export async function fetchPosts(
   category?: CategoryKey | string | null,
-  lastDoc?: QueryDocumentSnapshot | null
+  lastDoc?: QueryDocumentSnapshot | null,
+  filters: PostFilters = {},
+  sort: PostSort = 'newest'
 ): Promise<{ posts: Post[]; lastDoc: QueryDocumentSnapshot | null; hasMore: boolean; fromCache?: boolean }> {
-  const cacheKey = String(category || 'all');
+  const cacheKey = feedCacheKey(category, sort);
+
+  // Filtered views are shareable URLs with endless combinations, so they skip the cache
+  if (hasActiveFilters(filters)) {
+    return fetchPostsFromFirestore(category, lastDoc, filters, sort);
+  }
   
   try {
     // Check cache for first page
@@ -172,7 +176,7 @@ export async function fetchPosts(
         };
         
         // Background refresh - don't await
-        fetchPostsFromFirestore(category, null).then(freshData => {
+        fetchPostsFromFirestore(category, null, {}, sort).then(freshData => {
           if (freshData.posts && freshData.posts.length > 0) {
             postsCache.set(cacheKey, freshData.posts, freshData.lastDoc);
           }
@@ -183,7 +187,7 @@ export async function fetchPosts(
     }
 
     // No cache or pagination - fetch from Firestore
-    const result = await fetchPostsFromFirestore(category, lastDoc);
+    const result = await fetchPostsFromFirestore(category, lastDoc, {}, sort);
     
     // Cache first page
     if (!lastDoc && result.posts && result.posts.length > 0) {
@@ -213,67 +217,99 @@ export async function fetchPosts(
 
 /**
  * Internal function to fetch posts from Firestore
+ * Status, category and ordering are resolved by the query itself; posts that read as
+ * expired or scheduled are skipped while scanning, so every page is a full page.
+ * Legacy documents without status/category/sortAt are brought in line by
+ * normalizeLegacyPosts (adminService). Posts missing the sort field (e.g. no price)
+ * are left out of that sort by Firestore.
  */
 async function fetchPostsFromFirestore(
   category?: CategoryKey | string | null,
-  lastDoc?: QueryDocumentSnapshot | null
+  lastDoc?: QueryDocumentSnapshot | null,
+  filters: PostFilters = {},
+  sort: PostSort = 'newest'
 ): Promise<{ posts: Post[]; lastDoc: QueryDocumentSnapshot | null; hasMore: boolean }> {
-  // Build query - fetch enough to ensure we have posts after filtering
-  const queryLimit = 50; // Balance between speed and having enough posts
-  let postsQuery = query(
-    collection(db, COLLECTIONS.PRODUCTS),
-    limit(queryLimit)
-  );
-
-  if (lastDoc) {
-    postsQuery = query(
-      collection(db, COLLECTIONS.PRODUCTS),
-      startAfter(lastDoc),
-      limit(queryLimit)
-    );
-  }
+  const constraints: QueryConstraint[] = [];
+  const order = SORT_ORDERS[sort];
 
-  const snapshot = await getDocs(postsQuery);
-  // Filter out inactive posts client-side (allow posts without status or with active status)
-  let posts = snapshot.docs
-    .filter(doc => {
-      const data = doc.data();
-      return !data.status || data.status === 'active';
-    })
-    .map(docToPost);
+  switch (filters.availability) {
+    case 'sold':
+      constraints.push(where('status', '==', 'sold'));
+      break;
+    case 'all':
+      constraints.push(where('status', 'in', ['active', 'sold']));
+      break;
+    default:
+      constraints.push(where('status', '==', 'active'));
+  }
 
-  // Filter by category client-side
   if (category && category !== 'all') {
-    const otherCategories: CategoryKey[] = ['auto', 'imobiliare', 'bazar', 'contabilitate', 'agropiata'];
-    
-    if (category === 'construction') {
-      // Construction: posts without category or with category 'construction'
-      posts = posts.filter(post => {
-        const cat = post.category;
-        return !cat || cat === 'construction' || !otherCategories.includes(cat);
-      });
-    } else {
-      posts = posts.filter(post => post.category === category);
-    }
+    constraints.push(where('category', '==', category));
   }
 
-  // Sort by createdAt descending (newest first)
-  posts.sort((a, b) => {
-    const timeA = getTimestampValue(a.createdAt);
-    const timeB = getTimestampValue(b.createdAt);
-    return timeB - timeA;
-  });
+  // A createdAt range only fits queries ordered by createdAt; other sorts check it per post.
+  // Date posted is the original publish date, so renewing a post doesn't make it new
+  const dateInQuery = order.field === 'createdAt';
+  if (filters.postedWithin && dateInQuery) {
+    const since = Date.now() - DATE_POSTED_MS[filters.postedWithin];
+    constraints.push(where('createdAt', '>=', Timestamp.fromMillis(since)));
+  }
+
+  constraints.push(orderBy(order.field, order.direction));
+  if (order.field !== 'createdAt') {
+    constraints.push(orderBy('createdAt', 'desc'));
+  }
 
-  // Paginate
-  const paginatedPosts = posts.slice(0, POSTS_PER_PAGE);
-  const hasMore = posts.length > POSTS_PER_PAGE;
-  const newLastDoc = snapshot.docs[Math.min(POSTS_PER_PAGE - 1, snapshot.docs.length - 1)] || null;
+  if (hasClientSideFilters(filters) || (filters.postedWithin && !dateInQuery)) {
+    const postedWithin = dateInQuery ? undefined : filters.postedWithin;
+    return scanFilteredPosts(constraints, lastDoc || null, FILTER_SCAN_BATCH, post =>
+      isListedInFeed(post) &&
+      matchesFilters(post, filters) &&
+      (!postedWithin || isPostedWithin(post, postedWithin))
+    );
+  }
 
-  return {
-    posts: paginatedPosts,
-    lastDoc: newLastDoc,
-    hasMore,
-  };
+  // Most posts are listed, so read about a page at a time
+  return scanFilteredPosts(constraints, lastDoc || null, POSTS_PER_PAGE + 1, isListedInFeed);
+}
+
+/**
+ * Page through the query and keep posts accepted by the predicate
+ * Reads are capped per call; when the cap is hit the cursor points at the last
+ * scanned document so the next call picks up where this one stopped.
+ */
+async function scanFilteredPosts(
+  constraints: QueryConstraint[],
+  lastDoc: QueryDocumentSnapshot | null,
+  batchSize: number,
+  matches: (post: Post) => boolean
+): Promise<{ posts: Post[]; lastDoc: QueryDocumentSnapshot | null; hasMore: boolean }> {
+  const posts: Post[] = [];
+  let cursor = lastDoc;
+
+  for (let page = 0; page < FILTER_SCAN_MAX_PAGES; page++) {
+    const pageConstraints = cursor
+      ? [...constraints, startAfter(cursor), limit(batchSize)]
+      : [...constraints, limit(batchSize)];
+    const snapshot = await getDocs(query(postsCollection(), ...pageConstraints));
+
+    for (const snap of snapshot.docs) {
+      cursor = snap;
+      const post = snap.data();
+      if (!matches(post)) continue;
+
+      posts.push(post);
+      if (posts.length === POSTS_PER_PAGE) {
+        return { posts, lastDoc: snap, hasMore: true };
+      }
+    }
+
+    if (snapshot.docs.length < batchSize) {
+      return { posts, lastDoc: cursor, hasMore: false };
+    }
+  }
+
+  return { posts, lastDoc: cursor, hasMore: true };
 }
 
 /**
@@ -290,11 +326,10 @@ export async function fetchAllPosts(
  */
 export async function fetchPost(postId: string): Promise<Post | null> {
   try {
-    const docRef = doc(db, COLLECTIONS.PRODUCTS, postId);
-    const docSnap = await getDoc(docRef);
+    const docSnap = await getDoc(postDoc(postId));
     
     if (docSnap.exists()) {
-      return docToPost(docSnap);
+      return docSnap.data();
     }
     return null;
   } catch (error) {
@@ -303,14 +338,99 @@ export async function fetchPost(postId: string): Promise<Post | null> {
   }
 }
 
+/**
+ * Fetch the newest posts from the users someone follows, with pagination
+ * Followed authors are queried in groups of FOLLOWING_IN_LIMIT, each group from the
+ * same cursor; the groups' pages are merged by date and cut to one page, and the last
+ * post kept becomes the next cursor, so nothing is skipped or repeated across pages.
+ */
+export async function fetchFollowingPosts(
+  userId: string,
+  lastDoc?: QueryDocumentSnapshot | null
+): Promise<{ posts: Post[]; lastDoc: QueryDocumentSnapshot | null; hasMore: boolean; fromCache?: boolean }> {
+  const cacheKey = followingFeedCacheKey(userId);
+
+  if (!lastDoc) {
+    const cached = postsCache.get(cacheKey);
+    if (cached && !cached.needsRefresh && Array.isArray(cached.posts) && cached.posts.length > 0) {
+      return {
+        posts: cached.posts,
+        lastDoc: cached.lastDoc,
+        hasMore: cached.posts.length >= POSTS_PER_PAGE,
+        fromCache: true,
+      };
+    }
+  }
+
+  try {
+    const followingSnapshot = await getDocs(followingCollection(userId));
+    const followingIds = followingSnapshot.docs.map(snap => snap.id);
+    if (followingIds.length === 0) {
+      return { posts: [], lastDoc: null, hasMore: false };
+    }
+
+    const groups: string[][] = [];
+    for (let i = 0; i < followingIds.length; i += FOLLOWING_IN_LIMIT) {
+      groups.push(followingIds.slice(i, i + FOLLOWING_IN_LIMIT));
+    }
+
+    // sellerId is set on legacy and new posts alike, see toCanonicalPostData
+    const fetchGroupPages = (cursor: QueryDocumentSnapshot | null) => Promise.all(groups.map(group => {
+      const constraints: QueryConstraint[] = [
+        where('sellerId', 'in', group),
+        where('status', '==', 'active'),
+        orderBy('sortAt', 'desc'),
+      ];
+      if (cursor) constraints.push(startAfter(cursor));
+      constraints.push(limit(POSTS_PER_PAGE + 1));
+      return getDocs(query(postsCollection(), ...constraints));
+    }));
+
+    // Only the first POSTS_PER_PAGE merged posts are surely newer than anything a
+    // group left unread, so at most that many are taken per round; expired posts
+    // among them are skipped and the next round continues from the last one taken
+    const posts: Post[] = [];
+    let cursor = lastDoc || null;
+    let hasMore = true;
+    for (let round = 0; round < FILTER_SCAN_MAX_PAGES && hasMore && posts.length < POSTS_PER_PAGE; round++) {
+      const snapshots = await fetchGroupPages(cursor);
+      const merged = snapshots
+        .flatMap(snapshot => snapshot.docs)
+        .sort((a, b) => getTimestampValue(b.data().sortAt) - getTimestampValue(a.data().sortAt));
+      const taken = merged.slice(0, POSTS_PER_PAGE - posts.length);
+
+      taken.forEach(snap => {
+        if (isListedInFeed(snap.data())) posts.push(snap.data());
+      });
+      cursor = taken[taken.length - 1] || cursor;
+      hasMore = merged.length > taken.length;
+    }
+
+    const result = { posts, lastDoc: cursor, hasMore };
+
+    if (!lastDoc && result.posts.length > 0) {
+      postsCache.set(cacheKey, result.posts, result.lastDoc);
+    }
+
+    return result;
+  } catch (error) {
+    console.error('Error fetching following feed:', error);
+    return { posts: [], lastDoc: null, hasMore: false };
+  }
+}
+
 /**
  * Fetch posts by user ID
+ * Only active posts by default; the owner's own listing management also asks for hidden and sold ones
  */
-export async function fetchUserPosts(userId: string): Promise<Post[]> {
+export async function fetchUserPosts(
+  userId: string,
+  statuses: Post['status'][] = ['active']
+): Promise<Post[]> {
   try {
     // Try with sellerId first (legacy field)
     let postsQuery = query(
-      collection(db, COLLECTIONS.PRODUCTS),
+      postsCollection(),
       where('sellerId', '==', userId),
       limit(100)
     );
@@ -320,18 +440,18 @@ export async function fetchUserPosts(userId: string): Promise<Post[]> {
     // If no results, try with userId
     if (snapshot.empty) {
       postsQuery = query(
-        collection(db, COLLECTIONS.PRODUCTS),
+        postsCollection(),
         where('userId', '==', userId),
         limit(100)
       );
       snapshot = await getDocs(postsQuery);
     }
 
-    let posts = snapshot.docs.map(docToPost);
+    let posts = snapshot.docs.map(snap => snap.data());
     
-    // Filter active (or no status) and sort
+    // Filter by status (legacy posts without one count as active) and sort
     posts = posts
-      .filter(post => !post.status || post.status === 'active')
+      .filter(post => statuses.includes(post.status || 'active'))
       .sort((a, b) => {
         const timeA = getTimestampValue(a.createdAt);
         const timeB = getTimestampValue(b.createdAt);
@@ -346,6 +466,40 @@ export async function fetchUserPosts(userId: string): Promise<Post[]> {
   }
 }
 
+/**
+ * Upload a single media file to Storage
+ */
+async function uploadMediaFile(file: File, userId: string): Promise<{ url: string; isVideo: boolean }> {
+  const isVideo = file.type.startsWith('video/');
+  const folder = isVideo ? 'videos' : 'images';
+  const ext = file.name.split('.').pop() || (isVideo ? 'mp4' : 'jpg');
+  const fileName = `${folder}/${userId}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}.${ext}`;
+  const storageRef = ref(storage, fileName);
+
+  await uploadBytes(storageRef, file);
+  const url = await getDownloadURL(storageRef);
+
+  return { url, isVideo };
+}
+
+/**
+ * Delete a media file from Storage by its download URL
+ * Failures are logged only - the file might already be gone or the URL foreign
+ */
+async function deleteStorageFile(url: string): Promise<void> {
+  try {
+    // URLs look like: https://firebasestorage.googleapis.com/v0/b/bucket/o/path%2Fto%2Ffile?...
+    const urlObj = new URL(url);
+    const pathMatch = urlObj.pathname.match(/\/o\/(.+?)(\?|$)/);
+    if (pathMatch) {
+      const decodedPath = decodeURIComponent(pathMatch[1]);
+      await deleteObject(ref(storage, decodedPath));
+    }
+  } catch (storageError) {
+    console.warn('Could not delete media file:', url, storageError);
+  }
+}
+
 /**
  * Create a new post
  */
@@ -358,21 +512,22 @@ export async function createPost(
   mediaFiles: File[],
   onProgress?: (progress: number) => void
 ): Promise<{ success: boolean; postId?: string; error?: string }> {
+  if (postData.publishAt) {
+    const scheduleError = validatePublishAt(postData.publishAt);
+    if (scheduleError) return { success: false, error: scheduleError };
+  }
+
   try {
+    if (await getActiveSuspension(userId)) {
+      return { success: false, error: 'Contul tău este suspendat și nu poate publica anunțuri' };
+    }
+
     // Upload media files in parallel for faster uploads
     const totalFiles = mediaFiles.length;
     let completedFiles = 0;
     
     const uploadPromises = mediaFiles.map(async (file) => {
-      const isVideo = file.type.startsWith('video/');
-      const folder = isVideo ? 'videos' : 'images';
-      const ext = file.name.split('.').pop() || (isVideo ? 'mp4' : 'jpg');
-      const fileName = `${folder}/${userId}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}.${ext}`;
-      const storageRef = ref(storage, fileName);
-      
-      // Upload file
-      await uploadBytes(storageRef, file);
-      const downloadUrl = await getDownloadURL(storageRef);
+      const { url: downloadUrl, isVideo } = await uploadMediaFile(file, userId);
       
       // Update progress
       completedFiles++;
@@ -388,6 +543,10 @@ export async function createPost(
     
     const images: string[] = [];
     const videos: string[] = [];
+    const media: MediaItem[] = uploadResults.map(result => ({
+      url: result.url,
+      type: result.isVideo ? 'video' : 'image',
+    }));
     
     uploadResults.forEach(result => {
       if (result.isVideo) {
@@ -402,29 +561,41 @@ export async function createPost(
     }
 
     // Create post document
+    const { publishAt, ...fields } = postData;
+    const category = fields.category || DEFAULT_CATEGORY; // Feed queries filter on category
+    const normalizedPrice = toNormalizedPrice(fields.price, fields.currency);
+    const expiresAt = computeExpiresAt(category, await getExpiryDays(), publishAt);
     const post = {
-      ...postData,
+      ...fields,
+      category,
+      searchTokens: buildSearchTokens({ ...fields, category }),
+      ...(normalizedPrice !== null && { normalizedPrice }),
       images,
       videos,
+      media,
       userId,
       sellerId: userId, // Keep for compatibility
       userEmail,
       userName,
       userImage,
-      status: 'active',
+      status: publishAt ? 'scheduled' : 'active', // publishDuePosts makes it active on time
       views: 0,
       saves: 0,
-      createdAt: serverTimestamp(),
+      likesCount: 0, // Sorted feeds skip documents without the sort field
+      commentsCount: 0,
+      expiresAt: Timestamp.fromDate(expiresAt),
+      // A scheduled post is dated by its publish time, and again when it actually goes live
+      ...(publishAt && { publishAt: Timestamp.fromDate(publishAt) }),
+      createdAt: publishAt ? Timestamp.fromDate(publishAt) : serverTimestamp(),
+      sortAt: publishAt ? Timestamp.fromDate(publishAt) : serverTimestamp(),
       updatedAt: serverTimestamp(),
     };
 
     const docRef = await addDoc(collection(db, COLLECTIONS.PRODUCTS), post);
 
     // Invalidate cache
-    if (postData.category) {
-      postsCache.invalidate(postData.category);
-    }
-    postsCache.invalidate('all');
+    invalidateFeedCache(post.category);
+    invalidateFeedCache('all');
 
     return { success: true, postId: docRef.id };
   } catch (error) {
@@ -442,8 +613,45 @@ export async function updatePost(
 ): Promise<{ success: boolean; error?: string }> {
   try {
     const docRef = doc(db, COLLECTIONS.PRODUCTS, postId);
+    const changes: Record<string, unknown> = { ...updates };
+
+    // Firestore rejects undefined; an explicitly undefined field means "clear it"
+    Object.entries(updates).forEach(([field, value]) => {
+      if (value === undefined) changes[field] = deleteField();
+    });
+
+    // A legacy name would keep showing the old value, so it goes once the field is written
+    Object.entries(LEGACY_TEXT_FIELDS).forEach(([field, legacyField]) => {
+      if (field in updates) changes[legacyField] = deleteField();
+    });
+
+    // Keep derived fields (search index, sortable price) in sync with their sources
+    const touchesSearch = SEARCH_INDEXED_FIELDS.some(field => field in updates);
+    const touchesPrice = PRICE_FIELDS.some(field => field in updates);
+    if (touchesSearch || touchesPrice) {
+      const current = await getDoc(postDoc(postId));
+      if (current.exists()) {
+        const merged = { ...current.data(), ...updates };
+        if (touchesSearch) {
+          changes.searchTokens = buildSearchTokens(merged);
+        }
+        if (touchesPrice) {
+          changes.normalizedPrice = toNormalizedPrice(merged.price, merged.currency) ?? deleteField();
+        }
+      }
+    }
+
+    // Once media is written in the images/videos format, legacy media fields would only shadow it
+    if ('images' in updates || 'videos' in updates) {
+      LEGACY_MEDIA_FIELDS.forEach(field => {
+        changes[field] = deleteField();
+      });
+      // A stored order that doesn't list the new media would hide it
+      if (!('media' in updates)) changes.media = deleteField();
+    }
+
     await updateDoc(docRef, {
-      ...updates,
+      ...changes,
       updatedAt: serverTimestamp(),
     });
 
@@ -458,199 +666,314 @@ export async function updatePost(
 }
 
 /**
- * Delete a post (soft delete)
+ * Edit a post's fields and media
+ * 'media' is the final ordered list: existing items keep their URL, new ones carry a file.
+ * The mixed order is stored as 'media' next to images/videos. Storage files of removed
+ * media are deleted only after the post was saved.
  */
-export async function deletePost(postId: string): Promise<{ success: boolean; error?: string }> {
+export async function editPost(
+  postId: string,
+  postData: CreatePostData,
+  media: MediaDraft[],
+  onProgress?: (progress: number) => void
+): Promise<{ success: boolean; error?: string }> {
   try {
-    const docRef = doc(db, COLLECTIONS.PRODUCTS, postId);
-    await updateDoc(docRef, {
-      status: 'deleted',
-      updatedAt: serverTimestamp(),
+    const docSnap = await getDoc(doc(db, COLLECTIONS.PRODUCTS, postId));
+    if (!docSnap.exists()) {
+      return { success: false, error: 'Postarea nu a fost găsită' };
+    }
+
+    const data = docSnap.data();
+    const ownerId = data.userId || data.sellerId;
+    const previousUrls = collectMediaUrls(data);
+
+    // Upload new files, keeping their position in the list
+    const newItems = media.filter(item => item.file);
+    let completedFiles = 0;
+    const finalMedia = await Promise.all(media.map(async (item) => {
+      if (!item.file) return item;
+      const uploaded = await uploadMediaFile(item.file, ownerId);
+      completedFiles++;
+      if (onProgress) {
+        onProgress(Math.round((completedFiles / newItems.length) * 90));
+      }
+      return { url: uploaded.url, type: uploaded.isVideo ? 'video' as const : 'image' as const };
+    }));
+    const orderedMedia: MediaItem[] = finalMedia.map(item => ({ url: item.url, type: item.type }));
+
+    if (onProgress) {
+      onProgress(95);
+    }
+
+    const images = finalMedia.filter(item => item.type === 'image').map(item => item.url);
+    const videos = finalMedia.filter(item => item.type === 'video').map(item => item.url);
+
+    const result = await updatePost(postId, {
+      title: postData.title,
+      description: postData.description,
+      price: postData.price,
+      currency: postData.currency,
+      location: postData.location,
+      category: postData.category || data.category || DEFAULT_CATEGORY,
+      images,
+      videos,
+      media: orderedMedia,
     });
+    if (!result.success) return result;
 
-    // Invalidate cache
-    postsCache.clear();
+    // Remove Storage files that are no longer referenced
+    const keptUrls = new Set([...images, ...videos]);
+    for (const url of previousUrls) {
+      if (!keptUrls.has(url)) {
+        await deleteStorageFile(url);
+      }
+    }
 
     return { success: true };
   } catch (error) {
-    console.error('Error deleting post:', error);
-    return { success: false, error: 'Eroare la ștergerea anunțului' };
+    console.error('Error editing post:', error);
+    return { success: false, error: 'Eroare la actualizarea anunțului' };
   }
 }
 
 /**
- * Hard delete a post - removes from Firestore and deletes media from Storage
+ * Change a post's visibility without losing its likes and comments
+ * 'sold' and 'inactive' posts leave the default feed; 'active' brings them back
  */
-export async function hardDeletePost(postId: string): Promise<{ success: boolean; error?: string }> {
+export async function setPostStatus(
+  postId: string,
+  status: Exclude<Post['status'], 'deleted' | 'scheduled'> // Scheduling goes through schedulePost
+): Promise<{ success: boolean; error?: string }> {
+  const result = await updatePost(postId, { status });
+  return result.success ? result : { success: false, error: 'Eroare la schimbarea stării anunțului' };
+}
+
+/**
+ * Renew a post ("Reactualizează")
+ * Reactivates it with a fresh expiry date and moves it to the top of newest-first feeds.
+ * createdAt stays the original publish date, for the date posted filter and alerts.
+ */
+export async function renewPost(postId: string): Promise<{ success: boolean; expiresAt?: Date; error?: string }> {
   try {
-    // First, fetch the post to get media URLs
-    const docRef = doc(db, COLLECTIONS.PRODUCTS, postId);
-    const docSnap = await getDoc(docRef);
-    
+    const docSnap = await getDoc(postDoc(postId));
     if (!docSnap.exists()) {
       return { success: false, error: 'Postarea nu a fost găsită' };
     }
 
-    const data = docSnap.data();
-    
-    // Collect all media URLs from various possible fields
-    const mediaUrls: string[] = [];
-    
-    if (data.fileUrls && Array.isArray(data.fileUrls)) {
-      mediaUrls.push(...data.fileUrls);
-    }
-    if (data.fileUrl && typeof data.fileUrl === 'string') {
-      mediaUrls.push(data.fileUrl);
-    }
-    if (data.imageUrl && typeof data.imageUrl === 'string') {
-      mediaUrls.push(data.imageUrl);
-    }
-    if (data.images && Array.isArray(data.images)) {
-      mediaUrls.push(...data.images);
-    }
-    if (data.videos && Array.isArray(data.videos)) {
-      mediaUrls.push(...data.videos);
+    const post = docSnap.data();
+    if (!canRenew(post)) {
+      return { success: false, error: 'Postarea nu poate fi reactualizată încă' };
     }
 
-    // Delete media files from Firebase Storage
-    for (const url of mediaUrls) {
-      try {
-        // Extract path from Firebase Storage URL
-        // URLs look like: https://firebasestorage.googleapis.com/v0/b/bucket/o/path%2Fto%2Ffile?...
-        const urlObj = new URL(url);
-        const pathMatch = urlObj.pathname.match(/\/o\/(.+?)(\?|$)/);
-        if (pathMatch) {
-          const decodedPath = decodeURIComponent(pathMatch[1]);
-          const storageRef = ref(storage, decodedPath);
-          await deleteObject(storageRef);
-        }
-      } catch (storageError) {
-        // Log but continue - file might already be deleted or URL format different
-        console.warn('Could not delete media file:', url, storageError);
-      }
-    }
-
-    // Delete the document from Firestore
-    await deleteDoc(docRef);
+    const expiresAt = computeExpiresAt(post.category, await getExpiryDays());
+    await updateDoc(doc(db, COLLECTIONS.PRODUCTS, postId), {
+      status: 'active',
+      expiresAt: Timestamp.fromDate(expiresAt),
+      renewedAt: serverTimestamp(),
+      sortAt: serverTimestamp(), // Newest-first feeds order by sortAt
+      updatedAt: serverTimestamp(),
+    });
 
-    // Invalidate cache
     postsCache.clear();
 
-    return { success: true };
+    return { success: true, expiresAt };
   } catch (error) {
-    console.error('Error hard deleting post:', error);
-    return { success: false, error: 'Eroare la ștergerea anunțului' };
+    console.error('Error renewing post:', error);
+    return { success: false, error: 'Eroare la reactualizarea anunțului' };
   }
 }
 
 /**
- * Search posts by query
+ * Publish a scheduled post now (publishAt null) or move it to another time
  */
-export async function searchPosts(searchQuery: string, posts: Post[]): Promise<Post[]> {
-  const query = searchQuery.toLowerCase().trim();
-  
-  if (!query) return posts;
+export async function schedulePost(
+  postId: string,
+  publishAt: Date | null
+): Promise<{ success: boolean; expiresAt?: Date; error?: string }> {
+  if (publishAt) {
+    const scheduleError = validatePublishAt(publishAt);
+    if (scheduleError) return { success: false, error: scheduleError };
+  }
 
-  return posts.filter(post => {
-    const title = (post.title || '').toLowerCase();
-    const description = (post.description || '').toLowerCase();
-    const location = (post.location || '').toLowerCase();
-    
-    return (
-      title.includes(query) ||
-      description.includes(query) ||
-      location.includes(query)
-    );
-  });
+  try {
+    const docSnap = await getDoc(postDoc(postId));
+    if (!docSnap.exists()) {
+      return { success: false, error: 'Postarea nu a fost găsită' };
+    }
+
+    const post = docSnap.data();
+    if (post.status !== 'scheduled') {
+      return { success: false, error: 'Postarea a fost deja publicată' };
+    }
+
+    const expiresAt = computeExpiresAt(post.category, await getExpiryDays(), publishAt || new Date());
+    await updateDoc(doc(db, COLLECTIONS.PRODUCTS, postId), {
+      status: publishAt ? 'scheduled' : 'active',
+      publishAt: publishAt ? Timestamp.fromDate(publishAt) : deleteField(),
+      expiresAt: Timestamp.fromDate(expiresAt),
+      createdAt: publishAt ? Timestamp.fromDate(publishAt) : serverTimestamp(),
+      sortAt: publishAt ? Timestamp.fromDate(publishAt) : serverTimestamp(), // Newest-first feeds order by sortAt
+      updatedAt: serverTimestamp(),
+    });
+
+    postsCache.clear();
+
+    return { success: true, expiresAt };
+  } catch (error) {
+    console.error('Error scheduling post:', error);
+    return { success: false, error: 'Eroare la programarea anunțului' };
+  }
 }
 
 /**
- * Like a post
+ * Delete a post (soft delete)
  */
-export async function likePost(postId: string, userId: string): Promise<{ success: boolean; error?: string }> {
+export async function deletePost(postId: string): Promise<{ success: boolean; error?: string }> {
   try {
-    const postRef = doc(db, COLLECTIONS.PRODUCTS, postId);
-    await updateDoc(postRef, {
-      likes: arrayUnion(userId),
-      likesCount: increment(1),
+    const docRef = doc(db, COLLECTIONS.PRODUCTS, postId);
+    await updateDoc(docRef, {
+      status: 'deleted',
+      updatedAt: serverTimestamp(),
     });
+
+    // Invalidate cache
+    postsCache.clear();
+
     return { success: true };
   } catch (error) {
-    console.error('Error liking post:', error);
-    return { success: false, error: 'Eroare la apreciere' };
+    console.error('Error deleting post:', error);
+    return { success: false, error: 'Eroare la ștergerea anunțului' };
   }
 }
 
 /**
- * Unlike a post
+ * Delete a post's like documents and view counter shards, in chunks that fit a batch
+ * Used by every hard delete, since Firestore keeps subcollections of a deleted document
  */
-export async function unlikePost(postId: string, userId: string): Promise<{ success: boolean; error?: string }> {
-  try {
-    const postRef = doc(db, COLLECTIONS.PRODUCTS, postId);
-    await updateDoc(postRef, {
-      likes: arrayRemove(userId),
-      likesCount: increment(-1),
-    });
-    return { success: true };
-  } catch (error) {
-    console.error('Error unliking post:', error);
-    return { success: false, error: 'Eroare la eliminarea aprecierii' };
+export async function deletePostCounters(postId: string): Promise<void> {
+  for (const name of POST_COUNTER_SUBCOLLECTIONS) {
+    while (true) {
+      const snapshot = await getDocs(query(collection(db, COLLECTIONS.PRODUCTS, postId, name), limit(DELETE_BATCH_SIZE)));
+      if (snapshot.empty) break;
+
+      const batch = writeBatch(db);
+      snapshot.docs.forEach(snap => batch.delete(snap.ref));
+      await batch.commit();
+      if (snapshot.docs.length < DELETE_BATCH_SIZE) break;
+    }
   }
 }
 
 /**
- * Check if user has liked a post
+ * Hard delete a post - removes it with its likes and view counts from Firestore and deletes media from Storage
  */
-export async function hasUserLikedPost(postId: string, userId: string): Promise<boolean> {
+export async function hardDeletePost(postId: string): Promise<{ success: boolean; error?: string }> {
   try {
-    const postDoc = await getDoc(doc(db, COLLECTIONS.PRODUCTS, postId));
-    if (postDoc.exists()) {
-      const likes = postDoc.data().likes || [];
-      return likes.includes(userId);
+    // First, fetch the post to get media URLs
+    const docRef = doc(db, COLLECTIONS.PRODUCTS, postId);
+    const docSnap = await getDoc(docRef);
+    
+    if (!docSnap.exists()) {
+      return { success: false, error: 'Postarea nu a fost găsită' };
+    }
+
+    // Collect all media URLs from various possible fields
+    const mediaUrls = collectMediaUrls(docSnap.data());
+
+    // Delete media files from Firebase Storage
+    for (const url of mediaUrls) {
+      await deleteStorageFile(url);
     }
-    return false;
+
+    // Subcollections outlive their post, so they go first
+    await deletePostCounters(postId);
+
+    // Delete the document from Firestore
+    await deleteDoc(docRef);
+
+    // Invalidate cache
+    postsCache.clear();
+
+    return { success: true };
   } catch (error) {
-    console.error('Error checking like status:', error);
-    return false;
+    console.error('Error hard deleting post:', error);
+    return { success: false, error: 'Eroare la ștergerea anunțului' };
   }
 }
 
 /**
- * Add a comment to a post
+ * Add a comment to a post, or a reply when parent is given
+ * Mentioned users, the parent comment's author and the post's author are
+ * notified, each once
  */
 export async function addComment(
-  postId: string,
+  post: Post,
   userId: string,
   userName: string,
   userImage: string | undefined,
-  text: string
+  text: string,
+  parent?: Comment,
+  mentions: CommentMention[] = []
 ): Promise<{ success: boolean; comment?: Comment; error?: string }> {
+  const postId = post.id;
+  const parentId = parent?.id || null;
+  const validMentions = resolveMentions(text, mentions);
+
   try {
-    // Add comment to subcollection
-    const commentsRef = collection(db, COLLECTIONS.PRODUCTS, postId, 'comments');
-    const commentDoc = await addDoc(commentsRef, {
+    if (await getActiveSuspension(userId)) {
+      return { success: false, error: 'Contul tău este suspendat și nu poate comenta' };
+    }
+
+    // Comment, reply count and comments count change together
+    const batch = writeBatch(db);
+    const commentRef = doc(
+      (parentId ? repliesCollection(postId, parentId) : commentsCollection(postId)).withConverter(null)
+    );
+    batch.set(commentRef, {
       postId,
+      ...(parentId && { parentId }),
       userId,
       userName,
       userImage: userImage || '',
       text,
+      mentions: validMentions,
       createdAt: serverTimestamp(),
     });
-
-    // Update comments count on post
-    const postRef = doc(db, COLLECTIONS.PRODUCTS, postId);
-    await updateDoc(postRef, {
+    if (parentId) {
+      batch.update(commentDocRef(postId, parentId), { repliesCount: increment(1) });
+    }
+    batch.update(doc(db, COLLECTIONS.PRODUCTS, postId), {
       commentsCount: increment(1),
     });
+    await batch.commit();
+
+    const actor = { actorId: userId, actorName: userName, actorImage: userImage, postId, postTitle: post.title, text };
+    const notified = new Set<string>();
+    for (const mention of validMentions) {
+      await notify(mention.userId, { type: 'mention', ...actor });
+      notified.add(mention.userId);
+    }
+    if (parent && !notified.has(parent.userId)) {
+      await notify(parent.userId, { type: 'reply', ...actor });
+      notified.add(parent.userId);
+    }
+    const postAuthorId = post.userId || post.sellerId || '';
+    if (!notified.has(postAuthorId)) {
+      await notify(postAuthorId, { type: 'comment', ...actor });
+    }
 
     const newComment: Comment = {
-      id: commentDoc.id,
+      id: commentRef.id,
       postId,
+      parentId,
       userId,
       userName,
       userImage,
       text,
+      mentions: validMentions,
+      repliesCount: 0,
       createdAt: new Date(),
+      editedAt: null,
     };
 
     return { success: true, comment: newComment };
@@ -661,49 +984,184 @@ export async function addComment(
 }
 
 /**
- * Get comments for a post
+ * Edit a comment within COMMENT_EDIT_WINDOW_MINUTES of posting it
+ * The replaced text is kept as a revision for moderators; newly mentioned users are notified
  */
-export async function getComments(postId: string): Promise<Comment[]> {
+export async function editComment(
+  comment: Comment,
+  userId: string,
+  text: string,
+  mentions: CommentMention[] = []
+): Promise<{ success: boolean; comment?: Comment; error?: string }> {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    return { success: false, error: 'Comentariul nu poate fi gol' };
+  }
+  const validMentions = resolveMentions(trimmed, mentions);
+
   try {
-    const commentsRef = collection(db, COLLECTIONS.PRODUCTS, postId, 'comments');
-    const q = query(commentsRef, orderBy('createdAt', 'desc'), limit(50));
-    const snapshot = await getDocs(q);
-    
-    return snapshot.docs.map(doc => {
-      const data = doc.data();
+    const commentRef = commentDocRef(comment.postId, comment.id, comment.parentId);
+    const updated = await runTransaction(db, async (transaction) => {
+      const snap = await transaction.get(commentRef);
+      if (!snap.exists()) throw new Error('Comment not found');
+
+      const current = snap.data();
+      if (!canEditComment(current, userId)) return null;
+      if (current.text === trimmed) return { before: current, after: current };
+
+      transaction.set(doc(commentRevisionsCollection(comment.postId, comment.id, comment.parentId).withConverter(null)), {
+        text: current.text,
+        replacedAt: serverTimestamp(),
+      });
+      transaction.update(commentRef, { text: trimmed, mentions: validMentions, editedAt: serverTimestamp() });
+      return { before: current, after: { ...current, text: trimmed, mentions: validMentions, editedAt: new Date() } };
+    });
+
+    if (!updated) {
       return {
-        id: doc.id,
-        postId: data.postId,
-        userId: data.userId,
-        userName: data.userName,
-        userImage: data.userImage,
-        text: data.text,
-        createdAt: timestampToDate(data.createdAt),
+        success: false,
+        error: `Comentariile pot fi editate doar în primele ${COMMENT_EDIT_WINDOW_MINUTES} minute`,
       };
-    });
+    }
+
+    const { before, after } = updated;
+    const alreadyMentioned = new Set(before.mentions.map(m => m.userId));
+    for (const mention of after.mentions.filter(m => !alreadyMentioned.has(m.userId))) {
+      await notify(mention.userId, {
+        type: 'mention',
+        actorId: userId,
+        actorName: after.userName,
+        actorImage: after.userImage,
+        postId: after.postId,
+        text: after.text,
+      });
+    }
+
+    return { success: true, comment: after };
+  } catch (error) {
+    console.error('Error editing comment:', error);
+    return { success: false, error: 'Eroare la editarea comentariului' };
+  }
+}
+
+/**
+ * Delete the edit history of a comment
+ */
+async function deleteCommentRevisions(postId: string, commentId: string, parentId?: string | null): Promise<void> {
+  const snapshot = await getDocs(commentRevisionsCollection(postId, commentId, parentId));
+  if (snapshot.empty) return;
+
+  const batch = writeBatch(db);
+  snapshot.docs.forEach(snap => batch.delete(snap.ref));
+  await batch.commit();
+}
+
+/**
+ * Get a page of a post's comments, newest first
+ */
+export async function getComments(
+  postId: string,
+  lastDoc?: QueryDocumentSnapshot<Comment> | null
+): Promise<{ comments: Comment[]; lastDoc: QueryDocumentSnapshot<Comment> | null; hasMore: boolean }> {
+  try {
+    const constraints: QueryConstraint[] = [orderBy('createdAt', 'desc'), limit(COMMENTS_PER_PAGE)];
+    if (lastDoc) constraints.push(startAfter(lastDoc));
+    const snapshot = await getDocs(query(commentsCollection(postId), ...constraints));
+
+    return {
+      comments: snapshot.docs.map(snap => snap.data()),
+      lastDoc: snapshot.docs[snapshot.docs.length - 1] || null,
+      hasMore: snapshot.docs.length === COMMENTS_PER_PAGE,
+    };
   } catch (error) {
     console.error('Error fetching comments:', error);
-    return [];
+    return { comments: [], lastDoc: null, hasMore: false };
   }
 }
 
+/**
+ * Get a page of a comment's replies, oldest first so threads read top to bottom
+ */
+export async function getReplies(
+  postId: string,
+  parentId: string,
+  lastDoc?: QueryDocumentSnapshot<Comment> | null
+): Promise<{ replies: Comment[]; lastDoc: QueryDocumentSnapshot<Comment> | null; hasMore: boolean }> {
+  try {
+    const constraints: QueryConstraint[] = [orderBy('createdAt', 'asc'), limit(REPLIES_PER_PAGE)];
+    if (lastDoc) constraints.push(startAfter(lastDoc));
+    const snapshot = await getDocs(query(repliesCollection(postId, parentId), ...constraints));
+
+    return {
+      replies: snapshot.docs.map(snap => snap.data()),
+      lastDoc: snapshot.docs[snapshot.docs.length - 1] || null,
+      hasMore: snapshot.docs.length === REPLIES_PER_PAGE,
+    };
+  } catch (error) {
+    console.error('Error fetching replies:', error);
+    return { replies: [], lastDoc: null, hasMore: false };
+  }
+}
+
+/**
+ * Delete comments and drop the counters by how many of them still existed
+ * Runs in a transaction, so a retry or a concurrent delete never counts a comment twice
+ */
+async function deleteCountedComments(
+  postId: string,
+  commentRefs: DocumentReference<Comment>[],
+  parentId?: string | null
+): Promise<void> {
+  await runTransaction(db, async (transaction) => {
+    const snaps = await Promise.all(commentRefs.map(commentRef => transaction.get(commentRef)));
+    const existing = snaps.filter(snap => snap.exists());
+    if (existing.length === 0) return;
+
+    const postSnap = await transaction.get(postDoc(postId));
+    const parentSnap = parentId ? await transaction.get(commentDocRef(postId, parentId)) : null;
+
+    existing.forEach(snap => transaction.delete(snap.ref));
+    if (parentSnap?.exists()) {
+      transaction.update(parentSnap.ref, { repliesCount: increment(-existing.length) });
+    }
+    if (postSnap.exists()) {
+      transaction.update(postSnap.ref, { commentsCount: increment(-existing.length) });
+    }
+  });
+}
+
 /**
  * Delete a comment from a post
+ * Deleting a top-level comment deletes its whole thread; commentsCount drops by
+ * every comment actually removed, batch by batch. Deleting one that is already
+ * gone is a no-op, so retries are safe.
  */
 export async function deleteComment(
   postId: string,
-  commentId: string
+  commentId: string,
+  parentId?: string | null
 ): Promise<{ success: boolean; error?: string }> {
   try {
-    // Delete comment from subcollection
-    const commentRef = doc(db, COLLECTIONS.PRODUCTS, postId, 'comments', commentId);
-    await deleteDoc(commentRef);
-
-    // Update comments count on post
-    const postRef = doc(db, COLLECTIONS.PRODUCTS, postId);
-    await updateDoc(postRef, {
-      commentsCount: increment(-1),
-    });
+    if (parentId) {
+      await deleteCommentRevisions(postId, commentId, parentId);
+      await deleteCountedComments(postId, [commentDocRef(postId, commentId, parentId)], parentId);
+      return { success: true };
+    }
+
+    // Replies first, so a failure never leaves them without their parent
+    const repliesSnapshot = await getDocs(repliesCollection(postId, commentId));
+    for (const replySnap of repliesSnapshot.docs) {
+      if (replySnap.data().editedAt) {
+        await deleteCommentRevisions(postId, replySnap.id, commentId);
+      }
+    }
+    for (let i = 0; i < repliesSnapshot.docs.length; i += DELETE_BATCH_SIZE) {
+      const chunk = repliesSnapshot.docs.slice(i, i + DELETE_BATCH_SIZE);
+      await deleteCountedComments(postId, chunk.map(snap => snap.ref));
+    }
+
+    await deleteCommentRevisions(postId, commentId);
+    await deleteCountedComments(postId, [commentDocRef(postId, commentId)]);
 
     return { success: true };
   } catch (error) {
@@ -0,0 +1,55 @@
+'use client';
+
+/**
+ * Reports Service
+ * Users report posts, comments and other users to the admins. Each user has one
+ * report per target (reporting again updates it), so counts in the queue are people.
+ */
+
+import { doc, setDoc, serverTimestamp } from 'firebase/firestore';
+import { reportsCollection } from '@/lib/converters';
+import { reportTargetKey } from '@/lib/reports';
+import { ReportReason, ReportTarget } from '@/types';
+
+const MAX_DETAILS_LENGTH = 1000;
+
+/**
+ * Report a post, comment or user
+ * conversationId is set when a user is reported from a conversation
+ */
+export async function submitReport(
+  reporterId: string,
+  target: ReportTarget,
+  reason: ReportReason,
+  details: string,
+  conversationId?: string
+): Promise<{ success: boolean; error?: string }> {
+  if (target.ownerId === reporterId) {
+    return {
+      success: false,
+      error: target.type === 'user' ? 'Nu te poți raporta pe tine' : 'Nu îți poți raporta propriul conținut',
+    };
+  }
+
+  try {
+    const reportRef = doc(reportsCollection().withConverter(null), `${reportTargetKey(target)}_${reporterId}`);
+    await setDoc(reportRef, {
+      targetType: target.type,
+      targetId: target.id,
+      ...(target.postId && { postId: target.postId }),
+      ...(target.parentId && { parentId: target.parentId }),
+      targetLabel: target.label.slice(0, 200),
+      targetOwnerId: target.ownerId,
+      reporterId,
+      reason,
+      details: details.trim().slice(0, MAX_DETAILS_LENGTH),
+      ...(conversationId && { conversationId }),
+      status: 'open',
+      createdAt: serverTimestamp(),
+    });
+    return { success: true };
+  } catch (error) {
+    console.error('Error submitting report:', error);
+    return { success: false, error: 'Eroare la trimiterea raportului' };
+  }
+}
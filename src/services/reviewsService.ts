@@ -0,0 +1,229 @@
+'use client';
+
+/**
+ * Reviews Service
+ * Buyers rate sellers from the conversation they had about a post, at
+ * users/{sellerId}/reviews/{conversationId}. The seller's ratingSum/ratingCount are
+ * updated in the same transaction, and only count reviews that are not hidden.
+ */
+
+import {
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  limit,
+  startAfter,
+  runTransaction,
+  updateDoc,
+  increment,
+  serverTimestamp,
+  QueryConstraint,
+  QueryDocumentSnapshot,
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { reviewsCollection, userDoc, conversationDoc, messagesCollection } from '@/lib/converters';
+import { isValidRating, MAX_REVIEW_LENGTH } from '@/lib/reviews';
+import { clearUserCache } from '@/services/usersService';
+import { notify } from '@/services/notificationsService';
+import { Conversation, Review, User } from '@/types';
+
+const REVIEWS_PER_PAGE = 10;
+
+function reviewDoc(sellerId: string, reviewId: string) {
+  return doc(reviewsCollection(sellerId), reviewId);
+}
+
+/**
+ * The buyer's review for a conversation, if they left one
+ */
+export async function getConversationReview(sellerId: string, conversationId: string): Promise<Review | null> {
+  try {
+    const snap = await getDoc(reviewDoc(sellerId, conversationId));
+    return snap.exists() ? snap.data() : null;
+  } catch (error) {
+    console.error('Error fetching conversation review:', error);
+    return null;
+  }
+}
+
+/**
+ * Whether the seller has written in a conversation; buyers can only review after that
+ */
+export async function hasSellerReplied(conversation: Conversation): Promise<boolean> {
+  try {
+    const snapshot = await getDocs(query(
+      messagesCollection(conversation.id),
+      where('senderId', '==', conversation.sellerId),
+      limit(1)
+    ));
+    return !snapshot.empty;
+  } catch (error) {
+    console.error('Error checking seller reply:', error);
+    return false;
+  }
+}
+
+/**
+ * Rate the seller of a conversation, once
+ */
+export async function submitReview(
+  conversation: Conversation,
+  reviewer: User,
+  rating: number,
+  text: string
+): Promise<{ success: boolean; review?: Review; error?: string }> {
+  const trimmed = text.trim().slice(0, MAX_REVIEW_LENGTH);
+  if (!isValidRating(rating)) {
+    return { success: false, error: 'Alege între 1 și 5 stele' };
+  }
+  if (!trimmed) {
+    return { success: false, error: 'Scrie câteva cuvinte despre experiența ta' };
+  }
+  if (conversation.buyerId !== reviewer.uid) {
+    return { success: false, error: 'Doar cumpărătorul poate lăsa o recenzie' };
+  }
+  if (!(await hasSellerReplied(conversation))) {
+    return { success: false, error: 'Poți lăsa o recenzie după ce vânzătorul îți răspunde' };
+  }
+
+  const sellerId = conversation.sellerId;
+
+  try {
+    const created = await runTransaction(db, async (transaction) => {
+      const [reviewSnap, conversationSnap] = await Promise.all([
+        transaction.get(reviewDoc(sellerId, conversation.id)),
+        transaction.get(conversationDoc(conversation.id)),
+      ]);
+      if (reviewSnap.exists()) return false;
+      if (!conversationSnap.exists() || conversationSnap.data().buyerId !== reviewer.uid) {
+        throw new Error('Conversation not found');
+      }
+
+      transaction.set(reviewDoc(sellerId, conversation.id).withConverter(null), {
+        sellerId,
+        reviewerId: reviewer.uid,
+        reviewerName: reviewer.fullName || 'Anonim',
+        reviewerImage: reviewer.profileImage || '',
+        postId: conversation.postId,
+        postTitle: conversation.postTitle,
+        rating,
+        text: trimmed,
+        reply: null,
+        hidden: false,
+        createdAt: serverTimestamp(),
+      });
+      transaction.update(userDoc(sellerId).withConverter(null), {
+        ratingSum: increment(rating),
+        ratingCount: increment(1),
+      });
+      return true;
+    });
+
+    if (!created) {
+      return { success: false, error: 'Ai lăsat deja o recenzie pentru această conversație' };
+    }
+
+    clearUserCache(sellerId);
+    await notify(sellerId, {
+      type: 'review',
+      actorId: reviewer.uid,
+      actorName: reviewer.fullName || 'Anonim',
+      actorImage: reviewer.profileImage,
+      postId: conversation.postId,
+      postTitle: conversation.postTitle,
+      profileId: sellerId,
+      text: trimmed,
+    });
+
+    return {
+      success: true,
+      review: {
+        id: conversation.id,
+        sellerId,
+        reviewerId: reviewer.uid,
+        reviewerName: reviewer.fullName || 'Anonim',
+        reviewerImage: reviewer.profileImage,
+        postId: conversation.postId,
+        postTitle: conversation.postTitle,
+        rating,
+        text: trimmed,
+        reply: null,
+        hidden: false,
+        createdAt: new Date(),
+      },
+    };
+  } catch (error) {
+    console.error('Error submitting review:', error);
+    return { success: false, error: 'Eroare la trimiterea recenziei' };
+  }
+}
+
+/**
+ * A page of a seller's visible reviews, newest first
+ */
+export async function fetchSellerReviews(
+  sellerId: string,
+  lastDoc?: QueryDocumentSnapshot<Review> | null
+): Promise<{ reviews: Review[]; lastDoc: QueryDocumentSnapshot<Review> | null; hasMore: boolean }> {
+  try {
+    const constraints: QueryConstraint[] = [
+      where('hidden', '==', false),
+      orderBy('createdAt', 'desc'),
+      limit(REVIEWS_PER_PAGE),
+    ];
+    if (lastDoc) constraints.push(startAfter(lastDoc));
+    const snapshot = await getDocs(query(reviewsCollection(sellerId), ...constraints));
+
+    return {
+      reviews: snapshot.docs.map(snap => snap.data()),
+      lastDoc: snapshot.docs[snapshot.docs.length - 1] || null,
+      hasMore: snapshot.docs.length === REVIEWS_PER_PAGE,
+    };
+  } catch (error) {
+    console.error('Error fetching reviews:', error);
+    return { reviews: [], lastDoc: null, hasMore: false };
+  }
+}
+
+/**
+ * The seller's public answer to a review; answering again replaces it
+ */
+export async function replyToReview(
+  review: Review,
+  sellerId: string,
+  text: string
+): Promise<{ success: boolean; reply?: Review['reply']; error?: string }> {
+  const trimmed = text.trim().slice(0, MAX_REVIEW_LENGTH);
+  if (review.sellerId !== sellerId) {
+    return { success: false, error: 'Doar vânzătorul poate răspunde' };
+  }
+  if (!trimmed) {
+    return { success: false, error: 'Răspunsul este gol' };
+  }
+
+  try {
+    await updateDoc(reviewDoc(review.sellerId, review.id).withConverter(null), {
+      reply: { text: trimmed, createdAt: serverTimestamp() },
+    });
+
+    const seller = await getDoc(userDoc(sellerId));
+    await notify(review.reviewerId, {
+      type: 'review_reply',
+      actorId: sellerId,
+      actorName: seller.exists() ? seller.data().fullName : undefined,
+      actorImage: seller.exists() ? seller.data().profileImage : undefined,
+      postId: review.postId,
+      postTitle: review.postTitle,
+      profileId: sellerId,
+      text: trimmed,
+    });
+
+    return { success: true, reply: { text: trimmed, createdAt: new Date() } };
+  } catch (error) {
+    console.error('Error replying to review:', error);
+    return { success: false, error: 'Eroare la trimiterea răspunsului' };
+  }
+}
@@ -0,0 +1,213 @@
+'use client';
+
+/**
+ * Saved Searches Service
+ * Users save a keyword search or a category with filters and get an in-app alert
+ * for each new post that matches. Alerts are collected when the user checks them;
+ * the optional email digest is sent by scripts/send-search-digests.ts.
+ */
+
+import {
+  doc,
+  getDocs,
+  addDoc,
+  updateDoc,
+  deleteDoc,
+  query,
+  where,
+  orderBy,
+  limit,
+  writeBatch,
+  serverTimestamp,
+  Timestamp,
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { savedSearchesCollection, searchAlertsCollection } from '@/lib/converters';
+import {
+  findNewMatches,
+  hasSearchCriteria,
+  toAlertFilters,
+  describeSavedSearch,
+  searchAlertId,
+} from '@/lib/searchAlerts';
+import { queueNotification, searchMatchNotificationId } from '@/services/notificationsService';
+import { SavedSearch, SearchAlert } from '@/types';
+
+export const MAX_SAVED_SEARCHES = 20;
+const ALERTS_PER_PAGE = 50;
+const UPDATE_BATCH_SIZE = 400; // Under Firestore's 500 writes per batch
+
+/**
+ * Save a search for a user
+ */
+export async function createSavedSearch(
+  userId: string,
+  search: Pick<SavedSearch, 'query' | 'category' | 'filters'> & { name?: string }
+): Promise<{ success: boolean; searchId?: string; error?: string }> {
+  const criteria = {
+    query: search.query?.trim() || undefined,
+    category: search.category,
+    filters: toAlertFilters(search.filters),
+  };
+
+  if (!hasSearchCriteria(criteria)) {
+    return { success: false, error: 'Alege o categorie sau scrie un cuvânt cheie' };
+  }
+
+  try {
+    const existing = await getDocs(savedSearchesCollection(userId));
+    if (existing.size >= MAX_SAVED_SEARCHES) {
+      return { success: false, error: `Poți salva cel mult ${MAX_SAVED_SEARCHES} de căutări` };
+    }
+
+    const docRef = await addDoc(savedSearchesCollection(userId).withConverter(null), {
+      name: search.name?.trim() || describeSavedSearch(criteria),
+      // Firestore rejects undefined values
+      ...(criteria.query && { query: criteria.query }),
+      ...(criteria.category && { category: criteria.category }),
+      filters: criteria.filters,
+      emailDigest: false,
+      lastCheckedAt: serverTimestamp(), // Alert on posts published from now on
+      lastEmailedAt: serverTimestamp(),
+      createdAt: serverTimestamp(),
+    });
+
+    return { success: true, searchId: docRef.id };
+  } catch (error) {
+    console.error('Error saving search:', error);
+    return { success: false, error: 'Eroare la salvarea căutării' };
+  }
+}
+
+/**
+ * A user's saved searches, newest first
+ */
+export async function fetchSavedSearches(userId: string): Promise<SavedSearch[]> {
+  try {
+    const snapshot = await getDocs(query(savedSearchesCollection(userId), orderBy('createdAt', 'desc')));
+    return snapshot.docs.map(snap => snap.data());
+  } catch (error) {
+    console.error('Error fetching saved searches:', error);
+    return [];
+  }
+}
+
+/**
+ * Turn the email digest on or off for a saved search
+ */
+export async function setSavedSearchEmailDigest(
+  userId: string,
+  searchId: string,
+  emailDigest: boolean
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    await updateDoc(doc(savedSearchesCollection(userId), searchId), {
+      emailDigest,
+      // Don't send a digest of everything published while it was off
+      ...(emailDigest && { lastEmailedAt: serverTimestamp() }),
+    });
+    return { success: true };
+  } catch (error) {
+    console.error('Error updating saved search:', error);
+    return { success: false, error: 'Eroare la actualizarea căutării salvate' };
+  }
+}
+
+/**
+ * Delete a saved search; alerts it already produced are kept
+ */
+export async function deleteSavedSearch(userId: string, searchId: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    await deleteDoc(doc(savedSearchesCollection(userId), searchId));
+    return { success: true };
+  } catch (error) {
+    console.error('Error deleting saved search:', error);
+    return { success: false, error: 'Eroare la ștergerea căutării salvate' };
+  }
+}
+
+/**
+ * Look for posts published since the last check of each saved search and record an alert for each
+ */
+export async function checkSearchAlerts(userId: string): Promise<{ success: boolean; created: number; error?: string }> {
+  try {
+    const searches = await fetchSavedSearches(userId);
+    const now = new Date();
+    let created = 0;
+
+    for (const search of searches) {
+      const since = search.lastCheckedAt || search.createdAt || now;
+      const { posts: matches, checkedUntil } = await findNewMatches(db, search, since, now);
+
+      const batch = writeBatch(db);
+      matches.forEach(post => {
+        const alertId = searchAlertId(search.id, post.id);
+        batch.set(doc(searchAlertsCollection(userId).withConverter(null), alertId), {
+          searchId: search.id,
+          searchName: search.name,
+          postId: post.id,
+          postTitle: post.title,
+          postImage: post.images?.[0] || '',
+          read: false,
+          createdAt: serverTimestamp(),
+        });
+        queueNotification(batch, userId, {
+          type: 'search_match',
+          postId: post.id,
+          postTitle: post.title,
+          searchId: search.id,
+          searchName: search.name,
+        }, searchMatchNotificationId(alertId));
+      });
+      batch.update(doc(savedSearchesCollection(userId), search.id), {
+        lastCheckedAt: Timestamp.fromDate(checkedUntil),
+      });
+      await batch.commit();
+
+      created += matches.length;
+    }
+
+    return { success: true, created };
+  } catch (error) {
+    console.error('Error checking search alerts:', error);
+    return { success: false, created: 0, error: 'Eroare la verificarea alertelor' };
+  }
+}
+
+/**
+ * A user's most recent search alerts
+ */
+export async function fetchSearchAlerts(userId: string): Promise<SearchAlert[]> {
+  try {
+    const snapshot = await getDocs(query(
+      searchAlertsCollection(userId),
+      orderBy('createdAt', 'desc'),
+      limit(ALERTS_PER_PAGE)
+    ));
+    return snapshot.docs.map(snap => snap.data());
+  } catch (error) {
+    console.error('Error fetching search alerts:', error);
+    return [];
+  }
+}
+
+/**
+ * Mark every unread alert of a user as read, in chunks that fit a batch
+ */
+export async function markSearchAlertsRead(userId: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const snapshot = await getDocs(query(searchAlertsCollection(userId), where('read', '==', false)));
+    if (snapshot.empty) return { success: true };
+
+    for (let i = 0; i < snapshot.docs.length; i += UPDATE_BATCH_SIZE) {
+      const batch = writeBatch(db);
+      snapshot.docs.slice(i, i + UPDATE_BATCH_SIZE).forEach(snap => batch.update(snap.ref, { read: true }));
+      await batch.commit();
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error marking search alerts read:', error);
+    return { success: false, error: 'Eroare la actualizarea alertelor' };
+  }
+}
@@ -0,0 +1,138 @@
+'use client';
+
+/**
+ * Saved Posts Service
+ * Per-user bookmarks at users/{uid}/saved/{postId}. Saving and unsaving run in a
+ * transaction with the post's 'saves' counter so repeated clicks can't skew it.
+ */
+
+import {
+  doc,
+  getDocs,
+  query,
+  orderBy,
+  runTransaction,
+  serverTimestamp,
+  deleteField,
+} from 'firebase/firestore';
+import { db, COLLECTIONS } from '@/lib/firebase';
+import { postDoc, savedPostsCollection } from '@/lib/converters';
+import { Post, SavedPost } from '@/types';
+import { fetchPost } from '@/services/postsService';
+
+// Saved post IDs of the signed-in user, loaded once so every PostCard can check it
+let savedIdsCache: { userId: string; ids: Promise<Set<string>> } | null = null;
+
+async function loadSavedPostIds(userId: string): Promise<Set<string>> {
+  try {
+    const snapshot = await getDocs(savedPostsCollection(userId));
+    return new Set(snapshot.docs.map(snap => snap.id));
+  } catch (error) {
+    console.error('Error fetching saved post IDs:', error);
+    return new Set();
+  }
+}
+
+/**
+ * IDs of the posts a user has saved
+ */
+export function getSavedPostIds(userId: string): Promise<Set<string>> {
+  if (savedIdsCache?.userId !== userId) {
+    savedIdsCache = { userId, ids: loadSavedPostIds(userId) };
+  }
+  return savedIdsCache.ids;
+}
+
+async function updateCachedIds(userId: string, postId: string, saved: boolean) {
+  if (savedIdsCache?.userId !== userId) return;
+  const ids = await savedIdsCache.ids;
+  if (saved) {
+    ids.add(postId);
+  } else {
+    ids.delete(postId);
+  }
+}
+
+/**
+ * Save a post for a user
+ */
+export async function savePost(
+  post: Pick<Post, 'id' | 'title' | 'images'>,
+  userId: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const savedRef = doc(savedPostsCollection(userId), post.id);
+    await runTransaction(db, async (transaction) => {
+      const [savedSnap, postSnap] = await Promise.all([
+        transaction.get(savedRef),
+        transaction.get(postDoc(post.id)),
+      ]);
+      if (savedSnap.exists()) return;
+      if (!postSnap.exists()) throw new Error('Post not found');
+
+      transaction.set(savedRef.withConverter(null), {
+        postId: post.id,
+        title: post.title || '',
+        image: post.images?.[0] || '',
+        savedAt: serverTimestamp(),
+      });
+      transaction.update(doc(db, COLLECTIONS.PRODUCTS, post.id), {
+        saves: (postSnap.data().saves || 0) + 1,
+        likeCount: deleteField(), // Legacy name of the counter
+      });
+    });
+
+    await updateCachedIds(userId, post.id, true);
+    return { success: true };
+  } catch (error) {
+    console.error('Error saving post:', error);
+    return { success: false, error: 'Eroare la salvarea postării' };
+  }
+}
+
+/**
+ * Remove a post from a user's saved list
+ * Works for posts that were deleted in the meantime too
+ */
+export async function unsavePost(postId: string, userId: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const savedRef = doc(savedPostsCollection(userId), postId);
+    await runTransaction(db, async (transaction) => {
+      const [savedSnap, postSnap] = await Promise.all([
+        transaction.get(savedRef),
+        transaction.get(postDoc(postId)),
+      ]);
+      if (!savedSnap.exists()) return;
+
+      transaction.delete(savedRef);
+      if (postSnap.exists()) {
+        transaction.update(doc(db, COLLECTIONS.PRODUCTS, postId), {
+          saves: Math.max(0, (postSnap.data().saves || 0) - 1),
+          likeCount: deleteField(),
+        });
+      }
+    });
+
+    await updateCachedIds(userId, postId, false);
+    return { success: true };
+  } catch (error) {
+    console.error('Error unsaving post:', error);
+    return { success: false, error: 'Eroare la eliminarea postării salvate' };
+  }
+}
+
+/**
+ * A user's saved posts, most recently saved first
+ */
+export async function fetchSavedPosts(userId: string): Promise<SavedPost[]> {
+  try {
+    const snapshot = await getDocs(query(savedPostsCollection(userId), orderBy('savedAt', 'desc')));
+    return await Promise.all(snapshot.docs.map(async (snap) => ({
+      ...snap.data(),
+      post: await fetchPost(snap.id),
+    })));
+  } catch (error) {
+    console.error('Error fetching saved posts:', error);
+    return [];
+  }
+}
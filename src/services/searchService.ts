@@ -0,0 +1,89 @@
+'use client';
+
+/**
+ * Search Service
+ * Full-text search over posts using the 'searchTokens' index field
+ */
+
+import { query, where, orderBy, limit, getDocs } from 'firebase/firestore';
+import { Post } from '@/types';
+import { postsCollection } from '@/lib/converters';
+import { buildQueryTokens, normalizeText, scorePost } from '@/lib/search';
+import { getTimestampValue } from '@/lib/utils';
+import { postsCache } from '@/lib/cache';
+
+export const SEARCH_RESULTS_PER_PAGE = 15;
+
+// Candidates ranked per query; relevance can't be sorted by Firestore
+const SEARCH_CANDIDATE_LIMIT = 200;
+
+/**
+ * Fetch and rank every candidate post for a query
+ * The ranked list is cached so paging through results costs one query
+ */
+async function fetchRankedResults(searchQuery: string): Promise<Post[]> {
+  const cacheKey = `search:${normalizeText(searchQuery).trim()}`;
+  const cached = postsCache.get(cacheKey);
+  if (cached && !cached.needsRefresh) {
+    return cached.posts;
+  }
+
+  const tokens = buildQueryTokens(searchQuery);
+  if (tokens.length === 0) return [];
+
+  const snapshot = await getDocs(query(
+    postsCollection(),
+    where('status', '==', 'active'),
+    where('searchTokens', 'array-contains-any', tokens),
+    orderBy('createdAt', 'desc'),
+    limit(SEARCH_CANDIDATE_LIMIT)
+  ));
+
+  const ranked = snapshot.docs
+    .map((snap) => snap.data())
+    // Expired posts are still stored as 'active' until the sweep
+    .filter((post) => post.status === 'active')
+    .map((post) => ({ post, score: scorePost(post, searchQuery) }))
+    .filter((result) => result.score > 0)
+    .sort((a, b) =>
+      b.score - a.score ||
+      getTimestampValue(b.post.createdAt) - getTimestampValue(a.post.createdAt)
+    )
+    .map((result) => result.post);
+
+  if (ranked.length > 0) {
+    postsCache.set(cacheKey, ranked, null);
+  }
+
+  return ranked;
+}
+
+/**
+ * Search posts by title, description, location and category
+ * Results are ranked by relevance and paginated (page starts at 1)
+ */
+export async function searchPosts(
+  searchQuery: string,
+  page: number = 1
+): Promise<{ posts: Post[]; total: number; page: number; totalPages: number; error?: string }> {
+  if (!searchQuery.trim()) {
+    return { posts: [], total: 0, page: 1, totalPages: 0 };
+  }
+
+  try {
+    const ranked = await fetchRankedResults(searchQuery);
+    const totalPages = Math.ceil(ranked.length / SEARCH_RESULTS_PER_PAGE);
+    const currentPage = Math.min(Math.max(1, page), Math.max(1, totalPages));
+    const start = (currentPage - 1) * SEARCH_RESULTS_PER_PAGE;
+
+    return {
+      posts: ranked.slice(start, start + SEARCH_RESULTS_PER_PAGE),
+      total: ranked.length,
+      page: currentPage,
+      totalPages,
+    };
+  } catch (error) {
+    console.error('Error searching posts:', error);
+    return { posts: [], total: 0, page: 1, totalPages: 0, error: 'Eroare la căutare' };
+  }
+}
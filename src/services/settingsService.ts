@@ -0,0 +1,84 @@
+'use client';
+
+/**
+ * Settings Service
+ * App-wide settings stored in the 'settings' collection and edited by admins
+ */
+
+import { doc, getDoc, writeBatch, serverTimestamp } from 'firebase/firestore';
+import { db, COLLECTIONS } from '@/lib/firebase';
+import { CATEGORIES, User } from '@/types';
+import { DEFAULT_EXPIRY_DAYS, ExpiryDays } from '@/lib/expiry';
+import { logAdminActionIn } from '@/services/adminLogService';
+
+const LISTINGS_SETTINGS_ID = 'listings';
+const MAX_EXPIRY_DAYS = 365;
+
+// Read once per session; saving replaces it
+let cachedExpiryDays: ExpiryDays | null = null;
+
+function listingsSettingsDoc() {
+  return doc(db, COLLECTIONS.SETTINGS, LISTINGS_SETTINGS_ID);
+}
+
+/**
+ * Listing durations per category, falling back to the defaults for missing categories
+ */
+export async function getExpiryDays(): Promise<ExpiryDays> {
+  if (cachedExpiryDays) return cachedExpiryDays;
+
+  try {
+    const snap = await getDoc(listingsSettingsDoc());
+    const stored = snap.exists() ? snap.data().expiryDays || {} : {};
+    cachedExpiryDays = { ...DEFAULT_EXPIRY_DAYS };
+    CATEGORIES.forEach(({ key }) => {
+      if (typeof stored[key] === 'number' && stored[key] > 0) {
+        cachedExpiryDays![key] = stored[key];
+      }
+    });
+    return cachedExpiryDays;
+  } catch (error) {
+    console.error('Error fetching expiry settings:', error);
+    return DEFAULT_EXPIRY_DAYS;
+  }
+}
+
+/**
+ * Save listing durations per category (admin only)
+ * Applies to posts published or renewed from now on
+ */
+export async function saveExpiryDays(
+  admin: User,
+  expiryDays: ExpiryDays
+): Promise<{ success: boolean; error?: string }> {
+  const invalid = Object.values(expiryDays).some(
+    days => !Number.isInteger(days) || days < 1 || days > MAX_EXPIRY_DAYS
+  );
+  if (invalid) {
+    return { success: false, error: `Durata trebuie să fie între 1 și ${MAX_EXPIRY_DAYS} de zile` };
+  }
+
+  try {
+    const previous = await getExpiryDays();
+    const batch = writeBatch(db);
+    batch.set(
+      listingsSettingsDoc(),
+      { expiryDays, updatedAt: serverTimestamp() },
+      { merge: true }
+    );
+    logAdminActionIn(batch, admin, {
+      action: 'update_settings',
+      targetType: 'settings',
+      targetId: LISTINGS_SETTINGS_ID,
+      targetLabel: 'Durata anunțurilor',
+      snapshot: { expiryDays: previous },
+    });
+    await batch.commit();
+    cachedExpiryDays = { ...expiryDays };
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error saving expiry settings:', error);
+    return { success: false, error: 'Eroare la salvarea setărilor' };
+  }
+}
@@ -0,0 +1,145 @@
+'use client';
+
+/**
+ * Suspensions Service
+ * A suspended user's active, scheduled and sold listings move to the 'suspended'
+ * status and remember the one they had (statusBeforeSuspension), so lifting the
+ * suspension puts each back where it was. Admins suspend and lift in adminService.
+ */
+
+import {
+  collection,
+  query,
+  where,
+  getDoc,
+  getDocs,
+  updateDoc,
+  writeBatch,
+  deleteField,
+  QueryDocumentSnapshot,
+  DocumentData,
+  WriteBatch,
+  Timestamp,
+} from 'firebase/firestore';
+import { db, COLLECTIONS } from '@/lib/firebase';
+import { postsCache } from '@/lib/cache';
+import { userDoc, usersCollection } from '@/lib/converters';
+import { isSuspensionActive, isSuspensionLapsed } from '@/lib/suspensions';
+import { clearUserCache } from '@/services/usersService';
+import { User, UserSuspension } from '@/types';
+
+const UPDATE_BATCH_SIZE = 400;
+
+/**
+ * The user's suspension if it is still running
+ * Checked before posting or commenting
+ */
+export async function getActiveSuspension(userId: string): Promise<UserSuspension | null> {
+  const userSnap = await getDoc(userDoc(userId));
+  const suspension = userSnap.exists() ? userSnap.data().suspension : null;
+  return isSuspensionActive(suspension) ? suspension : null;
+}
+
+async function updateInBatches(
+  docs: QueryDocumentSnapshot<DocumentData>[],
+  update: (batch: WriteBatch, snap: QueryDocumentSnapshot<DocumentData>) => void
+): Promise<void> {
+  for (let i = 0; i < docs.length; i += UPDATE_BATCH_SIZE) {
+    const batch = writeBatch(db);
+    docs.slice(i, i + UPDATE_BATCH_SIZE).forEach(snap => update(batch, snap));
+    await batch.commit();
+  }
+}
+
+/**
+ * A seller's post documents, optionally only those with one status
+ * Older posts only have sellerId and newer code writes userId too, so both are
+ * queried and merged, like adminDeleteUser does
+ */
+async function fetchSellerPostDocs(
+  sellerId: string,
+  status?: string
+): Promise<QueryDocumentSnapshot<DocumentData>[]> {
+  const statusFilter = status ? [where('status', '==', status)] : [];
+  const [sellerSnapshot, userIdSnapshot] = await Promise.all([
+    getDocs(query(collection(db, COLLECTIONS.PRODUCTS), where('sellerId', '==', sellerId), ...statusFilter)),
+    getDocs(query(collection(db, COLLECTIONS.PRODUCTS), where('userId', '==', sellerId), ...statusFilter)),
+  ]);
+
+  const docs = new Map<string, QueryDocumentSnapshot<DocumentData>>();
+  [...sellerSnapshot.docs, ...userIdSnapshot.docs].forEach(snap => docs.set(snap.id, snap));
+  return Array.from(docs.values());
+}
+
+/**
+ * Hide a seller's public listings; returns how many were hidden
+ * Legacy posts without a status count as active
+ */
+export async function hideSellerPosts(sellerId: string): Promise<number> {
+  const docs = await fetchSellerPostDocs(sellerId);
+  const visible = docs.filter(snap => {
+    const status = snap.data().status || 'active';
+    return status === 'active' || status === 'scheduled' || status === 'sold';
+  });
+
+  await updateInBatches(visible, (batch, snap) => {
+    batch.update(snap.ref, {
+      status: 'suspended',
+      statusBeforeSuspension: snap.data().status || 'active',
+    });
+  });
+
+  if (visible.length > 0) postsCache.clear();
+  return visible.length;
+}
+
+/**
+ * Put a seller's hidden listings back; expiry is checked on read as usual
+ */
+export async function restoreSellerPosts(sellerId: string): Promise<number> {
+  const docs = await fetchSellerPostDocs(sellerId, 'suspended');
+
+  await updateInBatches(docs, (batch, snap) => {
+    batch.update(snap.ref, {
+      status: snap.data().statusBeforeSuspension || 'active',
+      statusBeforeSuspension: deleteField(),
+    });
+  });
+
+  if (docs.length > 0) postsCache.clear();
+  return docs.length;
+}
+
+/**
+ * Clear a suspension that ran out and bring the user's listings back
+ * Runs when the user returns, and for everyone else in the admin's expiry sweep
+ */
+export async function endLapsedSuspension(user: User): Promise<{ success: boolean; error?: string }> {
+  if (!isSuspensionLapsed(user.suspension)) return { success: true };
+
+  try {
+    await restoreSellerPosts(user.id);
+    await updateDoc(userDoc(user.id).withConverter(null), { suspension: deleteField() });
+    clearUserCache(user.id);
+    return { success: true };
+  } catch (error) {
+    console.error('Error ending suspension:', error);
+    return { success: false, error: 'Eroare la încheierea suspendării' };
+  }
+}
+
+/**
+ * End every temporary suspension that ran out; returns how many were ended
+ * Users who never sign in again would otherwise keep their listings hidden
+ */
+export async function endLapsedSuspensions(): Promise<number> {
+  // Permanent bans have no end date, so the range filter leaves them out
+  const snapshot = await getDocs(query(usersCollection(), where('suspension.until', '<=', Timestamp.now())));
+
+  let ended = 0;
+  for (const userSnap of snapshot.docs) {
+    const result = await endLapsedSuspension(userSnap.data());
+    if (result.success) ended++;
+  }
+  return ended;
+}
@@ -12,39 +12,18 @@ import {
   updateDoc,
   query,
   where,
-  collection,
   serverTimestamp,
   documentId,
 } from 'firebase/firestore';
 import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
 import { db, storage, COLLECTIONS } from '@/lib/firebase';
 import { User } from '@/types';
-import { timestampToDate } from '@/lib/utils';
+import { usersCollection, userDoc } from '@/lib/converters';
 
 // Cache for user profiles
 const userCache = new Map<string, { data: User; timestamp: number }>();
 const CACHE_TTL = 10 * 60 * 1000; // 10 minutes
 
-/**
- * Convert Firestore document to User object
- */
-function docToUser(docId: string, data: Record<string, unknown>): User {
-  return {
-    id: docId,
-    uid: (data.uid as string) || docId,
-    email: (data.email as string) || '',
-    fullName: (data.fullName as string) || '',
-    phone: (data.phone as string) || '',
-    city: (data.city as string) || '',
-    profileImage: (data.profileImage as string) || '',
-    coverImage: (data.coverImage as string) || '',
-    bio: (data.bio as string) || '',
-    role: (data.role as 'user' | 'admin') || 'user',
-    createdAt: timestampToDate(data.createdAt),
-    updatedAt: timestampToDate(data.updatedAt),
-  };
-}
-
 /**
  * Get user profile by ID
  */
@@ -58,11 +37,10 @@ export async function getUserProfile(userId: string): Promise<User | null> {
   }
 
   try {
-    const docRef = doc(db, COLLECTIONS.USERS, userId);
-    const docSnap = await getDoc(docRef);
+    const docSnap = await getDoc(userDoc(userId));
     
     if (docSnap.exists()) {
-      const userData = docToUser(docSnap.id, docSnap.data() as Record<string, unknown>);
+      const userData = docSnap.data();
       
       // Cache the result
       userCache.set(userId, {
@@ -108,13 +86,13 @@ export async function getUserProfiles(userIds: string[]): Promise<Record<string,
     for (const batch of batches) {
       try {
         const usersQuery = query(
-          collection(db, COLLECTIONS.USERS),
+          usersCollection(),
           where(documentId(), 'in', batch)
         );
         const snapshot = await getDocs(usersQuery);
 
         snapshot.forEach((docSnap) => {
-          const userData = docToUser(docSnap.id, docSnap.data() as Record<string, unknown>);
+          const userData = docSnap.data();
           result[docSnap.id] = userData;
           userCache.set(docSnap.id, {
             data: userData,
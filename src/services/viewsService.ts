@@ -0,0 +1,98 @@
+'use client';
+
+/**
+ * Views Service
+ * Counts post views with a sharded counter at products/{postId}/viewShards/{n}.
+ * Each visitor session counts a post once; the author's own views and bots are ignored.
+ * The legacy 'views' field on the post is kept as the starting value of the total.
+ */
+
+import { collection, doc, getDocs, setDoc, increment } from 'firebase/firestore';
+import { db, COLLECTIONS } from '@/lib/firebase';
+import { Post } from '@/types';
+
+// Spreads writes so popular posts stay under Firestore's ~1 write/sec per document
+const VIEW_SHARD_COUNT = 10;
+const VIEWED_POSTS_KEY = 'viewed_posts';
+const BOT_PATTERN = /bot|crawl|spider|slurp|headless|lighthouse|prerender|preview|facebookexternalhit|whatsapp/i;
+
+function viewShardsCollection(postId: string) {
+  return collection(db, COLLECTIONS.PRODUCTS, postId, 'viewShards');
+}
+
+function isBot(): boolean {
+  if (typeof navigator === 'undefined') return true;
+  return navigator.webdriver || BOT_PATTERN.test(navigator.userAgent);
+}
+
+function getViewedPosts(): Set<string> {
+  try {
+    const stored = sessionStorage.getItem(VIEWED_POSTS_KEY);
+    return new Set(stored ? JSON.parse(stored) : []);
+  } catch (error) {
+    console.error('Error reading viewed posts:', error);
+    return new Set();
+  }
+}
+
+function markViewed(postId: string) {
+  const viewed = getViewedPosts();
+  viewed.add(postId);
+  try {
+    sessionStorage.setItem(VIEWED_POSTS_KEY, JSON.stringify(Array.from(viewed)));
+  } catch (error) {
+    console.error('Error saving viewed posts:', error);
+  }
+}
+
+/**
+ * Record a view of a post, at most once per browser session
+ * Returns counted: false when the view was skipped (author, bot or already counted)
+ */
+export async function recordPostView(
+  post: Pick<Post, 'id' | 'userId' | 'sellerId'>,
+  viewerId?: string | null
+): Promise<{ success: boolean; counted: boolean; error?: string }> {
+  const authorId = post.userId || post.sellerId;
+  if ((viewerId && viewerId === authorId) || isBot() || getViewedPosts().has(post.id)) {
+    return { success: true, counted: false };
+  }
+
+  // Mark first so a double effect run in dev can't count twice
+  markViewed(post.id);
+
+  try {
+    const shardId = String(Math.floor(Math.random() * VIEW_SHARD_COUNT));
+    await setDoc(
+      doc(viewShardsCollection(post.id), shardId),
+      { count: increment(1) },
+      { merge: true }
+    );
+    return { success: true, counted: true };
+  } catch (error) {
+    console.error('Error recording post view:', error);
+    return { success: false, counted: false, error: 'Eroare la înregistrarea vizualizării' };
+  }
+}
+
+/**
+ * Total views of a post: legacy 'views' field plus every shard
+ */
+export async function getPostViews(post: Pick<Post, 'id' | 'views'>): Promise<number> {
+  try {
+    const snapshot = await getDocs(viewShardsCollection(post.id));
+    const shardTotal = snapshot.docs.reduce((sum, shard) => sum + (shard.data().count || 0), 0);
+    return (post.views || 0) + shardTotal;
+  } catch (error) {
+    console.error('Error fetching post views:', error);
+    return post.views || 0;
+  }
+}
+
+/**
+ * Total views for several posts, keyed by post ID
+ */
+export async function getPostsViews(posts: Pick<Post, 'id' | 'views'>[]): Promise<Record<string, number>> {
+  const totals = await Promise.all(posts.map(post => getPostViews(post)));
+  return Object.fromEntries(posts.map((post, index) => [post.id, totals[index]]));
+}
@@ -32,19 +32,51 @@ export interface User {
   coverImage?: string;
   bio?: string;
   role?: 'user' | 'admin';
+  followersCount: number;
+  followingCount: number;
+  ratingCount: number; // Visible reviews only
+  ratingSum: number;
+  suspension: UserSuspension | null; // A lapsed one stays until the user's next visit clears it
   createdAt: Date | null;
   updatedAt: Date | null;
 }
 
+// Set by an admin; the user can't post or comment and their listings are hidden
+export interface UserSuspension {
+  reason: string;
+  until: Date | null; // null for a permanent ban
+  suspendedBy: string;
+  suspendedAt: Date | null;
+}
+
 // Comment model
+// User referenced as "@name" in a comment
+export interface CommentMention {
+  userId: string;
+  name: string;
+}
+
+// Top-level comments live at products/{postId}/comments/{id}; replies, one level deep,
+// at products/{postId}/comments/{parentId}/replies/{id}
 export interface Comment {
   id: string;
   postId: string;
+  parentId: string | null; // Set on replies
   userId: string;
   userName: string;
   userImage?: string;
   text: string;
+  mentions: CommentMention[];
+  repliesCount: number;
   createdAt: Date | null;
+  editedAt: Date | null; // Set once the author edits it ("editat")
+}
+
+// Text a comment had before an edit, in .../comments/{id}/revisions (moderators only)
+export interface CommentRevision {
+  id: string;
+  text: string;
+  replacedAt: Date | null;
 }
 
 // Post model - matches existing Firestore 'products' collection
@@ -64,12 +96,17 @@ export interface Post {
   userEmail?: string;
   userName?: string;
   userImage?: string;
-  status: 'active' | 'inactive' | 'sold' | 'deleted';
+  status: 'active' | 'inactive' | 'sold' | 'expired' | 'scheduled' | 'suspended' | 'deleted';
   views?: number;
   saves?: number;
-  likes?: string[]; // Array of user IDs who liked
+  likes?: string[]; // Legacy: likes now live in products/{id}/likes/{uid}
   likesCount?: number;
   commentsCount?: number;
+  normalizedPrice?: number; // Price in RON, used for sorting
+  expiresAt?: Date | null;
+  renewedAt?: Date | null;
+  sortAt?: Date | null; // Position in newest-first feeds: when it went live, moved up by a renewal
+  publishAt?: Date | null; // Scheduled publish time
   createdAt: Date | null;
   updatedAt: Date | null;
 }
@@ -103,6 +140,252 @@ export interface CreatePostData {
   currency?: string;
   location?: string;
   category?: CategoryKey;
+  publishAt?: Date; // Publish later instead of now
+}
+
+// Media item being edited in the post form
+// Existing media only has a URL; new media also carries the file to upload
+export interface MediaDraft {
+  id: string; // Stable key while the form is open
+  url: string; // Download URL, or a local preview for new files
+  type: MediaType;
+  file?: File;
+}
+
+// Conversation between a buyer and a seller about a post, in conversations/{postId}_{buyerId}
+export interface Conversation {
+  id: string;
+  postId: string;
+  postTitle: string;
+  postImage?: string;
+  buyerId: string;
+  sellerId: string;
+  participants: string[]; // [buyerId, sellerId], for array-contains queries
+  participantNames: Record<string, string>;
+  participantImages: Record<string, string>;
+  lastMessage: string;
+  lastSenderId: string;
+  unread: Record<string, number>; // Unread messages per participant
+  createdAt: Date | null;
+  updatedAt: Date | null;
+}
+
+// Message in conversations/{id}/messages
+export interface Message {
+  id: string;
+  conversationId: string;
+  senderId: string;
+  text: string;
+  imageUrl?: string;
+  createdAt: Date | null;
+}
+
+// Report sent to the admins
+export type ReportReason = 'spam' | 'fraud' | 'offensive' | 'wrong_category' | 'other';
+
+export const REPORT_REASON_LABELS: Record<ReportReason, string> = {
+  spam: 'Spam',
+  fraud: 'Fraudă sau înșelătorie',
+  offensive: 'Conținut ofensator sau hărțuire',
+  wrong_category: 'Categorie greșită',
+  other: 'Altceva',
+};
+
+export type ReportTargetType = 'post' | 'comment' | 'user';
+
+// What is being reported; label and owner are copied so the queue reads without lookups
+export interface ReportTarget {
+  type: ReportTargetType;
+  id: string;
+  postId?: string; // Comments: the post they are on
+  parentId?: string | null; // Replies: their top-level comment
+  label: string; // Post title, comment excerpt or user name
+  ownerId: string; // Author of the post or comment, or the reported user
+}
+
+export interface Report {
+  id: string;
+  targetType: ReportTargetType;
+  targetId: string;
+  postId?: string;
+  parentId?: string | null;
+  targetLabel: string;
+  targetOwnerId: string;
+  reporterId: string;
+  reason: ReportReason;
+  details: string;
+  conversationId?: string; // Where the reported behaviour happened
+  status: 'open' | 'resolved' | 'dismissed';
+  createdAt: Date | null;
+  closedAt: Date | null;
+}
+
+// Moderation step recorded in the append-only admin log
+export type AdminAction =
+  | 'delete_post'
+  | 'delete_comment'
+  | 'delete_user'
+  | 'delete_review'
+  | 'hide_review'
+  | 'show_review'
+  | 'suspend_user'
+  | 'lift_suspension'
+  | 'resolve_reports'
+  | 'dismiss_reports'
+  | 'normalize_posts'
+  | 'expire_posts'
+  | 'update_settings';
+
+export const ADMIN_ACTION_LABELS: Record<AdminAction, string> = {
+  delete_post: 'Postare ștearsă',
+  delete_comment: 'Comentariu șters',
+  delete_user: 'Utilizator șters',
+  delete_review: 'Recenzie ștearsă',
+  hide_review: 'Recenzie ascunsă',
+  show_review: 'Recenzie afișată',
+  suspend_user: 'Utilizator suspendat',
+  lift_suspension: 'Suspendare ridicată',
+  resolve_reports: 'Raportări rezolvate',
+  dismiss_reports: 'Raportări respinse',
+  normalize_posts: 'Postări vechi normalizate',
+  expire_posts: 'Postări expirate',
+  update_settings: 'Setări modificate',
+};
+
+export type AdminLogTargetType = 'post' | 'comment' | 'user' | 'review' | 'report' | 'settings';
+
+// Entry in adminLog/{id}; written once and never changed
+export interface AdminLogEntry {
+  id: string;
+  action: AdminAction;
+  actorId: string;
+  actorName: string;
+  targetType: AdminLogTargetType;
+  targetId: string;
+  targetLabel: string;
+  targetOwnerId: string; // The user the action affected, for looking up disputes
+  postId?: string; // Comments: the post they were on
+  reason: string;
+  snapshot: Record<string, unknown> | null; // The content as it was before it was deleted
+  snapshotCommentsCount: number; // Comments deleted with it, kept in adminLog/{id}/comments
+  createdAt: Date | null;
+}
+
+// A comment or reply deleted with a logged target, as it was; replies carry parentId
+export type AdminLogComment = Record<string, unknown>;
+
+// Filters on the admin log; they can be combined
+export interface AdminLogFilters {
+  action?: AdminAction;
+  actorId?: string;
+  targetOwnerId?: string;
+}
+
+// Saved search in users/{uid}/savedSearches/{id}
+// Alerts fire for new active posts matching the keywords, category, price range and city
+export interface SavedSearch {
+  id: string;
+  userId: string;
+  name: string;
+  query?: string;
+  category?: CategoryKey;
+  filters: PostFilters;
+  emailDigest: boolean;
+  lastCheckedAt: Date | null; // In-app alerts cover posts up to here
+  lastEmailedAt: Date | null; // The email digest covers posts up to here
+  createdAt: Date | null;
+}
+
+// New post matching a saved search, in users/{uid}/searchAlerts/{searchId}_{postId}
+export interface SearchAlert {
+  id: string;
+  searchId: string;
+  searchName: string;
+  postId: string;
+  postTitle: string;
+  postImage?: string;
+  read: boolean;
+  createdAt: Date | null;
+}
+
+// In-app notification in users/{uid}/notifications/{id}
+// Repeatable events (likes, a conversation's messages, search matches) use deterministic ids
+export type NotificationType =
+  | 'like'
+  | 'comment'
+  | 'reply'
+  | 'mention'
+  | 'message'
+  | 'moderation'
+  | 'search_match'
+  | 'review'
+  | 'review_reply';
+
+export interface AppNotification {
+  id: string;
+  type: NotificationType;
+  actorId?: string; // Who triggered it; absent for admin and system events
+  actorName?: string;
+  actorImage?: string;
+  postId?: string;
+  postTitle?: string;
+  conversationId?: string;
+  searchId?: string;
+  searchName?: string;
+  profileId?: string; // Seller whose reviews it is about
+  text?: string; // Comment, message or review excerpt, moderation details
+  read: boolean;
+  createdAt: Date | null;
+}
+
+// Someone who liked a post, from products/{postId}/likes/{uid} joined with their profile
+export interface PostLiker {
+  userId: string;
+  fullName: string;
+  profileImage?: string;
+  likedAt: Date | null;
+}
+
+// Seller review in users/{sellerId}/reviews/{conversationId}
+// The id is the conversation it was left for, so a buyer reviews each conversation once
+export interface Review {
+  id: string;
+  sellerId: string;
+  reviewerId: string;
+  reviewerName: string;
+  reviewerImage?: string;
+  postId: string;
+  postTitle: string;
+  rating: number; // 1-5
+  text: string;
+  reply: ReviewReply | null; // The seller's public answer
+  hidden: boolean; // Hidden by a moderator; left out of the seller's score
+  createdAt: Date | null;
+}
+
+export interface ReviewReply {
+  text: string;
+  createdAt: Date | null;
+}
+
+// Bookmarked post in users/{uid}/saved/{postId}
+// Title and image are copied at save time so deleted posts can still be listed
+export interface SavedPost {
+  postId: string;
+  title: string;
+  image?: string;
+  savedAt: Date | null;
+  post: Post | null; // null when the post no longer exists
+}
+
+// Unpublished post autosaved in the browser (IndexedDB)
+// Media only keeps the picked files; previews are rebuilt on restore
+export interface PostDraft {
+  id: string;
+  userId: string;
+  formData: CreatePostData;
+  media: { type: MediaType; file: File }[];
+  updatedAt: Date;
 }
 
 // Categories configuration
@@ -123,3 +406,32 @@ export const CATEGORY_LABELS: Record<CategoryKey, string> = {
   contabilitate: 'Contabilitate',
   agropiata: 'Piața Agroalimentară',
 };
+
+export const POST_STATUS_LABELS: Record<Post['status'], string> = {
+  active: 'Activ',
+  inactive: 'Inactiv',
+  sold: 'Vândut',
+  expired: 'Expirat',
+  scheduled: 'Programat',
+  suspended: 'Suspendat',
+  deleted: 'Șters',
+};
+
+// Posts saved without a category have always been listed under construction
+export const DEFAULT_CATEGORY: CategoryKey = 'construction';
+
+// Feed filters (category pages)
+export type PostAvailability = 'available' | 'sold' | 'all';
+export type DatePostedFilter = '24h' | '7d' | '30d';
+export type PostSort = 'newest' | 'oldest' | 'price_asc' | 'price_desc' | 'most_liked' | 'most_commented';
+
+export interface PostFilters {
+  minPrice?: number;
+  maxPrice?: number;
+  currency?: string; // Price bounds only compare posts in this currency
+  location?: string;
+  hasPhotos?: boolean;
+  hasVideos?: boolean;
+  postedWithin?: DatePostedFilter;
+  availability?: PostAvailability;
+}